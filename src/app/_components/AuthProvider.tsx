@@ -9,10 +9,12 @@ import {
 } from "react";
 import { onAuthStateChanged, type User } from "firebase/auth";
 import { doc, getDoc } from "firebase/firestore";
+import {
+  normalizeAccountStatus,
+  type AccountStatus,
+} from "@/lib/accountStatus";
 import { auth, db } from "@/lib/firebase";
 
-type AccountStatus = "admin" | "coreUser" | "viewOnly";
-
 type AuthContextValue = {
   user: User | null;
   loading: boolean;
@@ -29,20 +31,6 @@ const AuthContext = createContext<AuthContextValue>({
   canEdit: false,
 });
 
-const normalizeStatus = (value?: string | null): AccountStatus => {
-  switch (value) {
-    case "admin":
-    case "viewOnly":
-    case "coreUser":
-      return value;
-    case "core user":
-    case "core-user":
-      return "coreUser";
-    default:
-      return "viewOnly";
-  }
-};
-
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [authLoading, setAuthLoading] = useState(true);
@@ -71,7 +59,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         if (cancelled) return;
         if (snap.exists()) {
           setAccountStatus(
-            normalizeStatus((snap.data() as any)?.accountStatus),
+            normalizeAccountStatus((snap.data() as any)?.accountStatus),
           );
         } else {
           setAccountStatus("viewOnly");
@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+import type { ExportFormat } from "@/lib/exports";
+
+type ExportButtonsProps = {
+  onExport: (format: ExportFormat) => void | Promise<void>;
+  disabled?: boolean;
+};
+
+/**
+ * CSV / XLSX download buttons for a list page's current rows. A failed
+ * export is reported next to the buttons.
+ */
+export default function ExportButtons({
+  onExport,
+  disabled = false,
+}: ExportButtonsProps) {
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(true);
+    setError(null);
+    try {
+      await onExport(format);
+    } catch (err: any) {
+      setError(err?.message ?? "Unable to export rows.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        className="ims-secondary-button"
+        onClick={() => handleExport("csv")}
+        disabled={disabled || exporting}
+      >
+        Export CSV
+      </button>
+      <button
+        type="button"
+        className="ims-secondary-button"
+        onClick={() => handleExport("xlsx")}
+        disabled={disabled || exporting}
+      >
+        {exporting ? "Exporting…" : "Export XLSX"}
+      </button>
+      {error && <div className="ims-alert ims-alert--error">{error}</div>}
+    </>
+  );
+}
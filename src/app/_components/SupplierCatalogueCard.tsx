@@ -0,0 +1,448 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { collection, getDocs, orderBy, query } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "./AuthProvider";
+import {
+  deleteSupplierItem,
+  fetchSupplierItems,
+  saveSupplierItem,
+  SUPPLIER_ITEM_CURRENCIES,
+  type SupplierItem,
+} from "@/lib/supplierCatalogue";
+
+type SupplierCatalogueCardProps =
+  | { mode: "supplier"; supplier: { id: string; name: string } }
+  | { mode: "item"; item: { id: string; name: string; sku: string } };
+
+type CounterpartOption = { id: string; name: string; sku: string };
+
+type EntryFormState = {
+  counterpartId: string;
+  supplierSku: string;
+  unitPrice: string;
+  currency: string;
+  moq: string;
+  packSize: string;
+  leadTimeDays: string;
+  preferred: boolean;
+};
+
+const emptyForm: EntryFormState = {
+  counterpartId: "",
+  supplierSku: "",
+  unitPrice: "",
+  currency: "GBP",
+  moq: "",
+  packSize: "",
+  leadTimeDays: "",
+  preferred: false,
+};
+
+const toFormValue = (value: number | null) =>
+  value === null ? "" : String(value);
+
+const parseOptional = (raw: string) => (raw.trim() === "" ? null : Number(raw));
+
+const formatPrice = (entry: SupplierItem) =>
+  entry.unitPrice === null
+    ? "—"
+    : new Intl.NumberFormat("en-GB", {
+        style: "currency",
+        currency: entry.currency,
+      }).format(entry.unitPrice);
+
+/**
+ * Supplier-item catalogue entries for one supplier (listing its items) or one
+ * item (listing who sells it), with an inline form to add or edit entries.
+ */
+export default function SupplierCatalogueCard(
+  props: SupplierCatalogueCardProps,
+) {
+  const { canEdit } = useAuth();
+  const isSupplierMode = props.mode === "supplier";
+  const ownerId = props.mode === "supplier" ? props.supplier.id : props.item.id;
+
+  const [entries, setEntries] = useState<SupplierItem[]>([]);
+  const [options, setOptions] = useState<CounterpartOption[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<EntryFormState>(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setEntries(
+        await fetchSupplierItems(
+          isSupplierMode ? { supplierId: ownerId } : { itemId: ownerId },
+        ),
+      );
+    } catch (err: any) {
+      console.error("Error loading supplier catalogue", err);
+      setError(err?.message ?? "Unable to load the supplier catalogue.");
+    } finally {
+      setLoading(false);
+    }
+  }, [isSupplierMode, ownerId]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const snap = await getDocs(
+          query(
+            collection(db, isSupplierMode ? "items" : "suppliers"),
+            orderBy("name"),
+          ),
+        );
+        setOptions(
+          snap.docs.map((docSnap) => ({
+            id: docSnap.id,
+            name: docSnap.data().name ?? "",
+            sku: docSnap.data().sku ?? "",
+          })),
+        );
+      } catch (err) {
+        console.error("Error loading catalogue options", err);
+      }
+    };
+    loadOptions();
+  }, [isSupplierMode]);
+
+  const openForm = (entry: SupplierItem | null) => {
+    setError(null);
+    setEditingId(entry?.id ?? null);
+    setForm(
+      entry
+        ? {
+            counterpartId: isSupplierMode ? entry.itemId : entry.supplierId,
+            supplierSku: entry.supplierSku ?? "",
+            unitPrice: toFormValue(entry.unitPrice),
+            currency: entry.currency,
+            moq: toFormValue(entry.moq),
+            packSize: toFormValue(entry.packSize),
+            leadTimeDays: toFormValue(entry.leadTimeDays),
+            preferred: entry.preferred,
+          }
+        : emptyForm,
+    );
+    setShowForm(true);
+  };
+
+  const handleSave = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const counterpart = options.find(
+      (option) => option.id === form.counterpartId,
+    );
+    if (!counterpart) {
+      setError(isSupplierMode ? "Choose an item." : "Choose a supplier.");
+      return;
+    }
+    const supplier =
+      props.mode === "supplier" ? props.supplier : counterpart;
+    const item = props.mode === "item" ? props.item : counterpart;
+    setSaving(true);
+    setError(null);
+    try {
+      await saveSupplierItem(editingId, {
+        supplierId: supplier.id,
+        supplierName: supplier.name,
+        itemId: item.id,
+        itemName: item.name,
+        itemSku: item.sku,
+        supplierSku: form.supplierSku,
+        unitPrice: parseOptional(form.unitPrice),
+        currency: form.currency,
+        moq: parseOptional(form.moq),
+        packSize: parseOptional(form.packSize),
+        leadTimeDays: parseOptional(form.leadTimeDays),
+        preferred: form.preferred,
+      });
+      setShowForm(false);
+      setEditingId(null);
+      await loadEntries();
+    } catch (err: any) {
+      console.error("Error saving catalogue entry", err);
+      setError(err?.message ?? "Unable to save the catalogue entry.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: SupplierItem) => {
+    if (
+      !window.confirm(
+        `Remove ${entry.itemName} from ${entry.supplierName}'s catalogue?`,
+      )
+    ) {
+      return;
+    }
+    setError(null);
+    try {
+      await deleteSupplierItem(entry.id);
+      await loadEntries();
+    } catch (err: any) {
+      console.error("Error deleting catalogue entry", err);
+      setError(err?.message ?? "Unable to remove the catalogue entry.");
+    }
+  };
+
+  const counterpartLabel = isSupplierMode ? "Item" : "Supplier";
+
+  return (
+    <section className="card ims-table-card">
+      <div className="ims-table-header">
+        <div>
+          <h2 className="ims-form-section-title">Supplier catalogue</h2>
+          <p className="ims-form-section-subtitle">
+            {isSupplierMode
+              ? "Items this supplier sells, with their prices and lead times."
+              : "Suppliers that sell this item. The preferred entry is used first when purchasing."}
+          </p>
+        </div>
+        {canEdit && !showForm && (
+          <button
+            type="button"
+            className="ims-secondary-button"
+            onClick={() => openForm(null)}
+          >
+            + Add entry
+          </button>
+        )}
+      </div>
+
+      {error && <div className="ims-alert ims-alert--error">{error}</div>}
+
+      {showForm && (
+        <form className="ims-form-section" onSubmit={handleSave}>
+          <div className="ims-field-row">
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="catalogueCounterpart">
+                {counterpartLabel}
+                <span className="ims-required">*</span>
+              </label>
+              <select
+                id="catalogueCounterpart"
+                className="ims-field-input"
+                value={form.counterpartId}
+                onChange={(e) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    counterpartId: e.target.value,
+                  }))
+                }
+                disabled={Boolean(editingId)}
+              >
+                <option value="">Select…</option>
+                {options.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.sku ? `${option.sku} — ` : ""}
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="catalogueSku">
+                Supplier SKU
+              </label>
+              <input
+                id="catalogueSku"
+                className="ims-field-input"
+                value={form.supplierSku}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, supplierSku: e.target.value }))
+                }
+              />
+            </div>
+          </div>
+          <div className="ims-field-row">
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="cataloguePrice">
+                Unit price
+              </label>
+              <input
+                id="cataloguePrice"
+                type="number"
+                min={0}
+                step="0.01"
+                className="ims-field-input"
+                value={form.unitPrice}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, unitPrice: e.target.value }))
+                }
+              />
+            </div>
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="catalogueCurrency">
+                Currency
+              </label>
+              <select
+                id="catalogueCurrency"
+                className="ims-field-input"
+                value={form.currency}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, currency: e.target.value }))
+                }
+              >
+                {SUPPLIER_ITEM_CURRENCIES.map((currency) => (
+                  <option key={currency} value={currency}>
+                    {currency}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="catalogueMoq">
+                MOQ
+              </label>
+              <input
+                id="catalogueMoq"
+                type="number"
+                min={0}
+                className="ims-field-input"
+                value={form.moq}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, moq: e.target.value }))
+                }
+              />
+            </div>
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="cataloguePack">
+                Pack size
+              </label>
+              <input
+                id="cataloguePack"
+                type="number"
+                min={0}
+                className="ims-field-input"
+                value={form.packSize}
+                onChange={(e) =>
+                  setForm((prev) => ({ ...prev, packSize: e.target.value }))
+                }
+              />
+            </div>
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="catalogueLeadTime">
+                Lead time (days)
+              </label>
+              <input
+                id="catalogueLeadTime"
+                type="number"
+                min={0}
+                className="ims-field-input"
+                value={form.leadTimeDays}
+                onChange={(e) =>
+                  setForm((prev) => ({
+                    ...prev,
+                    leadTimeDays: e.target.value,
+                  }))
+                }
+              />
+            </div>
+          </div>
+          <label className="ims-field-label">
+            <input
+              type="checkbox"
+              checked={form.preferred}
+              onChange={(e) =>
+                setForm((prev) => ({ ...prev, preferred: e.target.checked }))
+              }
+            />{" "}
+            Preferred supplier for this item
+          </label>
+          <div className="ims-form-actions">
+            <button
+              type="button"
+              className="ims-secondary-button"
+              onClick={() => {
+                setShowForm(false);
+                setEditingId(null);
+              }}
+              disabled={saving}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="ims-primary-button"
+              disabled={saving}
+            >
+              {saving ? "Saving…" : editingId ? "Save entry" : "Add entry"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <p className="ims-table-empty">Loading catalogue…</p>
+      ) : entries.length === 0 ? (
+        <p className="ims-table-empty">No catalogue entries yet.</p>
+      ) : (
+        <div className="ims-table-wrapper">
+          <table className="ims-table ims-table--compact">
+            <thead>
+              <tr>
+                <th>{counterpartLabel}</th>
+                <th>Supplier SKU</th>
+                <th>Unit price</th>
+                <th>MOQ</th>
+                <th>Pack</th>
+                <th>Lead time</th>
+                <th>Preferred</th>
+                {canEdit && <th />}
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.id}>
+                  <td>
+                    {isSupplierMode
+                      ? `${entry.itemSku ? `${entry.itemSku} — ` : ""}${entry.itemName}`
+                      : entry.supplierName}
+                  </td>
+                  <td>{entry.supplierSku || "—"}</td>
+                  <td>{formatPrice(entry)}</td>
+                  <td>{entry.moq ?? "—"}</td>
+                  <td>{entry.packSize ?? "—"}</td>
+                  <td>
+                    {entry.leadTimeDays === null
+                      ? "—"
+                      : `${entry.leadTimeDays} days`}
+                  </td>
+                  <td>{entry.preferred ? "Yes" : ""}</td>
+                  {canEdit && (
+                    <td style={{ textAlign: "right" }}>
+                      <button
+                        type="button"
+                        className="ims-secondary-button"
+                        onClick={() => openForm(entry)}
+                      >
+                        Edit
+                      </button>{" "}
+                      <button
+                        type="button"
+                        className="ims-secondary-button"
+                        onClick={() => handleDelete(entry)}
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
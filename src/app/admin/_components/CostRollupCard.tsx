@@ -0,0 +1,206 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { getInventoryDetailPath } from "@/lib/inventoryPaths";
+import {
+  COST_VARIANCE_THRESHOLD,
+  loadCostRollups,
+  saveCostRollups,
+  type CostRollupResult,
+} from "@/lib/costing";
+
+const formatCurrency = (value?: number | null) => {
+  if (typeof value !== "number" || Number.isNaN(value)) return "—";
+  return new Intl.NumberFormat("en-GB", {
+    style: "currency",
+    currency: "GBP",
+    maximumFractionDigits: 2,
+  }).format(value);
+};
+
+const formatVariance = (value: number | null) => {
+  if (value == null) return "—";
+  const percent = value * 100;
+  return `${percent > 0 ? "+" : ""}${percent.toFixed(1)}%`;
+};
+
+export default function CostRollupCard() {
+  const [results, setResults] = useState<CostRollupResult[] | null>(null);
+  const [thresholdPercent, setThresholdPercent] = useState(
+    String(COST_VARIANCE_THRESHOLD * 100),
+  );
+  const [flaggedOnly, setFlaggedOnly] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    const threshold = Number(thresholdPercent) / 100;
+    if (!Number.isFinite(threshold) || threshold < 0) {
+      setError("Enter a threshold of 0% or more.");
+      return;
+    }
+    setRunning(true);
+    setError(null);
+    setMessage(null);
+    try {
+      setResults(await loadCostRollups(threshold));
+    } catch (err: any) {
+      console.error("Error calculating cost rollups", err);
+      setError(err?.message ?? "Unable to calculate rolled-up costs.");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!results?.length) return;
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await saveCostRollups(results);
+      setMessage(
+        `Stored rolled-up cost on ${results.length} item${results.length === 1 ? "" : "s"}.`,
+      );
+    } catch (err: any) {
+      console.error("Error saving cost rollups", err);
+      setError(err?.message ?? "Unable to store rolled-up costs.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const flaggedCount = results?.filter((result) => result.flagged).length ?? 0;
+  const visible =
+    results?.filter((result) => !flaggedOnly || result.flagged) ?? [];
+
+  return (
+    <section className="ims-form-section card">
+      <div className="ims-table-header">
+        <div>
+          <h2 className="ims-form-section-title">Rolled-up standard cost</h2>
+          <p className="ims-form-section-subtitle">
+            Material cost for every product and sub-assembly, rolled up
+            through its BOM the same way as the BOM tree. Bought-in lines use
+            their unit price or the child&apos;s standard cost. Items whose standard cost differs by more than the threshold are
+            flagged.
+          </p>
+        </div>
+        <div className="ims-page-actions">
+          <button
+            type="button"
+            className="ims-secondary-button"
+            onClick={handleRun}
+            disabled={running || saving}
+          >
+            {running ? "Calculating…" : "Calculate"}
+          </button>
+          {results && results.length > 0 && (
+            <button
+              type="button"
+              className="ims-primary-button"
+              onClick={handleSave}
+              disabled={running || saving}
+            >
+              {saving ? "Saving…" : "Store rolled-up costs"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="ims-field-row">
+        <div className="ims-field">
+          <label className="ims-field-label" htmlFor="costThreshold">
+            Variance threshold (%)
+          </label>
+          <input
+            id="costThreshold"
+            type="number"
+            min={0}
+            step="0.5"
+            className="ims-field-input"
+            value={thresholdPercent}
+            onChange={(e) => setThresholdPercent(e.target.value)}
+          />
+        </div>
+        <div className="ims-field">
+          <label className="ims-field-label" htmlFor="costFlaggedOnly">
+            <input
+              id="costFlaggedOnly"
+              type="checkbox"
+              checked={flaggedOnly}
+              onChange={(e) => setFlaggedOnly(e.target.checked)}
+            />{" "}
+            Only show flagged items
+          </label>
+        </div>
+      </div>
+
+      {(error || message) && (
+        <div
+          className={
+            "ims-alert " + (error ? "ims-alert--error" : "ims-alert--info")
+          }
+        >
+          {error || message}
+        </div>
+      )}
+
+      {results === null ? (
+        <p className="ims-table-empty">
+          Calculate to compare stored costs with the rollup.
+        </p>
+      ) : visible.length === 0 ? (
+        <p className="ims-table-empty">
+          {flaggedOnly
+            ? `No items differ by more than ${thresholdPercent}%.`
+            : "No products or sub-assemblies have lines to cost."}
+        </p>
+      ) : (
+        <>
+          <span className="ims-table-count">
+            {flaggedCount} of {results.length} flagged
+          </span>
+          <div className="ims-table-wrapper">
+            <table className="ims-table ims-table--compact">
+              <thead>
+                <tr>
+                  <th>Item</th>
+                  <th>Standard cost</th>
+                  <th>Rolled-up cost</th>
+                  <th>Variance</th>
+                  <th>Lines without cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((result) => (
+                  <tr key={result.itemId}>
+                    <td>
+                      <Link
+                        href={getInventoryDetailPath(
+                          result.itemId,
+                          result.itemType,
+                        )}
+                        className="ims-table-link"
+                      >
+                        {result.name}
+                      </Link>
+                      {result.flagged && " ⚠"}
+                    </td>
+                    <td>{formatCurrency(result.storedCost)}</td>
+                    <td>{formatCurrency(result.materialCost)}</td>
+                    <td>{formatVariance(result.variance)}</td>
+                    <td>{result.missingLines || "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,354 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useAuth } from "@/app/_components/AuthProvider";
+import type { HubspotPipeline } from "@/lib/hubspot";
+import {
+  describeProjectStatus,
+  fetchPipelineConfig,
+  PROJECT_STATUSES,
+  savePipelineConfig,
+  type PipelineStageMapping,
+  type ProjectPipelineConfig,
+  type ProjectStatus,
+} from "@/lib/projectPipeline";
+
+const toStatusOrNull = (value: string) =>
+  value ? (value as ProjectStatus) : null;
+
+/**
+ * Maps HubSpot project pipeline stages to IMS statuses. The mapping drives
+ * webhook moves, the stage pushed on each status change and stage labels.
+ */
+export default function PipelineStagesCard() {
+  const { user } = useAuth();
+  const [config, setConfig] = useState<ProjectPipelineConfig | null>(null);
+  const [pipelines, setPipelines] = useState<HubspotPipeline[]>([]);
+  const [newStageId, setNewStageId] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setConfig(await fetchPipelineConfig());
+        const response = await fetch("/api/hubspot/pipelines");
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(payload?.error || response.statusText);
+        }
+        setPipelines(payload.pipelines ?? []);
+      } catch (err: any) {
+        console.error("Error loading pipeline configuration", err);
+        setError(
+          err?.message ?? "Unable to load the pipeline configuration.",
+        );
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const updateConfig = (
+    updater: (prev: ProjectPipelineConfig) => ProjectPipelineConfig,
+  ) => {
+    setMessage(null);
+    setConfig((prev) => (prev ? updater(prev) : prev));
+  };
+
+  // Take stage IDs and labels from HubSpot, keeping statuses already mapped.
+  const handlePipelineChange = (pipelineId: string) => {
+    const pipeline = pipelines.find((entry) => entry.id === pipelineId);
+    updateConfig((prev) => {
+      if (!pipeline) return { ...prev, pipelineId: null };
+      const previous = new Map(
+        prev.stages.map((stage) => [stage.stageId, stage.status]),
+      );
+      return {
+        ...prev,
+        pipelineId: pipeline.id,
+        stages: pipeline.stages.map((stage) => ({
+          stageId: stage.id,
+          label: stage.label,
+          status: previous.get(stage.id) ?? null,
+        })),
+      };
+    });
+  };
+
+  const handleStageStatusChange = (stageId: string, value: string) => {
+    const status = toStatusOrNull(value);
+    updateConfig((prev) => ({
+      ...prev,
+      stages: prev.stages.map((stage) =>
+        stage.stageId === stageId ? { ...stage, status } : stage,
+      ),
+      // A push stage must stay mapped to its status.
+      pushStageIds: Object.fromEntries(
+        Object.entries(prev.pushStageIds).map(([key, pushId]) => [
+          key,
+          pushId === stageId && key !== status ? null : pushId,
+        ]),
+      ) as ProjectPipelineConfig["pushStageIds"],
+    }));
+  };
+
+  const handleAddStage = () => {
+    const stageId = newStageId.trim();
+    if (!stageId || !config) return;
+    if (config.stages.some((stage) => stage.stageId === stageId)) {
+      setError(`Stage ${stageId} is already listed.`);
+      return;
+    }
+    setError(null);
+    updateConfig((prev) => ({
+      ...prev,
+      stages: [...prev.stages, { stageId, label: stageId, status: null }],
+    }));
+    setNewStageId("");
+  };
+
+  const handleRemoveStage = (stage: PipelineStageMapping) => {
+    updateConfig((prev) => ({
+      ...prev,
+      stages: prev.stages.filter((entry) => entry.stageId !== stage.stageId),
+      pushStageIds: Object.fromEntries(
+        Object.entries(prev.pushStageIds).map(([key, pushId]) => [
+          key,
+          pushId === stage.stageId ? null : pushId,
+        ]),
+      ) as ProjectPipelineConfig["pushStageIds"],
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!config) return;
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await savePipelineConfig(
+        config,
+        user ? { uid: user.uid, email: user.email } : null,
+      );
+      setMessage("Pipeline mapping saved.");
+    } catch (err: any) {
+      console.error("Error saving pipeline configuration", err);
+      setError(err?.message ?? "Unable to save the pipeline mapping.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="ims-form-section card">
+      <div className="ims-table-header">
+        <div>
+          <h2 className="ims-form-section-title">Project pipeline</h2>
+          <p className="ims-form-section-subtitle">
+            Map HubSpot project stages to IMS statuses. Stage changes received
+            from HubSpot move projects and stock accordingly, and IMS status
+            changes set the chosen stage in HubSpot.
+          </p>
+        </div>
+        <button
+          type="button"
+          className="ims-primary-button"
+          onClick={handleSave}
+          disabled={saving || !config}
+        >
+          {saving ? "Saving…" : "Save mapping"}
+        </button>
+      </div>
+
+      {(error || message) && (
+        <div
+          className={
+            "ims-alert " + (error ? "ims-alert--error" : "ims-alert--info")
+          }
+        >
+          {error || message}
+        </div>
+      )}
+
+      {loading || !config ? (
+        <p className="ims-table-empty">Loading pipeline…</p>
+      ) : (
+        <>
+          <div className="ims-field-row">
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="pipelineSelect">
+                HubSpot pipeline
+              </label>
+              <select
+                id="pipelineSelect"
+                className="ims-field-input"
+                value={config.pipelineId ?? ""}
+                onChange={(e) => handlePipelineChange(e.target.value)}
+                disabled={!pipelines.length}
+              >
+                <option value="">
+                  {pipelines.length ? "Select a pipeline…" : "Not loaded"}
+                </option>
+                {pipelines.map((pipeline) => (
+                  <option key={pipeline.id} value={pipeline.id}>
+                    {pipeline.label}
+                  </option>
+                ))}
+              </select>
+              <p className="ims-field-help">
+                Choosing a pipeline lists its stages with their HubSpot labels.
+              </p>
+            </div>
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="unmappedStatus">
+                Stages not listed
+              </label>
+              <select
+                id="unmappedStatus"
+                className="ims-field-input"
+                value={config.unmappedStatus ?? ""}
+                onChange={(e) =>
+                  updateConfig((prev) => ({
+                    ...prev,
+                    unmappedStatus: toStatusOrNull(e.target.value),
+                  }))
+                }
+              >
+                <option value="">Ignore</option>
+                {PROJECT_STATUSES.map((status) => (
+                  <option key={status} value={status}>
+                    Treat as {describeProjectStatus(status)}
+                  </option>
+                ))}
+              </select>
+              <p className="ims-field-help">
+                HubSpot webhooks ignore stages that are not listed.
+              </p>
+            </div>
+          </div>
+
+          <div className="ims-table-wrapper">
+            <table className="ims-table ims-table--compact">
+              <thead>
+                <tr>
+                  <th>Stage</th>
+                  <th>Stage ID</th>
+                  <th>IMS status</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {config.stages.map((stage) => (
+                  <tr key={stage.stageId}>
+                    <td>{stage.label}</td>
+                    <td>{stage.stageId}</td>
+                    <td>
+                      <select
+                        className="ims-field-input"
+                        value={stage.status ?? ""}
+                        onChange={(e) =>
+                          handleStageStatusChange(stage.stageId, e.target.value)
+                        }
+                      >
+                        <option value="">Ignore</option>
+                        {PROJECT_STATUSES.map((status) => (
+                          <option key={status} value={status}>
+                            {describeProjectStatus(status)}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td style={{ textAlign: "right" }}>
+                      <button
+                        type="button"
+                        className="ims-secondary-button"
+                        onClick={() => handleRemoveStage(stage)}
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="ims-field-row">
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="newStageId">
+                Add stage by ID
+              </label>
+              <input
+                id="newStageId"
+                className="ims-field-input"
+                value={newStageId}
+                onChange={(e) => setNewStageId(e.target.value)}
+                placeholder="HubSpot stage ID"
+              />
+            </div>
+            <div className="ims-form-actions">
+              <button
+                type="button"
+                className="ims-secondary-button"
+                onClick={handleAddStage}
+                disabled={!newStageId.trim()}
+              >
+                Add stage
+              </button>
+            </div>
+          </div>
+
+          <hr className="ims-form-divider" />
+          <div className="ims-form-section-title">Stage set in HubSpot</div>
+          <div className="ims-field-row">
+            {PROJECT_STATUSES.map((status) => {
+              const options = config.stages.filter(
+                (stage) => stage.status === status,
+              );
+              return (
+                <div key={status} className="ims-field">
+                  <label
+                    className="ims-field-label"
+                    htmlFor={`push-${status}`}
+                  >
+                    {describeProjectStatus(status)}
+                  </label>
+                  <select
+                    id={`push-${status}`}
+                    className="ims-field-input"
+                    value={config.pushStageIds[status] ?? ""}
+                    onChange={(e) =>
+                      updateConfig((prev) => ({
+                        ...prev,
+                        pushStageIds: {
+                          ...prev.pushStageIds,
+                          [status]: e.target.value || null,
+                        },
+                      }))
+                    }
+                    disabled={!options.length}
+                  >
+                    <option value="">
+                      {options.length ? "First mapped stage" : "Not pushed"}
+                    </option>
+                    {options.map((stage) => (
+                      <option key={stage.stageId} value={stage.stageId}>
+                        {stage.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
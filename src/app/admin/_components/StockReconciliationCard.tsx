@@ -0,0 +1,195 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { getInventoryDetailPath } from "@/lib/inventoryPaths";
+import { STOCK_BUCKET_LABELS } from "@/lib/stockMovements";
+import type { ReconciliationRow } from "@/lib/stockReconciliation";
+import {
+  requestReconciliationCorrections,
+  requestStockReconciliation,
+} from "../_stockReconciliationRequest";
+
+const formatDifference = (value: number) =>
+  value > 0 ? `+${value}` : `${value}`;
+
+export default function StockReconciliationCard() {
+  const [rows, setRows] = useState<ReconciliationRow[] | null>(null);
+  const [checkedItems, setCheckedItems] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [running, setRunning] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await requestStockReconciliation();
+      setRows(result.rows);
+      setCheckedItems(result.checkedItems);
+      setSelected(new Set(result.rows.map((row) => row.itemId)));
+    } catch (err: any) {
+      console.error("Error running stock reconciliation", err);
+      setError(err?.message ?? "Unable to reconcile stock buckets.");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const toggleRow = (itemId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(itemId)) {
+        next.delete(itemId);
+      } else {
+        next.add(itemId);
+      }
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (!rows) return;
+    const chosen = rows.filter((row) => selected.has(row.itemId));
+    if (chosen.length === 0) {
+      setError("Select at least one item to correct.");
+      return;
+    }
+    if (
+      !window.confirm(
+        `Apply bucket corrections to ${chosen.length} item${chosen.length === 1 ? "" : "s"}?`,
+      )
+    ) {
+      return;
+    }
+    setApplying(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const count = await requestReconciliationCorrections(
+        chosen.map((row) => row.itemId),
+      );
+      setMessage(
+        `Posted ${count} correction${count === 1 ? "" : "s"} to the stock ledger.`,
+      );
+      await handleRun();
+    } catch (err: any) {
+      console.error("Error applying stock corrections", err);
+      setError(err?.message ?? "Unable to apply stock corrections.");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <section className="ims-form-section card">
+      <div className="ims-table-header">
+        <div>
+          <h2 className="ims-form-section-title">Stock bucket reconciliation</h2>
+          <p className="ims-form-section-subtitle">
+            Rebuilds reserved, WIP and completed quantities from project line
+            items and manufacturing, and compares them with what each item
+            stores. Corrections move stock to or from inventory and are written
+            to the ledger.
+          </p>
+        </div>
+        <div className="ims-page-actions">
+          <button
+            type="button"
+            className="ims-secondary-button"
+            onClick={handleRun}
+            disabled={running || applying}
+          >
+            {running ? "Checking…" : "Run reconciliation"}
+          </button>
+          {rows && rows.length > 0 && (
+            <button
+              type="button"
+              className="ims-primary-button"
+              onClick={handleApply}
+              disabled={running || applying || selected.size === 0}
+            >
+              {applying ? "Applying…" : "Apply selected corrections"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {(error || message) && (
+        <div
+          className={
+            "ims-alert " + (error ? "ims-alert--error" : "ims-alert--info")
+          }
+        >
+          {error || message}
+        </div>
+      )}
+
+      {rows === null ? (
+        <p className="ims-table-empty">
+          Run the reconciliation to compare stored buckets with projects.
+        </p>
+      ) : rows.length === 0 ? (
+        <p className="ims-table-empty">
+          All {checkedItems} items match their projects.
+        </p>
+      ) : (
+        <div className="ims-table-wrapper">
+          <table className="ims-table ims-table--compact">
+            <thead>
+              <tr>
+                <th style={{ width: "40px" }} />
+                <th>Item</th>
+                <th>Bucket</th>
+                <th>Stored</th>
+                <th>Expected</th>
+                <th>Difference</th>
+                <th>Received (purchases)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.flatMap((row) =>
+                row.differences.map((difference, index) => (
+                  <tr key={`${row.itemId}-${difference.bucket}`}>
+                    <td>
+                      {index === 0 && (
+                        <input
+                          type="checkbox"
+                          checked={selected.has(row.itemId)}
+                          onChange={() => toggleRow(row.itemId)}
+                          aria-label={`Correct ${row.itemName}`}
+                        />
+                      )}
+                    </td>
+                    <td>
+                      {index === 0 && (
+                        <Link
+                          href={getInventoryDetailPath(
+                            row.itemId,
+                            row.itemType,
+                          )}
+                          className="ims-table-link"
+                        >
+                          {row.itemName}
+                          {row.sku ? ` (${row.sku})` : ""}
+                        </Link>
+                      )}
+                    </td>
+                    <td>{STOCK_BUCKET_LABELS[difference.bucket]}</td>
+                    <td>{difference.stored}</td>
+                    <td>{difference.expected}</td>
+                    <td>{formatDifference(difference.difference)}</td>
+                    <td>{index === 0 ? row.receivedQty : ""}</td>
+                  </tr>
+                )),
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,39 @@
+import { getAuthHeaders } from "@/lib/authHeaders";
+import type { ReconciliationRow } from "@/lib/stockReconciliation";
+
+const readPayload = async (response: Response) => {
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(payload?.error || response.statusText);
+  }
+  return payload;
+};
+
+/**
+ * Items whose buckets disagree with the rebuilt values, and how many items
+ * were checked.
+ */
+export const requestStockReconciliation = async () => {
+  const response = await fetch("/api/stock/reconcile", {
+    headers: await getAuthHeaders(),
+  });
+  const payload = await readPayload(response);
+  return {
+    rows: payload.rows as ReconciliationRow[],
+    checkedItems: Number(payload.checkedItems) || 0,
+  };
+};
+
+/** Ask the server to post corrections for the given items. */
+export const requestReconciliationCorrections = async (itemIds: string[]) => {
+  const response = await fetch("/api/stock/reconcile", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(await getAuthHeaders()),
+    },
+    body: JSON.stringify({ itemIds }),
+  });
+  const payload = await readPayload(response);
+  return Number(payload.corrections) || 0;
+};
@@ -10,6 +10,9 @@ import {
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { useAuth } from "../_components/AuthProvider";
+import CostRollupCard from "./_components/CostRollupCard";
+import PipelineStagesCard from "./_components/PipelineStagesCard";
+import StockReconciliationCard from "./_components/StockReconciliationCard";
 
 type AccountStatus = "admin" | "coreUser" | "viewOnly";
 
@@ -223,6 +226,12 @@ export default function AdminPage() {
           </div>
         )}
       </section>
+
+      <StockReconciliationCard />
+
+      <CostRollupCard />
+
+      <PipelineStagesCard />
     </main>
   );
 }
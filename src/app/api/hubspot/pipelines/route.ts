@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { fetchHubspotProjectPipelines } from "@/lib/hubspot";
+
+export async function GET() {
+  try {
+    const pipelines = await fetchHubspotProjectPipelines();
+    return NextResponse.json({ pipelines });
+  } catch (err: any) {
+    console.error("HubSpot pipeline fetch error", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Unable to load HubSpot pipelines." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { syncProductsToHubspot } from "@/lib/adminHubspotProductSync";
+import { verifyRequestUser } from "@/lib/requestAuth";
+
+export async function POST(request: Request) {
+  const user = await verifyRequestUser(request);
+  if (!user) {
+    return NextResponse.json(
+      { error: "Sign in to sync products to HubSpot." },
+      { status: 401 },
+    );
+  }
+  if (user.accountStatus === "viewOnly") {
+    return NextResponse.json(
+      { error: "View-only accounts cannot sync products to HubSpot." },
+      { status: 403 },
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  const itemIds: string[] | null = Array.isArray(body?.itemIds)
+    ? body.itemIds.filter((id: unknown) => typeof id === "string")
+    : null;
+  if (itemIds && itemIds.length === 0) {
+    return NextResponse.json(
+      { error: "Provide the itemIds to sync, or omit them to sync all products." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const results = await syncProductsToHubspot(itemIds);
+    return NextResponse.json({ results });
+  } catch (err: any) {
+    console.error("HubSpot product sync error", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Unable to sync products to HubSpot." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { fetchHubspotProjectLineItems } from "@/lib/hubspot";
+
+export async function GET(
+  _request: Request,
+  context: { params: Promise<{ projectId: string }> },
+) {
+  const { projectId } = await context.params;
+  if (!projectId) {
+    return NextResponse.json(
+      { error: "Missing HubSpot project ID." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const lineItems = await fetchHubspotProjectLineItems(projectId);
+    return NextResponse.json({ lineItems });
+  } catch (err: any) {
+    console.error("HubSpot line item fetch error", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Unable to load HubSpot line items." },
+      { status: 500 },
+    );
+  }
+}
@@ -1,28 +1,11 @@
 import { NextResponse } from "next/server";
 import {
   fetchHubspotProject,
+  HubspotNotFoundError,
+  mapHubspotProject,
   updateHubspotProjectStage,
 } from "@/lib/hubspot";
 
-const mapHubspotProject = (
-  payload: Awaited<ReturnType<typeof fetchHubspotProject>>,
-) => {
-  const props = payload.properties ?? {};
-  const stageId = props.hs_pipeline_stage ?? null;
-  const rawStageLabel = props.hs_pipeline_stage_label;
-  const stageLabel =
-    typeof rawStageLabel === "string" ? rawStageLabel : null;
-  return {
-    id: payload.id,
-    name: props.hs_name ?? props.projectname ?? props.name ?? null,
-    stageId: stageId,
-    stageLabel: typeof stageLabel === "string" ? stageLabel : null,
-    stage: (typeof stageLabel === "string" ? stageLabel : null) || stageId,
-    lastModified: props.hs_lastmodifieddate ?? null,
-    raw: props,
-  };
-};
-
 export async function GET(
   _request: Request,
   context: { params: Promise<{ projectId: string }> },
@@ -42,7 +25,7 @@ export async function GET(
     console.error("HubSpot project fetch error", err);
     return NextResponse.json(
       { error: err?.message ?? "Unable to load HubSpot project." },
-      { status: 500 },
+      { status: err instanceof HubspotNotFoundError ? 404 : 500 },
     );
   }
 }
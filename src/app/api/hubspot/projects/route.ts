@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { searchHubspotProjects } from "@/lib/hubspot";
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const stageIds = searchParams.getAll("stageId").filter(Boolean);
+  if (!stageIds.length) {
+    return NextResponse.json(
+      { error: "Choose at least one pipeline stage." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const page = await searchHubspotProjects({
+      stageIds,
+      search: searchParams.get("q"),
+      after: searchParams.get("after"),
+    });
+    return NextResponse.json(page);
+  } catch (err: any) {
+    console.error("HubSpot project search error", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Unable to search HubSpot projects." },
+      { status: 500 },
+    );
+  }
+}
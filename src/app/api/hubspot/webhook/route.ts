@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { verifyHubspotSignature } from "@/lib/hubspotSignature";
+import { processHubspotWebhookEvents } from "@/lib/adminHubspotWebhooks";
+import type { HubspotWebhookEvent } from "@/lib/hubspotWebhooks";
+
+export async function POST(request: Request) {
+  const secret = process.env.HUBSPOT_CLIENT_SECRET;
+  if (!secret) {
+    console.error("HubSpot webhook received without HUBSPOT_CLIENT_SECRET set");
+    return NextResponse.json(
+      { error: "Webhook signing secret is not configured." },
+      { status: 500 },
+    );
+  }
+
+  const body = await request.text();
+  const isValid = verifyHubspotSignature({
+    method: request.method,
+    url: request.url,
+    body,
+    signature: request.headers.get("X-HubSpot-Signature-v3"),
+    timestamp: request.headers.get("X-HubSpot-Request-Timestamp"),
+    secret,
+  });
+  if (!isValid) {
+    return NextResponse.json({ error: "Invalid signature." }, { status: 401 });
+  }
+
+  let events: HubspotWebhookEvent[];
+  try {
+    const parsed = JSON.parse(body);
+    events = Array.isArray(parsed) ? parsed : [parsed];
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON payload." }, { status: 400 });
+  }
+
+  try {
+    const summary = await processHubspotWebhookEvents(events);
+    if (summary.retryable > 0) {
+      // HubSpot only redelivers on a 5xx; the failed events are retried then.
+      return NextResponse.json(
+        { error: "Some events could not be applied.", ...summary },
+        { status: 503 },
+      );
+    }
+    return NextResponse.json({ ok: true, ...summary });
+  } catch (err: any) {
+    // A 5xx makes HubSpot retry the delivery; logged events are skipped then.
+    console.error("HubSpot webhook processing error", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Unable to process HubSpot events." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import type { ProjectStatus } from "@/lib/projectPipeline";
+import { verifyRequestUser } from "@/lib/requestAuth";
+import {
+  PROJECT_STATUSES,
+  ProjectTransitionError,
+  transitionProjectStatus,
+} from "@/lib/projectStatusTransitions";
+
+const isProjectStatus = (value: unknown): value is ProjectStatus =>
+  typeof value === "string" &&
+  (PROJECT_STATUSES as string[]).includes(value);
+
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ id: string }> },
+) {
+  const user = await verifyRequestUser(request);
+  if (!user) {
+    return NextResponse.json(
+      { error: "Sign in to change project status." },
+      { status: 401 },
+    );
+  }
+  if (user.accountStatus === "viewOnly") {
+    return NextResponse.json(
+      { error: "View-only accounts cannot change project status." },
+      { status: 403 },
+    );
+  }
+  const { id } = await context.params;
+  if (!id) {
+    return NextResponse.json({ error: "Missing project ID." }, { status: 400 });
+  }
+  const body = await request.json().catch(() => null);
+  const status = body?.status;
+  if (!isProjectStatus(status)) {
+    return NextResponse.json(
+      { error: "Provide a valid target status." },
+      { status: 400 },
+    );
+  }
+  const idempotencyKey =
+    request.headers.get("Idempotency-Key") ?? body?.idempotencyKey ?? "";
+  if (!idempotencyKey) {
+    return NextResponse.json(
+      { error: "Missing Idempotency-Key header." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const result = await transitionProjectStatus({
+      projectId: id,
+      targetStatus: status,
+      expectedStatus: isProjectStatus(body?.fromStatus) ? body.fromStatus : null,
+      idempotencyKey: String(idempotencyKey),
+      cancellation: body?.cancellation
+        ? {
+            reason: String(body.cancellation.reason ?? ""),
+            scrap:
+              body.cancellation.scrap &&
+              typeof body.cancellation.scrap === "object"
+                ? body.cancellation.scrap
+                : undefined,
+          }
+        : null,
+      unitIds: Array.isArray(body?.unitIds)
+        ? body.unitIds.filter((unitId: unknown) => typeof unitId === "string")
+        : null,
+      user,
+    });
+    return NextResponse.json({ result });
+  } catch (err: any) {
+    if (err instanceof ProjectTransitionError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error("Project status transition error", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Unable to update project status." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { verifyRequestUser, type RequestUser } from "@/lib/requestAuth";
+import {
+  applyReconciliationCorrections,
+  loadStockReconciliation,
+} from "@/lib/adminStockReconciliation";
+
+/** A 401 or 403 response unless the caller is a signed-in admin. */
+const checkAdmin = (user: RequestUser | null) => {
+  if (!user) {
+    return NextResponse.json(
+      { error: "Sign in to reconcile stock buckets." },
+      { status: 401 },
+    );
+  }
+  if (user.accountStatus !== "admin") {
+    return NextResponse.json(
+      { error: "Only admins can reconcile stock buckets." },
+      { status: 403 },
+    );
+  }
+  return null;
+};
+
+export async function GET(request: Request) {
+  const denied = checkAdmin(await verifyRequestUser(request));
+  if (denied) return denied;
+
+  try {
+    const rows = await loadStockReconciliation();
+    return NextResponse.json({
+      rows: rows.filter((row) => row.differences.length > 0),
+      checkedItems: rows.length,
+    });
+  } catch (err: any) {
+    console.error("Stock reconciliation error", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Unable to reconcile stock buckets." },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  const user = await verifyRequestUser(request);
+  const denied = checkAdmin(user);
+  if (denied) return denied;
+
+  const body = await request.json().catch(() => null);
+  const itemIds: string[] | null = Array.isArray(body?.itemIds)
+    ? body.itemIds.filter((id: unknown) => typeof id === "string")
+    : null;
+  if (!itemIds || itemIds.length === 0) {
+    return NextResponse.json(
+      { error: "Provide the itemIds to correct." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const rows = await loadStockReconciliation();
+    const selected = rows.filter(
+      (row) => itemIds.includes(row.itemId) && row.differences.length > 0,
+    );
+    const corrections = await applyReconciliationCorrections(selected, user);
+    return NextResponse.json({ ok: true, corrections });
+  } catch (err: any) {
+    console.error("Stock reconciliation apply error", err);
+    return NextResponse.json(
+      { error: err?.message ?? "Unable to apply stock corrections." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,325 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/app/_components/AuthProvider";
+import {
+  applyImportMappingPreset,
+  deleteImportMappingPreset,
+  fetchImportMappingPresets,
+  guessColumnMapping,
+  IMPORT_FIELDS,
+  loadImportDiff,
+  mapCsvRows,
+  saveImportMappingPreset,
+  validateColumnMapping,
+  type CsvRow,
+  type ImportColumnMapping,
+  type ImportDiff,
+  type ImportField,
+  type ImportMappingPreset,
+} from "@/lib/inventoryImport";
+
+type InventoryImportMappingProps = {
+  fileName: string;
+  headers: string[];
+  rows: CsvRow[];
+  onCancel: () => void;
+  onReviewed: (diff: ImportDiff) => void;
+};
+
+const MAX_LISTED_ERRORS = 50;
+
+/**
+ * First step of a CSV import: match the file's columns to item fields and
+ * check every row before anything is compared with inventory. Rows with
+ * errors are listed and left out of the import.
+ */
+export default function InventoryImportMapping({
+  fileName,
+  headers,
+  rows,
+  onCancel,
+  onReviewed,
+}: InventoryImportMappingProps) {
+  const { user } = useAuth();
+  const [mapping, setMapping] = useState<ImportColumnMapping>(() =>
+    guessColumnMapping(headers),
+  );
+  const [suppliersById, setSuppliersById] = useState<
+    Map<string, { name: string }>
+  >(new Map());
+  const [presets, setPresets] = useState<ImportMappingPreset[]>([]);
+  const [presetId, setPresetId] = useState("");
+  const [presetName, setPresetName] = useState("");
+  const [comparing, setComparing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [presetRows, supplierSnap] = await Promise.all([
+          fetchImportMappingPresets(),
+          getDocs(collection(db, "suppliers")),
+        ]);
+        setPresets(presetRows);
+        setSuppliersById(
+          new Map(
+            supplierSnap.docs.map((docSnap) => [
+              docSnap.id,
+              { name: docSnap.data().name ?? "" },
+            ]),
+          ),
+        );
+      } catch (err: any) {
+        console.error("Error loading import mappings", err);
+        setError(err?.message ?? "Unable to load saved mappings.");
+      }
+    };
+    load();
+  }, []);
+
+  const mappingProblems = useMemo(
+    () => validateColumnMapping(mapping),
+    [mapping],
+  );
+  const result = useMemo(
+    () => mapCsvRows(rows, mapping, suppliersById),
+    [rows, mapping, suppliersById],
+  );
+
+  const handlePresetChange = (id: string) => {
+    setPresetId(id);
+    const preset = presets.find((entry) => entry.id === id);
+    if (preset) {
+      setMapping(applyImportMappingPreset(headers, preset));
+      setPresetName(preset.name);
+    }
+  };
+
+  const handleSavePreset = async () => {
+    setError(null);
+    try {
+      const preset = await saveImportMappingPreset(
+        presetName,
+        mapping,
+        user ? { uid: user.uid, email: user.email } : null,
+      );
+      setPresets((prev) =>
+        [...prev, preset].sort((a, b) => a.name.localeCompare(b.name)),
+      );
+      setPresetId(preset.id);
+    } catch (err: any) {
+      console.error("Error saving import mapping", err);
+      setError(err?.message ?? "Unable to save the mapping.");
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    const preset = presets.find((entry) => entry.id === presetId);
+    if (!preset || !window.confirm(`Delete the mapping "${preset.name}"?`)) {
+      return;
+    }
+    setError(null);
+    try {
+      await deleteImportMappingPreset(preset.id);
+      setPresets((prev) => prev.filter((entry) => entry.id !== preset.id));
+      setPresetId("");
+    } catch (err: any) {
+      console.error("Error deleting import mapping", err);
+      setError(err?.message ?? "Unable to delete the mapping.");
+    }
+  };
+
+  const handleCompare = async () => {
+    setComparing(true);
+    setError(null);
+    try {
+      onReviewed(await loadImportDiff(result.rows));
+    } catch (err: any) {
+      console.error("Error comparing CSV with inventory", err);
+      setError(err?.message ?? "Unable to compare the CSV with inventory.");
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  const invalidRowCount = new Set(result.errors.map((entry) => entry.rowNumber))
+    .size;
+
+  return (
+    <section className="card ims-form-section" style={{ marginBottom: "1rem" }}>
+      <div className="ims-table-header">
+        <div>
+          <h2 className="ims-form-section-title">
+            Map columns — {fileName}
+          </h2>
+          <p className="ims-form-section-subtitle">
+            {rows.length} rows · {result.rows.length} ready
+            {invalidRowCount ? ` · ${invalidRowCount} with errors` : ""}.
+            Choose the item field each column fills; blank cells leave the
+            existing value alone.
+          </p>
+        </div>
+        <div className="ims-page-actions">
+          <button
+            type="button"
+            className="ims-secondary-button"
+            onClick={onCancel}
+            disabled={comparing}
+          >
+            Discard
+          </button>
+          <button
+            type="button"
+            className="ims-primary-button"
+            onClick={handleCompare}
+            disabled={
+              comparing || mappingProblems.length > 0 || !result.rows.length
+            }
+          >
+            {comparing
+              ? "Comparing…"
+              : `Compare ${result.rows.length} rows with inventory`}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="ims-alert ims-alert--error">{error}</div>}
+      {mappingProblems.length > 0 && (
+        <div className="ims-alert ims-alert--error">
+          {mappingProblems.join(" ")}
+        </div>
+      )}
+
+      <div className="ims-field-row">
+        <div className="ims-field">
+          <label className="ims-field-label" htmlFor="importPreset">
+            Saved mapping
+          </label>
+          <select
+            id="importPreset"
+            className="ims-field-input"
+            value={presetId}
+            onChange={(e) => handlePresetChange(e.target.value)}
+          >
+            <option value="">Detected from headers</option>
+            {presets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="ims-field">
+          <label className="ims-field-label" htmlFor="importPresetName">
+            Save as
+          </label>
+          <input
+            id="importPresetName"
+            className="ims-field-input"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder="e.g. Supplier price list"
+          />
+        </div>
+      </div>
+      <div className="ims-form-actions">
+        {presetId && (
+          <button
+            type="button"
+            className="ims-secondary-button"
+            onClick={handleDeletePreset}
+          >
+            Delete saved mapping
+          </button>
+        )}
+        <button
+          type="button"
+          className="ims-secondary-button"
+          onClick={handleSavePreset}
+          disabled={!presetName.trim()}
+        >
+          Save mapping
+        </button>
+      </div>
+
+      <div className="ims-table-wrapper">
+        <table className="ims-table ims-table--compact">
+          <thead>
+            <tr>
+              <th>Column in file</th>
+              <th>Sample</th>
+              <th>Item field</th>
+            </tr>
+          </thead>
+          <tbody>
+            {headers.map((header) => (
+              <tr key={header}>
+                <td>{header}</td>
+                <td>{String(rows[0]?.[header] ?? "") || "—"}</td>
+                <td>
+                  <select
+                    className="ims-field-input"
+                    value={mapping[header] ?? ""}
+                    onChange={(e) =>
+                      setMapping((prev) => ({
+                        ...prev,
+                        [header]: e.target.value as ImportField | "",
+                      }))
+                    }
+                    aria-label={`Field for ${header}`}
+                  >
+                    <option value="">Ignore</option>
+                    {IMPORT_FIELDS.map((field) => (
+                      <option key={field.key} value={field.key}>
+                        {field.label}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {mappingProblems.length === 0 && result.errors.length > 0 && (
+        <>
+          <div className="ims-form-section-title">Rows with errors</div>
+          <p className="ims-form-section-subtitle">
+            These rows are skipped. Fix them in the file and upload it again to
+            include them.
+          </p>
+          <div className="ims-table-wrapper">
+            <table className="ims-table ims-table--compact">
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  <th>Column</th>
+                  <th>Problem</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.errors.slice(0, MAX_LISTED_ERRORS).map((entry, index) => (
+                  <tr key={`${entry.rowNumber}-${index}`}>
+                    <td>{entry.rowNumber}</td>
+                    <td>{entry.column ?? "—"}</td>
+                    <td>{entry.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {result.errors.length > MAX_LISTED_ERRORS && (
+            <p className="ims-field-help">
+              Showing the first {MAX_LISTED_ERRORS} of {result.errors.length}{" "}
+              errors.
+            </p>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
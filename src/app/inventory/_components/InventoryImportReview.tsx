@@ -0,0 +1,294 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useAuth } from "@/app/_components/AuthProvider";
+import {
+  applyImportDiff,
+  IMPORT_FIELD_LABELS,
+  type ImportDiff,
+  type ImportField,
+} from "@/lib/inventoryImport";
+
+type InventoryImportReviewProps = {
+  diff: ImportDiff;
+  fileName: string | null;
+  onCancel: () => void;
+  onApplied: (summary: {
+    created: number;
+    updated: number;
+    deleted: number;
+  }) => void;
+};
+
+const formatValue = (value: string | number | boolean | null | undefined) =>
+  value === null || value === undefined || value === ""
+    ? "—"
+    : typeof value === "boolean"
+      ? value
+        ? "Yes"
+        : "No"
+      : String(value);
+
+/**
+ * Dry-run result of a CSV import. Nothing is written until the selected
+ * changes are applied, and items missing from the file are only deleted
+ * when ticked and confirmed.
+ */
+export default function InventoryImportReview({
+  diff,
+  fileName,
+  onCancel,
+  onApplied,
+}: InventoryImportReviewProps) {
+  const { user } = useAuth();
+  const [createKeys, setCreateKeys] = useState<Set<string>>(
+    () => new Set(diff.created.map((entry) => entry.key)),
+  );
+  const [fieldsByItemId, setFieldsByItemId] = useState<
+    Record<string, ImportField[]>
+  >(() =>
+    Object.fromEntries(
+      diff.changed.map((entry) => [
+        entry.itemId,
+        entry.changes.map((change) => change.field),
+      ]),
+    ),
+  );
+  const [deleteItemIds, setDeleteItemIds] = useState<Set<string>>(new Set());
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedUpdates = useMemo(
+    () =>
+      Object.values(fieldsByItemId).filter((fields) => fields.length > 0)
+        .length,
+    [fieldsByItemId],
+  );
+  const totalSelected = createKeys.size + selectedUpdates + deleteItemIds.size;
+
+  const toggleInSet = (
+    setter: (updater: (prev: Set<string>) => Set<string>) => void,
+    value: string,
+  ) => {
+    setter((prev) => {
+      const next = new Set(prev);
+      if (next.has(value)) {
+        next.delete(value);
+      } else {
+        next.add(value);
+      }
+      return next;
+    });
+  };
+
+  const toggleField = (itemId: string, field: ImportField) => {
+    setFieldsByItemId((prev) => {
+      const current = prev[itemId] ?? [];
+      return {
+        ...prev,
+        [itemId]: current.includes(field)
+          ? current.filter((entry) => entry !== field)
+          : [...current, field],
+      };
+    });
+  };
+
+  const handleApply = async () => {
+    if (
+      deleteItemIds.size > 0 &&
+      !window.confirm(
+        `Permanently delete ${deleteItemIds.size} item${deleteItemIds.size === 1 ? "" : "s"} that are not in the file? Their history and relationships are removed too.`,
+      )
+    ) {
+      return;
+    }
+    setApplying(true);
+    setError(null);
+    try {
+      const summary = await applyImportDiff({
+        diff,
+        selection: {
+          createKeys: Array.from(createKeys),
+          fieldsByItemId,
+          deleteItemIds: Array.from(deleteItemIds),
+        },
+        fileName,
+        user: user ? { uid: user.uid, email: user.email } : null,
+      });
+      onApplied(summary);
+    } catch (err: any) {
+      console.error("Error applying inventory import", err);
+      setError(err?.message ?? "Unable to apply the import.");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <section className="card ims-form-section" style={{ marginBottom: "1rem" }}>
+      <div className="ims-table-header">
+        <div>
+          <h2 className="ims-form-section-title">
+            Review import{fileName ? ` — ${fileName}` : ""}
+          </h2>
+          <p className="ims-form-section-subtitle">
+            {diff.created.length} new · {diff.changed.length} changed ·{" "}
+            {diff.unchanged.length} unchanged · {diff.missing.length} not in
+            file. Untick anything you do not want to apply.
+          </p>
+        </div>
+        <div className="ims-page-actions">
+          <button
+            type="button"
+            className="ims-secondary-button"
+            onClick={onCancel}
+            disabled={applying}
+          >
+            Discard
+          </button>
+          <button
+            type="button"
+            className="ims-primary-button"
+            onClick={handleApply}
+            disabled={applying || totalSelected === 0}
+          >
+            {applying ? "Applying…" : `Apply ${totalSelected} changes`}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="ims-alert ims-alert--error">{error}</div>}
+      {diff.duplicateKeys.length > 0 && (
+        <div className="ims-alert ims-alert--info">
+          These codes appear more than once in the file; only the first row was
+          used: {diff.duplicateKeys.join(", ")}.
+        </div>
+      )}
+
+      {diff.created.length > 0 && (
+        <>
+          <div className="ims-form-section-title">New items</div>
+          <div className="ims-table-wrapper">
+            <table className="ims-table ims-table--compact">
+              <thead>
+                <tr>
+                  <th />
+                  <th>Code</th>
+                  <th>Name</th>
+                  <th>Type</th>
+                  <th>Price</th>
+                  <th>Qty</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.created.map(({ key, row }) => (
+                  <tr key={key}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={createKeys.has(key)}
+                        onChange={() => toggleInSet(setCreateKeys, key)}
+                        aria-label={`Create ${row.name}`}
+                      />
+                    </td>
+                    <td>{key}</td>
+                    <td>{row.name}</td>
+                    <td>{row.values.itemType ?? "component"}</td>
+                    <td>{formatValue(row.values.pricePerUnit)}</td>
+                    <td>{formatValue(row.values.inventoryQty)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {diff.changed.length > 0 && (
+        <>
+          <div className="ims-form-section-title">Changed items</div>
+          <div className="ims-table-wrapper">
+            <table className="ims-table ims-table--compact">
+              <thead>
+                <tr>
+                  <th />
+                  <th>Item</th>
+                  <th>Field</th>
+                  <th>Current</th>
+                  <th>From file</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.changed.flatMap((entry) =>
+                  entry.changes.map((change, index) => (
+                    <tr key={`${entry.itemId}-${change.field}`}>
+                      <td>
+                        <input
+                          type="checkbox"
+                          checked={(
+                            fieldsByItemId[entry.itemId] ?? []
+                          ).includes(change.field)}
+                          onChange={() =>
+                            toggleField(entry.itemId, change.field)
+                          }
+                          aria-label={`Update ${IMPORT_FIELD_LABELS[change.field]} on ${entry.itemName}`}
+                        />
+                      </td>
+                      <td>
+                        {index === 0 ? `${entry.itemName} (${entry.key})` : ""}
+                      </td>
+                      <td>{IMPORT_FIELD_LABELS[change.field]}</td>
+                      <td>{formatValue(change.before)}</td>
+                      <td>{formatValue(change.after)}</td>
+                    </tr>
+                  )),
+                )}
+              </tbody>
+            </table>
+          </div>
+          <p className="ims-field-help">
+            Quantity changes are posted to the stock ledger as adjustments.
+          </p>
+        </>
+      )}
+
+      {diff.missing.length > 0 && (
+        <>
+          <div className="ims-form-section-title">Not in file</div>
+          <p className="ims-form-section-subtitle">
+            These items are kept unless you tick them for deletion.
+          </p>
+          <div className="ims-table-wrapper">
+            <table className="ims-table ims-table--compact">
+              <thead>
+                <tr>
+                  <th>Delete</th>
+                  <th>Code</th>
+                  <th>Name</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diff.missing.map((entry) => (
+                  <tr key={entry.itemId}>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={deleteItemIds.has(entry.itemId)}
+                        onChange={() =>
+                          toggleInSet(setDeleteItemIds, entry.itemId)
+                        }
+                        aria-label={`Delete ${entry.itemName}`}
+                      />
+                    </td>
+                    <td>{entry.key || "—"}</td>
+                    <td>{entry.itemName || "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
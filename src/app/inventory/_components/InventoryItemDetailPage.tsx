@@ -13,18 +13,53 @@ import {
   query,
   Timestamp,
   updateDoc,
-  arrayUnion,
   writeBatch,
-  increment,
   where,
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
+import {
+  compareBucketsToLedger,
+  describeStockRoute,
+  fetchItemStockMovements,
+  recordStockMovements,
+  STOCK_BUCKET_LABELS,
+  sumStockMovements,
+  type StockMovementInput,
+  type StockMovementRecord,
+} from "@/lib/stockMovements";
 import {
   getInventoryDetailPath,
   type InventoryDetailType,
   normalizeItemType,
 } from "@/lib/inventoryPaths";
 import { useAuth } from "@/app/_components/AuthProvider";
+import SupplierCatalogueCard from "@/app/_components/SupplierCatalogueCard";
+import { PRODUCT_SYNC_OUTCOME_LABELS } from "@/lib/hubspotProductSync";
+import { requestHubspotProductSync } from "../_productSyncRequest";
+import {
+  getLineOutstandingQty,
+  type PurchaseStatus,
+} from "@/lib/goodsReceipts";
+import {
+  fetchItemUnits,
+  ITEM_UNIT_STATUS_LABELS,
+  ITEM_UNIT_STATUSES,
+  type ItemUnit,
+} from "@/lib/itemUnits";
+import {
+  fetchLocations,
+  getItemLocationQuantities,
+  getLocationPath,
+  getUnassignedQty,
+  transferStock,
+  type StockLocation,
+} from "@/lib/locations";
+import {
+  explodeBom,
+  loadBomItemLookup,
+  type BomExplosion,
+  type BomNode,
+} from "@/lib/bom";
 
 type RelationshipEntry = {
   id: string;
@@ -51,7 +86,6 @@ type InventoryHistoryPoint = {
   toBucket?: string | null;
 };
 
-type PurchaseStatus = "draft" | "paid" | "stock_received";
 
 type PurchaseOrderSummary = {
   id: string;
@@ -77,6 +111,8 @@ type InventoryItem = {
   standardCostCurrency?: string | null;
   pricePerUnit?: number | null;
   estimatedComponentCost?: number | null;
+  estimatedComponentCostCalculatedAt?: Date | null;
+  costVarianceFlagged: boolean;
   totalCost?: number | null;
   reorderLevel?: number | null;
   reorderQuantity?: number | null;
@@ -92,6 +128,8 @@ type InventoryItem = {
   reservedQty?: number | null;
   wipQty?: number | null;
   completedQty?: number | null;
+  locationQty: Record<string, number>;
+  unassignedQty: number;
   lowStockThreshold?: number | null;
   components: RelationshipEntry[];
   subAssemblies: RelationshipEntry[];
@@ -320,6 +358,10 @@ const mapItemSnapshot = (snap: any): InventoryItem => {
     standardCostCurrency: data.standardCostCurrency ?? data.currency ?? "GBP",
     pricePerUnit: parseNumber(data.pricePerUnit ?? data.salesPrice),
     estimatedComponentCost: parseNumber(data.estimatedComponentCost),
+    estimatedComponentCostCalculatedAt: toDate(
+      data.estimatedComponentCostCalculatedAt,
+    ),
+    costVarianceFlagged: Boolean(data.costVarianceFlagged),
     totalCost: parseNumber(data.totalCost),
     reorderLevel: parseNumber(data.reorderLevel),
     reorderQuantity: parseNumber(data.reorderQuantity),
@@ -341,6 +383,8 @@ const mapItemSnapshot = (snap: any): InventoryItem => {
     reservedQty: parseNumber(data.reservedQty),
     wipQty: parseNumber(data.wipQty),
     completedQty: parseNumber(data.completedQty),
+    locationQty: getItemLocationQuantities(data),
+    unassignedQty: getUnassignedQty(data),
     lowStockThreshold: parseNumber(data.lowStockThreshold),
     components: parseRelationshipArray(data.components, "components"),
     subAssemblies: parseRelationshipArray(
@@ -664,6 +708,74 @@ const InventorySnapshotCard = ({
   );
 };
 
+const HubspotProductCard = ({
+  item,
+  canEdit,
+  onSynced,
+}: {
+  item: InventoryItem;
+  canEdit: boolean;
+  onSynced: () => void;
+}) => {
+  const [syncing, setSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleSync = async () => {
+    setSyncing(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const [result] = await requestHubspotProductSync([item.id]);
+      if (!result) throw new Error("HubSpot did not return a sync result.");
+      const text = `${PRODUCT_SYNC_OUTCOME_LABELS[result.outcome]}: ${result.message}`;
+      if (result.outcome === "conflict" || result.outcome === "failed") {
+        setError(text);
+      } else {
+        setMessage(text);
+        onSynced();
+      }
+    } catch (err: any) {
+      console.error("Error syncing product to HubSpot", err);
+      setError(err?.message ?? "Unable to sync the product to HubSpot.");
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <section className="ims-form-section card">
+      <h2 className="ims-form-section-title">HubSpot product</h2>
+      <p className="ims-form-section-subtitle">
+        Name, SKU, list price and description are pushed to HubSpot so deals
+        can quote this product.
+      </p>
+      {error && <div className="ims-alert ims-alert--error">{error}</div>}
+      {message && <div className="ims-alert ims-alert--info">{message}</div>}
+      <table className="ims-table ims-table--compact">
+        <tbody>
+          <tr>
+            <th>HubSpot product ID</th>
+            <td>{item.hubspotProductId ?? "Not linked"}</td>
+          </tr>
+        </tbody>
+      </table>
+      {canEdit && (
+        <div className="ims-form-actions">
+          <button
+            type="button"
+            className="ims-secondary-button"
+            onClick={handleSync}
+            disabled={syncing}
+          >
+            {syncing ? "Syncing…" : "Push to HubSpot"}
+          </button>
+        </div>
+      )}
+    </section>
+  );
+};
+
 const CostingCard = ({ item }: { item: InventoryItem }) => {
   const rows: { label: string; value: number | null; type: "currency" | "qty" }[] =
     [
@@ -691,6 +803,12 @@ const CostingCard = ({ item }: { item: InventoryItem }) => {
       <p className="ims-form-section-subtitle">
         Reference costs when quoting or forecasting stock requirements.
       </p>
+      {item.costVarianceFlagged && (
+        <div className="ims-alert ims-alert--error">
+          Standard cost differs from the rolled-up component cost by more than
+          the review threshold.
+        </div>
+      )}
       {hasData ? (
         <table className="ims-table ims-table--compact">
           <tbody>
@@ -701,6 +819,13 @@ const CostingCard = ({ item }: { item: InventoryItem }) => {
                   {row.type === "currency"
                     ? formatCurrency(row.value, item.standardCostCurrency ?? "GBP")
                     : formatNumber(row.value)}
+                  {row.label === "Estimated component cost" &&
+                    item.estimatedComponentCostCalculatedAt && (
+                      <div style={{ fontSize: "0.75rem", color: "#6b7280" }}>
+                        Calculated{" "}
+                        {item.estimatedComponentCostCalculatedAt.toLocaleString()}
+                      </div>
+                    )}
                 </td>
               </tr>
             ))}
@@ -713,6 +838,195 @@ const CostingCard = ({ item }: { item: InventoryItem }) => {
   );
 };
 
+const flattenBomTree = (node: BomNode): BomNode[] => [
+  node,
+  ...node.children.flatMap((child) => flattenBomTree(child)),
+];
+
+const BomTreeCard = ({
+  item,
+  reloadKey,
+}: {
+  item: InventoryItem;
+  reloadKey: number;
+}) => {
+  const [explosion, setExplosion] = useState<BomExplosion | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showLeaves, setShowLeaves] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadBom = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const lookup = await loadBomItemLookup();
+        if (cancelled) return;
+        setExplosion(explodeBom(item.id, lookup));
+      } catch (err: any) {
+        console.error("Error exploding BOM", err);
+        if (!cancelled) {
+          setError(err?.message ?? "Unable to build the bill of materials.");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadBom();
+    return () => {
+      cancelled = true;
+    };
+  }, [item.id, reloadKey]);
+
+  const currency = item.standardCostCurrency ?? "GBP";
+  const rows = explosion ? flattenBomTree(explosion.root).slice(1) : [];
+
+  return (
+    <section className="ims-form-section card">
+      <div className="ims-table-header">
+        <div>
+          <h2 className="ims-form-section-title">Bill of materials</h2>
+          <p className="ims-form-section-subtitle">
+            Every sub-assembly, sensor and component needed for one unit, with
+            costs rolled up from the lowest level.
+          </p>
+        </div>
+        {explosion && explosion.leaves.length > 0 && (
+          <button
+            type="button"
+            className="ims-secondary-button"
+            onClick={() => setShowLeaves((prev) => !prev)}
+          >
+            {showLeaves ? "Show tree" : "Show leaf components"}
+          </button>
+        )}
+      </div>
+
+      {error && <div className="ims-alert ims-alert--error">{error}</div>}
+
+      {explosion && explosion.cycles.length > 0 && (
+        <div className="ims-alert ims-alert--error">
+          Circular reference detected:{" "}
+          {explosion.cycles
+            .map((cycle) =>
+              cycle
+                .map((id) => (id === item.id ? item.name : id))
+                .join(" → "),
+            )
+            .join("; ")}
+          . Those branches are not exploded or costed.
+        </div>
+      )}
+
+      {loading ? (
+        <p className="ims-table-empty">Building bill of materials…</p>
+      ) : !explosion || rows.length === 0 ? (
+        <p className="ims-table-empty">No structure recorded for this item.</p>
+      ) : showLeaves ? (
+        <div className="ims-table-wrapper">
+          <table className="ims-table ims-table--compact">
+            <thead>
+              <tr>
+                <th style={{ width: "45%" }}>Component</th>
+                <th>Qty per unit</th>
+                <th>Unit cost</th>
+                <th>Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {explosion.leaves.map((leaf) => (
+                <tr key={leaf.itemId}>
+                  <td>
+                    {leaf.name}
+                    {leaf.sku && (
+                      <div style={{ fontSize: "0.75rem", color: "#6b7280" }}>
+                        {leaf.sku}
+                      </div>
+                    )}
+                  </td>
+                  <td>{formatNumber(leaf.quantity)}</td>
+                  <td>{formatCurrency(leaf.unitCost, currency)}</td>
+                  <td>{formatCurrency(leaf.extendedCost, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="ims-table-wrapper">
+          <table className="ims-table ims-table--compact">
+            <thead>
+              <tr>
+                <th style={{ width: "45%" }}>Item</th>
+                <th>Qty per parent</th>
+                <th>Qty per unit</th>
+                <th>Unit cost</th>
+                <th>Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((node, index) => {
+                const href = node.missingItem
+                  ? null
+                  : getInventoryDetailPath(
+                      node.itemId,
+                      node.section,
+                      node.section,
+                    );
+                return (
+                  <tr key={`${node.itemId}-${index}`}>
+                    <td>
+                      <div
+                        style={{
+                          paddingLeft: `${(node.depth - 1) * 1.25}rem`,
+                        }}
+                      >
+                        {node.depth > 1 ? "└ " : ""}
+                        {href ? (
+                          <Link href={href} className="ims-table-link">
+                            {node.name}
+                          </Link>
+                        ) : (
+                          node.name
+                        )}
+                        {node.cycle && " (circular)"}
+                        {node.missingItem && " (missing item)"}
+                        {node.sku && (
+                          <div style={{ fontSize: "0.75rem", color: "#6b7280" }}>
+                            {node.sku}
+                          </div>
+                        )}
+                      </div>
+                    </td>
+                    <td>{formatNumber(node.quantityPerParent)}</td>
+                    <td>{formatNumber(node.quantityPerRoot)}</td>
+                    <td>{formatCurrency(node.unitCost, currency)}</td>
+                    <td>{formatCurrency(node.extendedCost, currency)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+            <tfoot>
+              <tr>
+                <th colSpan={4}>Rolled-up material cost</th>
+                <th>{formatCurrency(explosion.totalCost, currency)}</th>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+
+      {explosion && explosion.hasMissingCosts && rows.length > 0 && (
+        <p className="ims-field-help">
+          Some items have no unit price or standard cost, so the rolled-up cost
+          is understated.
+        </p>
+      )}
+    </section>
+  );
+};
+
 const PurchasePipelineCard = ({
   stats,
   loading,
@@ -825,8 +1139,53 @@ const PurchasePipelineCard = ({
   );
 };
 
-const InventoryHistoryCard = ({ item }: { item: InventoryItem }) => {
-  if (!item.inventoryHistory.length) {
+const mapLedgerToHistory = (
+  movement: StockMovementRecord,
+): InventoryHistoryPoint | null => {
+  const at = movement.createdAt?.toDate() ?? null;
+  if (!at) return null;
+  const route = describeStockRoute(movement.fromBucket, movement.toBucket);
+  return {
+    id: movement.id,
+    at,
+    bucket: route,
+    quantity: null,
+    delta:
+      movement.fromBucket === movement.toBucket
+        ? 0
+        : movement.toBucket
+          ? movement.qty
+          : -movement.qty,
+    reference: movement.source.label ?? null,
+    note: movement.note ?? null,
+    changeType: movement.source.type,
+    fromBucket: movement.fromBucket
+      ? STOCK_BUCKET_LABELS[movement.fromBucket]
+      : "External",
+    toBucket: movement.toBucket
+      ? STOCK_BUCKET_LABELS[movement.toBucket]
+      : "External",
+  };
+};
+
+const InventoryHistoryCard = ({
+  item,
+  movements,
+}: {
+  item: InventoryItem;
+  movements: StockMovementRecord[];
+}) => {
+  const history = [
+    ...movements
+      .map(mapLedgerToHistory)
+      .filter((entry): entry is InventoryHistoryPoint => Boolean(entry)),
+    ...item.inventoryHistory,
+  ].sort((a, b) => b.at.getTime() - a.at.getTime());
+  const ledgerDifferences = movements.length
+    ? compareBucketsToLedger(item, sumStockMovements(movements))
+    : [];
+
+  if (!history.length) {
     return (
       <section className="ims-form-section card">
         <h2 className="ims-form-section-title">Inventory movement</h2>
@@ -838,13 +1197,28 @@ const InventoryHistoryCard = ({ item }: { item: InventoryItem }) => {
       </section>
     );
   }
-  const latest = item.inventoryHistory.slice(0, 10);
+  const latest = history.slice(0, 10);
   return (
     <section className="ims-form-section card">
       <h2 className="ims-form-section-title">Inventory movement</h2>
       <p className="ims-form-section-subtitle">
         Ten most recent changes showing the quantity moved, source, destination and reason.
       </p>
+      {ledgerDifferences.length > 0 && (
+        <div
+          className="ims-alert ims-alert--info"
+          style={{ marginBottom: "0.75rem" }}
+        >
+          Stored bucket counts differ from the stock ledger:{" "}
+          {ledgerDifferences
+            .map(
+              (row) =>
+                `${STOCK_BUCKET_LABELS[row.bucket]} ${formatNumber(row.stored)} vs ${formatNumber(row.ledger)}`,
+            )
+            .join(", ")}
+          . Movements made before the ledger was introduced are not included.
+        </div>
+      )}
       <div className="ims-table-wrapper">
         <table className="ims-table ims-table--compact">
           <thead>
@@ -899,6 +1273,319 @@ const InventoryHistoryCard = ({ item }: { item: InventoryItem }) => {
   );
 };
 
+const ItemUnitsCard = ({
+  item,
+  reloadKey,
+}: {
+  item: InventoryItem;
+  reloadKey: number;
+}) => {
+  const [units, setUnits] = useState<ItemUnit[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadUnits = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const rows = await fetchItemUnits(item.id);
+        if (!cancelled) setUnits(rows);
+      } catch (err: any) {
+        console.error("Error loading item units", err);
+        if (!cancelled) {
+          setError(err?.message ?? "Unable to load serialized units.");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadUnits();
+    return () => {
+      cancelled = true;
+    };
+  }, [item.id, reloadKey]);
+
+  const counts = ITEM_UNIT_STATUSES.map((status) => ({
+    status,
+    count: units.filter((unit) => unit.status === status).length,
+  })).filter((entry) => entry.count > 0);
+
+  return (
+    <section className="ims-form-section card">
+      <div className="ims-table-header">
+        <div>
+          <h2 className="ims-form-section-title">Serialized units</h2>
+          <p className="ims-form-section-subtitle">
+            {counts.length
+              ? counts
+                  .map(
+                    (entry) =>
+                      `${entry.count} ${ITEM_UNIT_STATUS_LABELS[entry.status].toLowerCase()}`,
+                  )
+                  .join(" · ")
+              : "Units are created when stock for this item is received."}
+          </p>
+        </div>
+        <Link href="/inventory/units" className="ims-secondary-button">
+          All units
+        </Link>
+      </div>
+      {error && <div className="ims-alert ims-alert--error">{error}</div>}
+      {loading ? (
+        <p className="ims-table-empty">Loading units…</p>
+      ) : units.length === 0 ? (
+        <p className="ims-table-empty">No units received yet.</p>
+      ) : (
+        <div className="ims-table-wrapper">
+          <table className="ims-table ims-table--compact">
+            <thead>
+              <tr>
+                <th>Unit code</th>
+                <th>Status</th>
+                <th>Project</th>
+              </tr>
+            </thead>
+            <tbody>
+              {units.map((unit) => (
+                <tr key={unit.id}>
+                  <td>
+                    <Link
+                      href={`/inventory/units/${unit.id}`}
+                      className="ims-table-link"
+                    >
+                      {unit.unitCode}
+                    </Link>
+                  </td>
+                  <td>{ITEM_UNIT_STATUS_LABELS[unit.status]}</td>
+                  <td>
+                    {unit.projectId ? (
+                      <Link
+                        href={`/projects/${unit.projectId}`}
+                        className="ims-table-link"
+                      >
+                        {unit.projectName || unit.projectId}
+                      </Link>
+                    ) : (
+                      "—"
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+};
+
+const ItemLocationsCard = ({
+  item,
+  canEdit,
+  onTransferred,
+}: {
+  item: InventoryItem;
+  canEdit: boolean;
+  onTransferred: () => void;
+}) => {
+  const { user } = useAuth();
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [fromLocationId, setFromLocationId] = useState("");
+  const [toLocationId, setToLocationId] = useState("");
+  const [qty, setQty] = useState("");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchLocations()
+      .then(setLocations)
+      .catch((err) => {
+        console.error("Error loading locations", err);
+      });
+  }, []);
+
+  const locationsById = useMemo(
+    () => new Map(locations.map((location) => [location.id, location])),
+    [locations],
+  );
+  const describeLocation = (locationId: string) =>
+    locationId
+      ? getLocationPath(locationId, locationsById) || locationId
+      : "Unassigned";
+  const rows = Object.entries(item.locationQty)
+    .map(([locationId, quantity]) => ({
+      locationId,
+      label: describeLocation(locationId),
+      quantity,
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  const handleTransfer = async () => {
+    const quantity = Number(qty);
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await transferStock({
+        itemId: item.id,
+        fromLocationId: fromLocationId || null,
+        toLocationId: toLocationId || null,
+        qty: quantity,
+        note:
+          note.trim() ||
+          `${describeLocation(fromLocationId)} → ${describeLocation(toLocationId)}`,
+        label: item.name,
+        user: user ? { uid: user.uid, email: user.email } : null,
+      });
+      setQty("");
+      setNote("");
+      setMessage(`Transferred ${formatNumber(quantity)}.`);
+      onTransferred();
+    } catch (err: any) {
+      console.error("Error transferring stock", err);
+      setError(err?.message ?? "Unable to transfer stock.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const locationOptions = (
+    <>
+      <option value="">Unassigned</option>
+      {locations
+        .filter((location) => location.active)
+        .map((location) => (
+          <option key={location.id} value={location.id}>
+            {getLocationPath(location.id, locationsById)}
+          </option>
+        ))}
+    </>
+  );
+
+  return (
+    <section className="ims-form-section card">
+      <div className="ims-table-header">
+        <div>
+          <h2 className="ims-form-section-title">Stock by location</h2>
+          <p className="ims-form-section-subtitle">
+            Where this item&apos;s inventory sits. Reserved, WIP and completed
+            stock is held against its project.
+          </p>
+        </div>
+        <Link href="/inventory/locations" className="ims-secondary-button">
+          Locations
+        </Link>
+      </div>
+      <div className="ims-table-wrapper">
+        <table className="ims-table ims-table--compact">
+          <thead>
+            <tr>
+              <th>Location</th>
+              <th>Quantity</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.locationId}>
+                <td>{row.label}</td>
+                <td>{formatNumber(row.quantity)}</td>
+              </tr>
+            ))}
+            <tr>
+              <td>Unassigned</td>
+              <td>{formatNumber(item.unassignedQty)}</td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      {canEdit && (
+        <>
+          <hr className="ims-form-divider" />
+          <div className="ims-form-section-title">Transfer stock</div>
+          <div className="ims-field-row">
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="transferFrom">
+                From
+              </label>
+              <select
+                id="transferFrom"
+                className="ims-field-input"
+                value={fromLocationId}
+                onChange={(e) => setFromLocationId(e.target.value)}
+              >
+                {locationOptions}
+              </select>
+            </div>
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="transferTo">
+                To
+              </label>
+              <select
+                id="transferTo"
+                className="ims-field-input"
+                value={toLocationId}
+                onChange={(e) => setToLocationId(e.target.value)}
+              >
+                {locationOptions}
+              </select>
+            </div>
+          </div>
+          <div className="ims-field-row">
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="transferQty">
+                Quantity
+              </label>
+              <input
+                id="transferQty"
+                type="number"
+                min={0}
+                className="ims-field-input"
+                value={qty}
+                onChange={(e) => setQty(e.target.value)}
+              />
+            </div>
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="transferNote">
+                Note
+              </label>
+              <input
+                id="transferNote"
+                className="ims-field-input"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+          <button
+            type="button"
+            className="ims-primary-button"
+            onClick={handleTransfer}
+            disabled={saving || !qty || fromLocationId === toLocationId}
+          >
+            {saving ? "Transferring…" : "Transfer"}
+          </button>
+          {message && (
+            <p className="ims-field-help" style={{ color: "#059669" }}>
+              {message}
+            </p>
+          )}
+          {error && (
+            <p className="ims-field-help" style={{ color: "#b91c1c" }}>
+              {error}
+            </p>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
 const SensorReplacementCard = ({
   item,
   onUpdated,
@@ -2205,7 +2892,10 @@ export default function InventoryItemDetailPage({
   } | null>(null);
   const [purchaseStatsLoading, setPurchaseStatsLoading] = useState(false);
   const [purchaseStatsError, setPurchaseStatsError] = useState<string | null>(null);
-  const { canEdit, isAdmin } = useAuth();
+  const [stockMovements, setStockMovements] = useState<StockMovementRecord[]>(
+    [],
+  );
+  const { user, canEdit, isAdmin } = useAuth();
 
   useEffect(() => {
     const loadItem = async () => {
@@ -2238,6 +2928,27 @@ export default function InventoryItemDetailPage({
     loadItem();
   }, [itemId, reloadKey]);
 
+  useEffect(() => {
+    if (!item?.id) {
+      setStockMovements([]);
+      return;
+    }
+    let cancelled = false;
+    const loadMovements = async () => {
+      try {
+        const movements = await fetchItemStockMovements(item.id);
+        if (!cancelled) setStockMovements(movements);
+      } catch (err) {
+        console.error("Error loading stock movements", err);
+        if (!cancelled) setStockMovements([]);
+      }
+    };
+    loadMovements();
+    return () => {
+      cancelled = true;
+    };
+  }, [item?.id, reloadKey]);
+
   useEffect(() => {
     if (!item || !item.components.length) {
       setComponentDirectory({});
@@ -2439,6 +3150,14 @@ export default function InventoryItemDetailPage({
             draftQty += qtyForItem;
           } else if (status === "paid") {
             paidQty += qtyForItem;
+          } else if (status === "partially_received") {
+            paidQty += lineItems.reduce(
+              (sum: number, line: any) =>
+                line?.itemId === item.id
+                  ? sum + getLineOutstandingQty(line, data)
+                  : sum,
+              0,
+            );
           }
           orders.push({
             id: purchaseDoc.id,
@@ -2537,6 +3256,7 @@ export default function InventoryItemDetailPage({
       );
       const batch = writeBatch(db);
       const summaryParts: string[] = [];
+      const movements: StockMovementInput[] = [];
       snapshots.forEach((snap, index) => {
         const line = componentLines[index];
         if (!snap.exists()) {
@@ -2544,50 +3264,35 @@ export default function InventoryItemDetailPage({
         }
         const data = snap.data() as any;
         const componentName = data.name ?? data.sku ?? "Component";
-        const currentQty =
-          typeof data.inventoryQty === "number" ? data.inventoryQty : 0;
-        const currentCompleted =
-          typeof data.completedQty === "number" ? data.completedQty : 0;
         const perAssembly = line.quantity ?? 0;
         const totalRequired = perAssembly * units;
         if (totalRequired <= 0) return;
-        const nextQty = currentQty - totalRequired;
-        const nextCompleted = currentCompleted + totalRequired;
-        batch.update(snap.ref, {
-          inventoryQty: increment(-totalRequired),
-          completedQty: increment(totalRequired),
-          updatedAt: now,
-          inventoryHistory: arrayUnion({
-            id: `${manufactureId}-component-${snap.id}`,
-            at: now,
-            bucket: "Inventory → Completed",
-            fromBucket: "Inventory",
-            toBucket: "Completed",
-            changeType: "subAssembly",
-            quantity: nextCompleted,
-            delta: totalRequired,
-            reference: `Manufactured ${units} × ${item.name}`,
-            note: `${perAssembly} per assembly`,
-          }),
+        movements.push({
+          itemId: snap.id,
+          itemName: componentName,
+          fromBucket: "inventory",
+          toBucket: "completed",
+          qty: totalRequired,
+          note: `${perAssembly} per assembly`,
         });
         summaryParts.push(`${totalRequired} × ${componentName}`);
       });
-      const manufacturedTotal = (item.inventoryQty ?? 0) + units;
-      batch.update(doc(db, "items", item.id), {
-        inventoryQty: increment(units),
-        updatedAt: now,
-        inventoryHistory: arrayUnion({
-          id: `${manufactureId}-assembly`,
-          at: now,
-          bucket: "Production → Manufactured",
-          fromBucket: "Production",
-          toBucket: "Manufactured",
-          changeType: "subAssembly",
-          quantity: manufacturedTotal,
-          delta: units,
-          reference: "Sub-assembly manufacture",
-          note: summaryParts.join(", "),
-        }),
+      movements.push({
+        itemId: item.id,
+        itemName: item.name,
+        fromBucket: null,
+        toBucket: "inventory",
+        qty: units,
+        note: summaryParts.join(", "),
+      });
+      recordStockMovements(batch, movements, {
+        source: {
+          type: "manufacture",
+          id: manufactureId,
+          label: `Manufactured ${units} × ${item.name}`,
+        },
+        user: user ? { uid: user.uid, email: user.email } : null,
+        at: now,
       });
       await batch.commit();
       const summaryText = summaryParts.length
@@ -2762,6 +3467,11 @@ export default function InventoryItemDetailPage({
               />
             )}
 
+            {(detailType === "products" ||
+              detailType === "subAssemblies") && (
+              <BomTreeCard item={item} reloadKey={reloadKey} />
+            )}
+
             {relationshipSections.map((section) => (
               <RelationshipTable
                 key={section.title}
@@ -2795,13 +3505,46 @@ export default function InventoryItemDetailPage({
               />
             )}
             <CostingCard item={item} />
+            {detailType === "products" && (
+              <HubspotProductCard
+                item={item}
+                canEdit={canEdit}
+                onSynced={() => setReloadKey((prev) => prev + 1)}
+              />
+            )}
           </div>
         </div>
       )}
 
       {item && (
         <div style={{ marginTop: "1.5rem" }}>
-          <InventoryHistoryCard item={item} />
+          <InventoryHistoryCard item={item} movements={stockMovements} />
+        </div>
+      )}
+
+      {item && (
+        <div style={{ marginTop: "1.5rem" }}>
+          <ItemLocationsCard
+            item={item}
+            canEdit={canEdit}
+            onTransferred={() => setReloadKey((prev) => prev + 1)}
+          />
+        </div>
+      )}
+
+      {item && (
+        <div style={{ marginTop: "1.5rem" }}>
+          <SupplierCatalogueCard
+            key={item.id}
+            mode="item"
+            item={{ id: item.id, name: item.name, sku: item.sku }}
+          />
+        </div>
+      )}
+
+      {item?.trackSerialNumber && (
+        <div style={{ marginTop: "1.5rem" }}>
+          <ItemUnitsCard item={item} reloadKey={reloadKey} />
         </div>
       )}
 
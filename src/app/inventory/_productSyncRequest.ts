@@ -0,0 +1,19 @@
+import { getAuthHeaders } from "@/lib/authHeaders";
+import type { ProductSyncResult } from "@/lib/hubspotProductSync";
+
+/** Ask the server to push products to HubSpot; all products when no IDs. */
+export const requestHubspotProductSync = async (itemIds?: string[]) => {
+  const response = await fetch("/api/hubspot/products/sync", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(await getAuthHeaders()),
+    },
+    body: JSON.stringify(itemIds ? { itemIds } : {}),
+  });
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(payload?.error || response.statusText);
+  }
+  return payload.results as ProductSyncResult[];
+};
@@ -0,0 +1,254 @@
+"use client";
+
+import { useState, type ChangeEvent } from "react";
+import Link from "next/link";
+import Papa from "papaparse";
+import { useAuth } from "@/app/_components/AuthProvider";
+import { BOM_SECTIONS } from "@/lib/bom";
+import {
+  applyBomImportPlan,
+  BOM_SECTION_LABELS,
+  loadBomImportPlan,
+  mapBomCsvRows,
+  type BomImportPlan,
+} from "@/lib/bomImport";
+import type { CsvRow, ImportRowError } from "@/lib/inventoryImport";
+
+export default function BomImportPage() {
+  const { user, canEdit } = useAuth();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [plan, setPlan] = useState<BomImportPlan | null>(null);
+  const [rowErrors, setRowErrors] = useState<ImportRowError[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    e.target.value = "";
+    setPlan(null);
+    setRowErrors([]);
+    setError(null);
+    setMessage(null);
+    setFileName(file.name);
+
+    Papa.parse<CsvRow>(file, {
+      header: true,
+      skipEmptyLines: true,
+      complete: async (results) => {
+        const mapped = mapBomCsvRows(results.data);
+        setLoading(true);
+        try {
+          const nextPlan = await loadBomImportPlan(mapped.rows);
+          setRowErrors(
+            [...mapped.errors, ...nextPlan.errors].sort(
+              (a, b) => a.rowNumber - b.rowNumber,
+            ),
+          );
+          setPlan(nextPlan);
+        } catch (err: any) {
+          console.error("Error resolving BOM import", err);
+          setError(err?.message ?? "Unable to read the BOM file.");
+        } finally {
+          setLoading(false);
+        }
+      },
+      error: (err) => {
+        console.error("CSV parse error", err);
+        setError(err.message);
+      },
+    });
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+    if (
+      !window.confirm(
+        `Replace the BOM lines on ${plan.parents.length} item${plan.parents.length === 1 ? "" : "s"}?`,
+      )
+    ) {
+      return;
+    }
+    setApplying(true);
+    setError(null);
+    try {
+      const result = await applyBomImportPlan({
+        plan,
+        fileName,
+        user: user ? { uid: user.uid, email: user.email } : null,
+      });
+      setPlan(null);
+      setRowErrors([]);
+      setMessage(
+        `BOMs updated on ${result.parents} item${result.parents === 1 ? "" : "s"}.`,
+      );
+    } catch (err: any) {
+      console.error("Error applying BOM import", err);
+      setError(err?.message ?? "Unable to apply the BOM import.");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <main className="ims-content">
+      <div className="ims-page-header ims-page-header--with-actions">
+        <div>
+          <h1 className="ims-page-title">Import bills of materials</h1>
+          <p className="ims-page-subtitle">
+            Upload a CSV with parent SKU, child SKU, quantity and mandatory
+            columns. Each child is filed under the parent&apos;s components,
+            sub-assemblies, sensors or sensor extras according to its own
+            type.
+          </p>
+        </div>
+        <div className="ims-page-actions">
+          <Link href="/inventory" className="ims-secondary-button">
+            ← Back to inventory
+          </Link>
+          {canEdit && (
+            <label className="ims-secondary-button ims-file-label">
+              <input
+                type="file"
+                accept=".csv"
+                onChange={handleFileChange}
+                style={{ display: "none" }}
+              />
+              Upload BOM CSV
+            </label>
+          )}
+        </div>
+      </div>
+
+      {(error || message) && (
+        <div
+          className={
+            "ims-alert " + (error ? "ims-alert--error" : "ims-alert--info")
+          }
+        >
+          {error || message}
+        </div>
+      )}
+
+      {loading && <p>Resolving SKUs…</p>}
+
+      {rowErrors.length > 0 && (
+        <section className="card ims-table-card">
+          <div className="ims-table-header">
+            <h2 className="ims-form-section-title">Rows with errors</h2>
+            <span className="ims-table-count">
+              {rowErrors.length} problem{rowErrors.length === 1 ? "" : "s"}
+            </span>
+          </div>
+          <p className="ims-form-section-subtitle">
+            These rows are skipped. A parent with a loop in its structure is
+            skipped entirely.
+          </p>
+          <div className="ims-table-wrapper">
+            <table className="ims-table ims-table--compact">
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  <th>Problem</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rowErrors.map((entry, index) => (
+                  <tr key={`${entry.rowNumber}-${index}`}>
+                    <td>{entry.rowNumber}</td>
+                    <td>{entry.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {plan && (
+        <section className="card ims-form-section">
+          <div className="ims-table-header">
+            <div>
+              <h2 className="ims-form-section-title">
+                Preview{fileName ? ` — ${fileName}` : ""}
+              </h2>
+              <p className="ims-form-section-subtitle">
+                Sections listed here replace what is stored on the parent;
+                sections not in the file are left unchanged.
+              </p>
+            </div>
+            <div className="ims-page-actions">
+              <button
+                type="button"
+                className="ims-secondary-button"
+                onClick={() => {
+                  setPlan(null);
+                  setRowErrors([]);
+                }}
+                disabled={applying}
+              >
+                Discard
+              </button>
+              <button
+                type="button"
+                className="ims-primary-button"
+                onClick={handleApply}
+                disabled={applying || !plan.parents.length}
+              >
+                {applying
+                  ? "Applying…"
+                  : `Update ${plan.parents.length} BOM${plan.parents.length === 1 ? "" : "s"}`}
+              </button>
+            </div>
+          </div>
+
+          {plan.parents.length === 0 ? (
+            <p className="ims-table-empty">No BOMs to update.</p>
+          ) : (
+            plan.parents.map((parent) => (
+              <div key={parent.itemId} style={{ marginBottom: "1rem" }}>
+                <div className="ims-form-section-title">
+                  {parent.sku} — {parent.name}
+                </div>
+                <div className="ims-table-wrapper">
+                  <table className="ims-table ims-table--compact">
+                    <thead>
+                      <tr>
+                        <th>Section</th>
+                        <th>Child SKU</th>
+                        <th>Name</th>
+                        <th>Qty</th>
+                        <th>Mandatory</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {BOM_SECTIONS.flatMap((section) =>
+                        (parent.sections[section] ?? []).map(
+                          (entry, index) => (
+                            <tr key={`${section}-${entry.itemId}`}>
+                              <td>
+                                {index === 0
+                                  ? `${BOM_SECTION_LABELS[section]} (replaces ${parent.currentCounts[section] ?? 0})`
+                                  : ""}
+                              </td>
+                              <td>{entry.sku}</td>
+                              <td>{entry.name}</td>
+                              <td>{entry.quantity}</td>
+                              <td>{entry.mandatory ? "Yes" : "No"}</td>
+                            </tr>
+                          ),
+                        ),
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ))
+          )}
+        </section>
+      )}
+    </main>
+  );
+}
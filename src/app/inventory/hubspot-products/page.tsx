@@ -0,0 +1,221 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { collection, getDocs, orderBy, query } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/app/_components/AuthProvider";
+import {
+  deriveDetailType,
+  getInventoryDetailPath,
+} from "@/lib/inventoryPaths";
+import {
+  PRODUCT_SYNC_OUTCOME_LABELS,
+  type ProductSyncResult,
+} from "@/lib/hubspotProductSync";
+import { requestHubspotProductSync } from "../_productSyncRequest";
+
+type ProductRow = {
+  id: string;
+  name: string;
+  sku: string;
+  price: number | null;
+  hubspotProductId: string | null;
+};
+
+const formatCurrency = (value?: number | null) => {
+  if (value == null || Number.isNaN(value)) return "—";
+  return `£${value.toFixed(2)}`;
+};
+
+export default function HubspotProductsPage() {
+  const { canEdit } = useAuth();
+  const [products, setProducts] = useState<ProductRow[]>([]);
+  const [results, setResults] = useState<Record<string, ProductSyncResult>>(
+    {},
+  );
+  const [loading, setLoading] = useState(true);
+  const [syncingId, setSyncingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadProducts = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const snap = await getDocs(
+        query(collection(db, "items"), orderBy("name")),
+      );
+      setProducts(
+        snap.docs
+          .filter(
+            (docSnap) =>
+              deriveDetailType(
+                docSnap.data().itemType,
+                docSnap.data().category,
+              ) === "products",
+          )
+          .map((docSnap) => {
+            const data = docSnap.data() as any;
+            const price = Number(data.pricePerUnit ?? data.salesPrice);
+            return {
+              id: docSnap.id,
+              name: data.name ?? "",
+              sku: data.sku ?? data.shortCode ?? "",
+              price: Number.isFinite(price) ? price : null,
+              hubspotProductId: data.hubspotProductId ?? null,
+            };
+          }),
+      );
+    } catch (err: any) {
+      console.error("Error loading products", err);
+      setError(err?.message ?? "Unable to load products.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadProducts();
+  }, []);
+
+  const handleSync = async (itemId: string | null) => {
+    if (
+      !itemId &&
+      !window.confirm(`Push all ${products.length} products to HubSpot?`)
+    ) {
+      return;
+    }
+    setSyncingId(itemId ?? "all");
+    setError(null);
+    setMessage(null);
+    try {
+      const synced = await requestHubspotProductSync(
+        itemId ? [itemId] : undefined,
+      );
+      setResults((prev) => ({
+        ...(itemId ? prev : {}),
+        ...Object.fromEntries(synced.map((row) => [row.itemId, row])),
+      }));
+      const conflicts = synced.filter(
+        (row) => row.outcome === "conflict" || row.outcome === "failed",
+      ).length;
+      setMessage(
+        `Synced ${synced.length - conflicts} of ${synced.length} product${synced.length === 1 ? "" : "s"}.` +
+          (conflicts ? ` ${conflicts} need attention.` : ""),
+      );
+      await loadProducts();
+    } catch (err: any) {
+      console.error("Error syncing products to HubSpot", err);
+      setError(err?.message ?? "Unable to sync products to HubSpot.");
+    } finally {
+      setSyncingId(null);
+    }
+  };
+
+  return (
+    <main className="ims-content">
+      <div className="ims-page-header ims-page-header--with-actions">
+        <div>
+          <h1 className="ims-page-title">HubSpot products</h1>
+          <p className="ims-page-subtitle">
+            Push product names, SKUs, list prices and descriptions to HubSpot.
+            Products without a HubSpot ID are matched by SKU or created.
+          </p>
+        </div>
+        <div className="ims-page-actions">
+          <Link href="/inventory" className="ims-secondary-button">
+            Back to inventory
+          </Link>
+          {canEdit && (
+            <button
+              type="button"
+              className="ims-primary-button"
+              onClick={() => handleSync(null)}
+              disabled={Boolean(syncingId) || loading || !products.length}
+            >
+              {syncingId === "all" ? "Syncing…" : "Push all to HubSpot"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {(error || message) && (
+        <div
+          className={
+            "ims-alert " + (error ? "ims-alert--error" : "ims-alert--info")
+          }
+        >
+          {error || message}
+        </div>
+      )}
+
+      <section className="card ims-table-card">
+        <div className="ims-table-header">
+          <h2 className="ims-form-section-title">Products</h2>
+          <span className="ims-table-count">
+            {products.filter((row) => row.hubspotProductId).length} of{" "}
+            {products.length} linked
+          </span>
+        </div>
+        {loading ? (
+          <p className="ims-table-empty">Loading products…</p>
+        ) : products.length === 0 ? (
+          <p className="ims-table-empty">No products in inventory.</p>
+        ) : (
+          <div className="ims-table-wrapper">
+            <table className="ims-table ims-table--compact">
+              <thead>
+                <tr>
+                  <th>SKU</th>
+                  <th>Name</th>
+                  <th>List price</th>
+                  <th>HubSpot product ID</th>
+                  <th>Last sync</th>
+                  {canEdit && <th />}
+                </tr>
+              </thead>
+              <tbody>
+                {products.map((row) => {
+                  const result = results[row.id];
+                  return (
+                    <tr key={row.id}>
+                      <td>{row.sku || "—"}</td>
+                      <td>
+                        <Link
+                          href={getInventoryDetailPath(row.id, "products")}
+                          className="ims-table-link"
+                        >
+                          {row.name}
+                        </Link>
+                      </td>
+                      <td>{formatCurrency(row.price)}</td>
+                      <td>{row.hubspotProductId ?? "—"}</td>
+                      <td>
+                        {result
+                          ? `${PRODUCT_SYNC_OUTCOME_LABELS[result.outcome]}: ${result.message}`
+                          : "—"}
+                      </td>
+                      {canEdit && (
+                        <td style={{ textAlign: "right" }}>
+                          <button
+                            type="button"
+                            className="ims-secondary-button"
+                            onClick={() => handleSync(row.id)}
+                            disabled={Boolean(syncingId)}
+                          >
+                            {syncingId === row.id ? "Syncing…" : "Push"}
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,415 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/app/_components/AuthProvider";
+import { getInventoryDetailPath } from "@/lib/inventoryPaths";
+import {
+  fetchLocations,
+  getItemLocationQuantities,
+  getLocationPath,
+  LOCATION_TYPE_LABELS,
+  LOCATION_TYPES,
+  saveLocation,
+  type LocationType,
+  type StockLocation,
+} from "@/lib/locations";
+
+type LocationFormState = {
+  name: string;
+  code: string;
+  type: LocationType;
+  parentId: string;
+  active: boolean;
+  notes: string;
+};
+
+type LocatedItem = {
+  id: string;
+  name: string;
+  sku: string;
+  itemType: string | null;
+  locationQty: Record<string, number>;
+};
+
+const emptyForm: LocationFormState = {
+  name: "",
+  code: "",
+  type: "store",
+  parentId: "",
+  active: true,
+  notes: "",
+};
+
+export default function LocationsPage() {
+  const { canEdit } = useAuth();
+  const isReadOnly = !canEdit;
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [items, setItems] = useState<LocatedItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState<LocationFormState>(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const locationsById = useMemo(
+    () => new Map(locations.map((location) => [location.id, location])),
+    [locations],
+  );
+  const selectedLocation = selectedId
+    ? (locationsById.get(selectedId) ?? null)
+    : null;
+
+  const loadLocations = async (preferredId?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [rows, itemSnap] = await Promise.all([
+        fetchLocations(),
+        getDocs(collection(db, "items")),
+      ]);
+      setLocations(rows);
+      setItems(
+        itemSnap.docs.map((docSnap) => {
+          const data = docSnap.data() as any;
+          return {
+            id: docSnap.id,
+            name: data.name ?? "",
+            sku: data.sku ?? "",
+            itemType: data.itemType ?? null,
+            locationQty: getItemLocationQuantities(data),
+          };
+        }),
+      );
+      const targetId =
+        preferredId && rows.some((row) => row.id === preferredId)
+          ? preferredId
+          : rows.some((row) => row.id === selectedId)
+            ? selectedId
+            : (rows[0]?.id ?? null);
+      setSelectedId(targetId);
+    } catch (err: any) {
+      console.error("Error loading locations", err);
+      setError(err?.message ?? "Unable to load locations.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadLocations();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (selectedLocation) {
+      setForm({
+        name: selectedLocation.name,
+        code: selectedLocation.code,
+        type: selectedLocation.type,
+        parentId: selectedLocation.parentId ?? "",
+        active: selectedLocation.active,
+        notes: selectedLocation.notes,
+      });
+    } else if (!selectedId) {
+      setForm(emptyForm);
+    }
+  }, [selectedLocation, selectedId]);
+
+  const stockAtLocation = useMemo(
+    () =>
+      selectedId
+        ? items
+            .filter((item) => item.locationQty[selectedId])
+            .sort((a, b) => a.name.localeCompare(b.name))
+        : [],
+    [items, selectedId],
+  );
+
+  const handleCreateNew = () => {
+    if (isReadOnly) return;
+    setSelectedId(null);
+    setForm(emptyForm);
+  };
+
+  const handleChange = <K extends keyof LocationFormState>(
+    field: K,
+    value: LocationFormState[K],
+  ) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setMessage(null);
+    if (isReadOnly) {
+      setError("You do not have permission to edit locations.");
+      return;
+    }
+    setSaving(true);
+    try {
+      const savedId = await saveLocation(selectedId, {
+        ...form,
+        parentId: form.parentId || null,
+      });
+      setMessage(selectedId ? "Location updated." : "Location created.");
+      await loadLocations(savedId);
+    } catch (err: any) {
+      console.error("Error saving location", err);
+      setError(err?.message ?? "Unable to save location.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <main className="ims-content">
+      <div className="ims-page-header ims-page-header--with-actions">
+        <div>
+          <h1 className="ims-page-title">Locations</h1>
+          <p className="ims-page-subtitle">
+            Sites, stores, bins and vans where inventory is kept. Deliveries,
+            reservations and transfers record which location stock moves in
+            and out of.
+          </p>
+        </div>
+        <div className="ims-page-actions">
+          <Link href="/inventory" className="ims-secondary-button">
+            ← Back to inventory
+          </Link>
+          <button
+            type="button"
+            className="ims-primary-button"
+            onClick={handleCreateNew}
+            disabled={isReadOnly}
+          >
+            + New location
+          </button>
+        </div>
+      </div>
+
+      {(error || message) && (
+        <div
+          className={
+            "ims-alert " + (error ? "ims-alert--error" : "ims-alert--info")
+          }
+        >
+          {error || message}
+        </div>
+      )}
+
+      <div className="ims-form-grid">
+        <section className="ims-form-section card">
+          <h2 className="ims-form-section-title">All locations</h2>
+          <p className="ims-form-section-subtitle">
+            Select a location to edit it and see the stock held there.
+          </p>
+
+          {loading ? (
+            <p className="ims-table-empty">Loading locations…</p>
+          ) : locations.length === 0 ? (
+            <p className="ims-table-empty">
+              No locations recorded yet. Use &ldquo;New location&rdquo; to
+              begin.
+            </p>
+          ) : (
+            <ul className="ims-list">
+              {locations.map((location) => (
+                <li key={location.id}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(location.id)}
+                    className={
+                      "ims-list-button" +
+                      (location.id === selectedId
+                        ? " ims-list-button--active"
+                        : "")
+                    }
+                  >
+                    <span>{getLocationPath(location.id, locationsById)}</span>
+                    <span className="ims-list-subtitle">
+                      {LOCATION_TYPE_LABELS[location.type]}
+                      {location.code ? ` · ${location.code}` : ""}
+                      {location.active ? "" : " · Inactive"}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="ims-form-section card">
+          <h2 className="ims-form-section-title">
+            {selectedId ? "Location details" : "Add location"}
+          </h2>
+          <p className="ims-form-section-subtitle">
+            Nest bins inside stores and stores inside sites to build the
+            location path shown on pickers.
+          </p>
+
+          <form className="ims-form" onSubmit={handleSubmit}>
+            <fieldset
+              disabled={isReadOnly}
+              style={{ border: 0, padding: 0, margin: 0 }}
+            >
+              <div className="ims-field-row">
+                <div className="ims-field">
+                  <label className="ims-field-label" htmlFor="locationName">
+                    Name<span className="ims-required">*</span>
+                  </label>
+                  <input
+                    id="locationName"
+                    className="ims-field-input"
+                    value={form.name}
+                    onChange={(e) => handleChange("name", e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="ims-field">
+                  <label className="ims-field-label" htmlFor="locationCode">
+                    Code
+                  </label>
+                  <input
+                    id="locationCode"
+                    className="ims-field-input"
+                    value={form.code}
+                    onChange={(e) => handleChange("code", e.target.value)}
+                    placeholder="e.g. A-01-03"
+                  />
+                </div>
+              </div>
+
+              <div className="ims-field-row">
+                <div className="ims-field">
+                  <label className="ims-field-label" htmlFor="locationType">
+                    Type
+                  </label>
+                  <select
+                    id="locationType"
+                    className="ims-field-input"
+                    value={form.type}
+                    onChange={(e) =>
+                      handleChange("type", e.target.value as LocationType)
+                    }
+                  >
+                    {LOCATION_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {LOCATION_TYPE_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="ims-field">
+                  <label className="ims-field-label" htmlFor="locationParent">
+                    Inside
+                  </label>
+                  <select
+                    id="locationParent"
+                    className="ims-field-input"
+                    value={form.parentId}
+                    onChange={(e) => handleChange("parentId", e.target.value)}
+                  >
+                    <option value="">None</option>
+                    {locations
+                      .filter((location) => location.id !== selectedId)
+                      .map((location) => (
+                        <option key={location.id} value={location.id}>
+                          {getLocationPath(location.id, locationsById)}
+                        </option>
+                      ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="ims-field">
+                <label className="ims-field-label" htmlFor="locationNotes">
+                  Notes
+                </label>
+                <textarea
+                  id="locationNotes"
+                  className="ims-field-input ims-field-textarea"
+                  rows={3}
+                  value={form.notes}
+                  onChange={(e) => handleChange("notes", e.target.value)}
+                />
+              </div>
+
+              <label className="ims-field-help">
+                <input
+                  type="checkbox"
+                  checked={form.active}
+                  onChange={(e) => handleChange("active", e.target.checked)}
+                />{" "}
+                Active — inactive locations are hidden from pickers
+              </label>
+
+              <div className="ims-form-actions">
+                <button
+                  type="submit"
+                  className="ims-primary-button"
+                  disabled={saving || isReadOnly}
+                >
+                  {saving
+                    ? "Saving…"
+                    : selectedId
+                      ? "Save location"
+                      : "Add location"}
+                </button>
+              </div>
+            </fieldset>
+          </form>
+        </section>
+      </div>
+
+      {selectedLocation && (
+        <section className="card ims-table-card">
+          <div className="ims-table-header">
+            <h2 className="ims-form-section-title">
+              Stock at {getLocationPath(selectedLocation.id, locationsById)}
+            </h2>
+            <span className="ims-table-count">
+              {stockAtLocation.length} item
+              {stockAtLocation.length === 1 ? "" : "s"}
+            </span>
+          </div>
+          {stockAtLocation.length === 0 ? (
+            <p className="ims-table-empty">No stock held here.</p>
+          ) : (
+            <div className="ims-table-wrapper">
+              <table className="ims-table ims-table--compact">
+                <thead>
+                  <tr>
+                    <th>Item</th>
+                    <th>SKU</th>
+                    <th>Quantity</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {stockAtLocation.map((item) => (
+                    <tr key={item.id}>
+                      <td>
+                        <Link
+                          href={getInventoryDetailPath(item.id, item.itemType)}
+                          className="ims-table-link"
+                        >
+                          {item.name || item.sku}
+                        </Link>
+                      </td>
+                      <td>{item.sku || "—"}</td>
+                      <td>{item.locationQty[selectedLocation.id]}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      )}
+    </main>
+  );
+}
@@ -4,15 +4,17 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { db } from "@/lib/firebase";
 import {
-  addDoc,
   collection,
+  doc,
   getDocs,
   orderBy,
   query,
   Timestamp,
+  writeBatch,
 } from "firebase/firestore";
 import { useAuth } from "@/app/_components/AuthProvider";
 import { normalizeItemType } from "@/lib/inventoryPaths";
+import { recordStockMovements } from "@/lib/stockMovements";
 
 type ItemType =
   | "product"
@@ -75,7 +77,7 @@ export default function NewProductPage() {
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const presetAppliedRef = useRef(false);
-  const { canEdit } = useAuth();
+  const { canEdit, user } = useAuth();
   const isReadOnly = !canEdit;
   const [supplierOptions, setSupplierOptions] = useState<SupplierOption[]>([]);
   const [loadingSuppliers, setLoadingSuppliers] = useState(true);
@@ -271,7 +273,14 @@ export default function NewProductPage() {
             }))
           : [];
 
-      await addDoc(collection(db, "items"), {
+      const openingQty =
+        Number.isFinite(quantityNumber) && quantityNumber > 0
+          ? quantityNumber
+          : 0;
+      const itemRef = doc(collection(db, "items"));
+      const batch = writeBatch(db);
+      // Buckets start at zero; opening stock is posted through the ledger.
+      batch.set(itemRef, {
         name: form.name.trim(),
         shortName: form.name.trim(),
         description: form.description.trim() || null,
@@ -282,10 +291,10 @@ export default function NewProductPage() {
         supplier1Id: supplier1Option?.id ?? null,
         supplier2: supplier2Option?.name ?? "",
         supplier2Id: supplier2Option?.id ?? null,
-        inventoryQty:
-          Number.isFinite(quantityNumber) && quantityNumber
-            ? quantityNumber
-            : 0,
+        inventoryQty: 0,
+        reservedQty: 0,
+        wipQty: 0,
+        completedQty: 0,
         standardCost: Number.isFinite(costNumber) ? costNumber : 0,
         standardCostCurrency: "GBP",
         usefulLifeMonths: form.usefulLifeMonths
@@ -299,6 +308,29 @@ export default function NewProductPage() {
         createdAt: now,
         updatedAt: now,
       });
+      recordStockMovements(
+        batch,
+        [
+          {
+            itemId: itemRef.id,
+            itemName: form.name.trim(),
+            fromBucket: null,
+            toBucket: "inventory",
+            qty: openingQty,
+            note: "Opening stock",
+          },
+        ],
+        {
+          source: {
+            type: "adjustment",
+            id: itemRef.id,
+            label: `Opening stock for ${form.name.trim()}`,
+          },
+          user: user ? { uid: user.uid, email: user.email } : null,
+          at: now,
+        },
+      );
+      await batch.commit();
 
       // Simple redirect back to a list page (you can change this later)
       router.push("/inventory");
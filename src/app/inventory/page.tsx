@@ -5,19 +5,20 @@ import { useEffect, useMemo, useState, type ChangeEvent } from "react";
 import Link from "next/link";
 import Papa from "papaparse";
 import { db } from "@/lib/firebase";
-import {
-  collection,
-  getDocs,
-  addDoc,
-  Timestamp,
-  query,
-  orderBy,
-  deleteDoc,
-} from "firebase/firestore";
+import { collection, getDocs, query, orderBy } from "firebase/firestore";
 import {
   getInventoryDetailPath,
   normalizeItemType,
 } from "@/lib/inventoryPaths";
+import type { CsvRow, ImportDiff } from "@/lib/inventoryImport";
+import {
+  downloadExport,
+  type ExportColumn,
+  type ExportFormat,
+} from "@/lib/exports";
+import ExportButtons from "@/app/_components/ExportButtons";
+import InventoryImportMapping from "./_components/InventoryImportMapping";
+import InventoryImportReview from "./_components/InventoryImportReview";
 
 type FirestoreItem = {
   id: string;
@@ -32,21 +33,6 @@ type FirestoreItem = {
   status?: string;
 };
 
-type CsvRow = {
-  [key: string]: any;
-};
-
-type ImportRow = {
-  name: string;
-  type: string;
-  supplier1: string;
-  supplier2: string;
-  shortCode: string;
-  pricePerUnit: number;
-  quantity: number;
-  totalCost: number;
-};
-
 // Keys used in the table — update this union + allColumns to add/remove columns
 type ColumnKey =
   | "name"
@@ -107,6 +93,21 @@ const allColumns: ColumnConfig[] = [
   { key: "status", label: "Status" },
 ];
 
+const exportValues: Record<
+  ColumnKey,
+  Pick<ExportColumn<FirestoreItem>, "kind" | "value">
+> = {
+  name: { value: (item) => item.name },
+  itemType: { value: (item) => item.itemType },
+  supplier1: { value: (item) => item.supplier1 },
+  supplier2: { value: (item) => item.supplier2 },
+  shortCode: { value: (item) => item.shortCode },
+  pricePerUnit: { kind: "money", value: (item) => item.pricePerUnit },
+  quantity: { kind: "number", value: (item) => item.quantity },
+  totalCost: { kind: "money", value: (item) => item.totalCost },
+  status: { value: (item) => item.status },
+};
+
 const getTabKeyForItem = (item: FirestoreItem): TabKey => {
   const type = normalizeItemType(item.itemType);
 
@@ -141,39 +142,18 @@ const getTabKeyForItem = (item: FirestoreItem): TabKey => {
 const matchesTab = (item: FirestoreItem, tab: TabKey) =>
   getTabKeyForItem(item) === tab;
 
-const mapCsvRow = (row: CsvRow): ImportRow | null => {
-  const name = String(row["Name"] ?? "").trim();
-  const typeValue = String(row["Type"] ?? "component").trim();
-  const type = typeValue || "component";
-  const supplier1 = String(row["Supplier 1"] ?? "").trim();
-  const supplier2 = String(row["Supplier 2"] ?? "").trim();
-  const shortCode = String(row["ShortCode"] ?? "").trim();
-  if (!name) return null;
-
-  const parseNumber = (value: any): number => {
-    if (value == null) return 0;
-    const normalized = String(value).replace(/,/g, "");
-    const n = Number(normalized);
-    return Number.isFinite(n) ? n : 0;
-  };
-
-  return {
-    name,
-    type,
-    supplier1,
-    supplier2,
-    shortCode,
-    pricePerUnit: parseNumber(row["Price per unit"]),
-    quantity: parseNumber(row["Qty"]),
-    totalCost: parseNumber(row["Total cost"]),
-  };
-};
-
 export default function InventoryPage() {
   const [items, setItems] = useState<FirestoreItem[]>([]);
   const [loading, setLoading] = useState(true);
-  const [importPreview, setImportPreview] = useState<ImportRow[]>([]);
-  const [importing, setImporting] = useState(false);
+  const [importMapping, setImportMapping] = useState<{
+    fileName: string;
+    headers: string[];
+    rows: CsvRow[];
+  } | null>(null);
+  const [importReview, setImportReview] = useState<{
+    diff: ImportDiff;
+    fileName: string;
+  } | null>(null);
   const [message, setMessage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
@@ -244,21 +224,20 @@ export default function InventoryPage() {
     setMessage(null);
     setError(null);
 
+    setImportMapping(null);
+    setImportReview(null);
+    e.target.value = "";
+
     Papa.parse<CsvRow>(file, {
       header: true,
       skipEmptyLines: true,
       complete: (results) => {
-        const mapped = results.data
-          .map(mapCsvRow)
-          .filter((row): row is ImportRow => row !== null);
-        setImportPreview(mapped);
-        if (mapped.length === 0) {
-          setMessage("No valid rows found in CSV (check headers).");
-        } else {
-          setMessage(
-            `Loaded ${mapped.length} rows from CSV. Review and import.`,
-          );
+        const headers = results.meta.fields ?? [];
+        if (results.data.length === 0 || headers.length === 0) {
+          setMessage("No rows found in CSV.");
+          return;
         }
+        setImportMapping({ fileName: file.name, headers, rows: results.data });
       },
       error: (err) => {
         console.error("CSV parse error", err);
@@ -267,62 +246,6 @@ export default function InventoryPage() {
     });
   };
 
-  const handleImport = async () => {
-    if (!importPreview.length) return;
-    setImporting(true);
-    setError(null);
-    setMessage(null);
-
-    try {
-      const now = Timestamp.now();
-      const itemsRef = collection(db, "items");
-      const existingSnapshot = await getDocs(itemsRef);
-      await Promise.all(existingSnapshot.docs.map((doc) => deleteDoc(doc.ref)));
-
-      for (const row of importPreview) {
-        const itemType = row.type || "component";
-        const totalCost =
-          row.totalCost > 0
-            ? row.totalCost
-            : row.pricePerUnit * (row.quantity || 0);
-
-        await addDoc(itemsRef, {
-          sku: row.shortCode || row.name,
-          shortCode: row.shortCode || row.name,
-          name: row.name,
-          shortName: row.name,
-          description: null,
-          supplier1: row.supplier1 || null,
-          supplier2: row.supplier2 || null,
-          itemType,
-          rawCsvItemType: row.type || "",
-          unitOfMeasure: "ea",
-          status: "active",
-          pricePerUnit: row.pricePerUnit,
-          standardCost: row.pricePerUnit,
-          standardCostCurrency: "GBP",
-          quantity: row.quantity,
-          inventoryQty: row.quantity,
-          totalCost,
-          createdByUserId: "system",
-          createdAt: now,
-          updatedAt: now,
-        });
-      }
-
-      setMessage(
-        `Cleared ${existingSnapshot.size} existing items and imported ${importPreview.length} new records.`,
-      );
-      setImportPreview([]);
-      await loadItems();
-    } catch (err: any) {
-      console.error("Error importing items", err);
-      setError(err?.message ?? "Error importing items");
-    } finally {
-      setImporting(false);
-    }
-  };
-
   // Column visibility logic
   const toggleDraftColumn = (key: ColumnKey) => {
     setDraftColumns((prev) =>
@@ -399,6 +322,19 @@ export default function InventoryPage() {
     visibleColumns.includes(c.key),
   );
 
+  // Exports what the table shows: active tab, filter and visible columns.
+  const handleExport = (format: ExportFormat) =>
+    downloadExport({
+      baseName: activeTab === "all" ? "inventory" : `inventory-${activeTab}`,
+      format,
+      sheetName: activeTabLabel,
+      columns: visibleColumnConfigs.map((col) => ({
+        label: col.label,
+        ...exportValues[col.key],
+      })),
+      rows: filteredItems,
+    });
+
   return (
     <main className="ims-content">
       <div className="ims-page-header ims-page-header--with-actions">
@@ -406,8 +342,8 @@ export default function InventoryPage() {
           <h1 className="ims-page-title">Inventory</h1>
           <p className="ims-page-subtitle">
             Browse products, sub-assemblies, components, sensors, and sensor
-            extras in the WATR inventory master. Use the CSV import to seed
-            new records from your configurator list.
+            extras in the WATR inventory master. Upload a CSV, map its columns
+            to item fields, then review and apply the changes.
           </p>
         </div>
         <div className="ims-page-actions">
@@ -430,6 +366,24 @@ export default function InventoryPage() {
               </Link>
             ))}
           </div>
+          <Link href="/inventory/locations" className="ims-secondary-button">
+            Locations
+          </Link>
+          <Link href="/inventory/stocktakes" className="ims-secondary-button">
+            Stocktakes
+          </Link>
+          <Link href="/inventory/units" className="ims-secondary-button">
+            Serialized units
+          </Link>
+          <Link href="/inventory/bom-import" className="ims-secondary-button">
+            Import BOMs
+          </Link>
+          <Link
+            href="/inventory/hubspot-products"
+            className="ims-secondary-button"
+          >
+            HubSpot products
+          </Link>
           <label className="ims-secondary-button ims-file-label">
             <input
               type="file"
@@ -439,17 +393,6 @@ export default function InventoryPage() {
             />
             Upload CSV
           </label>
-          {importPreview.length > 0 && (
-              <button
-                className="ims-primary-button"
-                onClick={handleImport}
-                disabled={importing}
-              >
-                {importing
-                  ? "Importing…"
-                  : `Import ${importPreview.length} items`}
-              </button>
-            )}
         </div>
       </div>
 
@@ -484,6 +427,36 @@ export default function InventoryPage() {
         </div>
       )}
 
+      {importMapping && (
+        <InventoryImportMapping
+          key={importMapping.fileName}
+          fileName={importMapping.fileName}
+          headers={importMapping.headers}
+          rows={importMapping.rows}
+          onCancel={() => setImportMapping(null)}
+          onReviewed={(diff) => {
+            setImportReview({ diff, fileName: importMapping.fileName });
+            setImportMapping(null);
+          }}
+        />
+      )}
+
+      {importReview && (
+        <InventoryImportReview
+          key={importReview.fileName}
+          diff={importReview.diff}
+          fileName={importReview.fileName}
+          onCancel={() => setImportReview(null)}
+          onApplied={async (summary) => {
+            setImportReview(null);
+            setMessage(
+              `Import applied: ${summary.created} created, ${summary.updated} updated, ${summary.deleted} deleted.`,
+            );
+            await loadItems();
+          }}
+        />
+      )}
+
       {/* Inventory table */}
       <section className="card ims-table-card">
         <div className="ims-table-header" style={{ alignItems: "flex-start" }}>
@@ -518,6 +491,10 @@ export default function InventoryPage() {
             />
 
             <div style={{ display: "flex", gap: "0.5rem" }}>
+              <ExportButtons
+                onExport={handleExport}
+                disabled={loading || filteredItems.length === 0}
+              />
               <button
                 type="button"
                 className="ims-secondary-button"
@@ -720,48 +697,6 @@ export default function InventoryPage() {
           </div>
         )}
       </section>
-
-      {/* Import preview */}
-      {importPreview.length > 0 && (
-        <section className="card ims-table-card ims-table-card--secondary">
-          <div className="ims-table-header">
-            <h2 className="ims-form-section-title">Import preview</h2>
-            <span className="ims-table-count">
-              {importPreview.length} rows from CSV
-            </span>
-          </div>
-          <div className="ims-table-wrapper">
-            <table className="ims-table ims-table--compact">
-              <thead>
-                <tr>
-                  <th>Name</th>
-                  <th>Type</th>
-                  <th>Supplier 1</th>
-                  <th>Supplier 2</th>
-                  <th>Short code</th>
-                  <th>Price / unit</th>
-                  <th>Qty</th>
-                  <th>Total cost</th>
-                </tr>
-              </thead>
-              <tbody>
-                {importPreview.map((row, index) => (
-                  <tr key={`${row.shortCode || row.name}-${index}`}>
-                    <td>{row.name}</td>
-                    <td>{row.type || "–"}</td>
-                    <td>{row.supplier1 || "–"}</td>
-                    <td>{row.supplier2 || "–"}</td>
-                    <td>{row.shortCode || "–"}</td>
-                    <td>£{row.pricePerUnit.toFixed(2)}</td>
-                    <td>{row.quantity || 0}</td>
-                    <td>£{row.totalCost.toFixed(2)}</td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </section>
-      )}
     </main>
   );
 }
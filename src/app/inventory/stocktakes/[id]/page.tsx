@@ -0,0 +1,437 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { collection, getDocs, type Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/app/_components/AuthProvider";
+import {
+  cancelStocktake,
+  fetchStocktake,
+  getStocktakeSystemQty,
+  getStocktakeVariance,
+  postStocktake,
+  saveStocktakeCounts,
+  STOCKTAKE_STATUS_LABELS,
+  type Stocktake,
+} from "@/lib/stocktakes";
+
+const formatDateTime = (ts?: Timestamp | null) => {
+  if (!ts) return "—";
+  try {
+    return ts.toDate().toLocaleString();
+  } catch {
+    return "—";
+  }
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("en-GB", {
+    style: "currency",
+    currency: "GBP",
+    maximumFractionDigits: 2,
+  }).format(value);
+
+const parseCount = (raw: string | undefined) => {
+  if (raw === undefined || raw.trim() === "") return null;
+  const qty = Number(raw);
+  return Number.isFinite(qty) && qty >= 0 ? qty : null;
+};
+
+export default function StocktakeDetailPage() {
+  const params = useParams<{ id: string }>();
+  const stocktakeId = params?.id;
+  const { user, canEdit } = useAuth();
+
+  const [stocktake, setStocktake] = useState<Stocktake | null>(null);
+  const [systemQty, setSystemQty] = useState<Map<string, number>>(new Map());
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [approved, setApproved] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = async () => {
+    if (!stocktakeId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const [session, itemSnap] = await Promise.all([
+        fetchStocktake(stocktakeId),
+        getDocs(collection(db, "items")),
+      ]);
+      if (!session) {
+        setError("Stocktake not found.");
+        setStocktake(null);
+        return;
+      }
+      setStocktake(session);
+      setSystemQty(
+        new Map(
+          itemSnap.docs.map((docSnap) => [
+            docSnap.id,
+            getStocktakeSystemQty(docSnap.data(), session.filters.locationId),
+          ]),
+        ),
+      );
+      setCounts(
+        Object.fromEntries(
+          session.lines.map((line) => [
+            line.itemId,
+            line.countedQty === null ? "" : String(line.countedQty),
+          ]),
+        ),
+      );
+      setApproved(new Set());
+    } catch (err: any) {
+      console.error("Error loading stocktake", err);
+      setError(err?.message ?? "Unable to load this stocktake.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [stocktakeId]);
+
+  const isOpen = stocktake?.status === "counting";
+  const isEditable = Boolean(isOpen && canEdit);
+
+  const rows = useMemo(
+    () =>
+      (stocktake?.lines ?? []).map((line) => {
+        const countedQty = isOpen
+          ? parseCount(counts[line.itemId])
+          : line.countedQty;
+        const currentQty = systemQty.get(line.itemId) ?? 0;
+        const variance = getStocktakeVariance({ countedQty }, currentQty);
+        return {
+          ...line,
+          countedQty,
+          currentQty,
+          variance,
+          valueImpact:
+            variance !== null && line.standardCost !== null
+              ? variance * line.standardCost
+              : null,
+        };
+      }),
+    [stocktake, counts, systemQty, isOpen],
+  );
+
+  const varianceRows = rows.filter((row) => row.variance);
+  const approvedValue = rows
+    .filter((row) => approved.has(row.itemId))
+    .reduce((sum, row) => sum + (row.valueImpact ?? 0), 0);
+  const countedCount = rows.filter((row) => row.countedQty !== null).length;
+
+  const toggleApproved = (itemId: string) => {
+    setApproved((prev) => {
+      const next = new Set(prev);
+      if (next.has(itemId)) {
+        next.delete(itemId);
+      } else {
+        next.add(itemId);
+      }
+      return next;
+    });
+  };
+
+  const handleSaveCounts = async () => {
+    if (!stocktake) return;
+    const invalid = stocktake.lines.find((line) => {
+      const raw = counts[line.itemId];
+      return raw && raw.trim() !== "" && parseCount(raw) === null;
+    });
+    if (invalid) {
+      setError(
+        `Enter a count of zero or more for ${invalid.name || invalid.sku}.`,
+      );
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await saveStocktakeCounts(
+        stocktake.id,
+        Object.fromEntries(
+          stocktake.lines.map((line) => [
+            line.itemId,
+            parseCount(counts[line.itemId]),
+          ]),
+        ),
+      );
+      await load();
+      setMessage("Counts saved.");
+    } catch (err: any) {
+      console.error("Error saving stocktake counts", err);
+      setError(err?.message ?? "Unable to save counts.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!stocktake) return;
+    const unsaved = stocktake.lines.some(
+      (line) => parseCount(counts[line.itemId]) !== line.countedQty,
+    );
+    if (unsaved) {
+      setError("Save the counts before posting adjustments.");
+      return;
+    }
+    if (
+      !window.confirm(
+        `Post ${approved.size} adjustment${approved.size === 1 ? "" : "s"} and close this stocktake?`,
+      )
+    ) {
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const result = await postStocktake({
+        stocktakeId: stocktake.id,
+        approvedItemIds: Array.from(approved),
+        user: user ? { uid: user.uid, email: user.email } : null,
+      });
+      await load();
+      setMessage(
+        `Stocktake posted with ${result.adjustedCount} stock adjustment${result.adjustedCount === 1 ? "" : "s"}.`,
+      );
+    } catch (err: any) {
+      console.error("Error posting stocktake", err);
+      setError(err?.message ?? "Unable to post stocktake.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!stocktake) return;
+    if (!window.confirm("Cancel this stocktake without adjusting stock?")) {
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await cancelStocktake(stocktake.id);
+      await load();
+      setMessage("Stocktake cancelled.");
+    } catch (err: any) {
+      console.error("Error cancelling stocktake", err);
+      setError(err?.message ?? "Unable to cancel stocktake.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <main className="ims-content">
+      <div className="ims-page-header ims-page-header--with-actions">
+        <div>
+          <h1 className="ims-page-title">{stocktake?.name ?? "Stocktake"}</h1>
+          <p className="ims-page-subtitle">
+            {stocktake
+              ? `${STOCKTAKE_STATUS_LABELS[stocktake.status]} · ${stocktake.locationName ?? "All inventory"} · created ${formatDateTime(stocktake.createdAt)}`
+              : "Count session"}
+          </p>
+        </div>
+        <div className="ims-page-actions ims-no-print">
+          <Link href="/inventory/stocktakes" className="ims-secondary-button">
+            ← All stocktakes
+          </Link>
+          {stocktake && (
+            <button
+              type="button"
+              className="ims-secondary-button"
+              onClick={() => window.print()}
+            >
+              Print count sheet
+            </button>
+          )}
+          {isEditable && (
+            <>
+              <button
+                type="button"
+                className="ims-secondary-button"
+                onClick={handleCancel}
+                disabled={saving}
+              >
+                Cancel stocktake
+              </button>
+              <button
+                type="button"
+                className="ims-primary-button"
+                onClick={handleSaveCounts}
+                disabled={saving}
+              >
+                {saving ? "Saving…" : "Save counts"}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {(error || message) && (
+        <div
+          className={
+            "ims-alert ims-no-print " +
+            (error ? "ims-alert--error" : "ims-alert--info")
+          }
+        >
+          {error || message}
+        </div>
+      )}
+
+      {loading ? (
+        <p>Loading stocktake…</p>
+      ) : !stocktake ? null : (
+        <>
+          <section className="card ims-table-card">
+            <div className="ims-table-header">
+              <h2 className="ims-form-section-title">Count sheet</h2>
+              <span className="ims-table-count">
+                {countedCount} of {rows.length} counted
+              </span>
+            </div>
+            <div className="ims-table-wrapper">
+              <table className="ims-table ims-table--compact">
+                <thead>
+                  <tr>
+                    <th>SKU</th>
+                    <th>Item</th>
+                    <th>Expected</th>
+                    <th>Counted</th>
+                    <th className="ims-no-print">
+                      {isOpen ? "System now" : "Adjusted"}
+                    </th>
+                    {isOpen && <th className="ims-no-print">Variance</th>}
+                    {isOpen && <th className="ims-no-print">Value impact</th>}
+                    {isEditable && <th className="ims-no-print">Approve</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.itemId}>
+                      <td>{row.sku || "—"}</td>
+                      <td>{row.name || row.itemId}</td>
+                      <td>{row.expectedQty}</td>
+                      <td>
+                        {isEditable ? (
+                          <input
+                            type="number"
+                            min={0}
+                            className="ims-field-input"
+                            value={counts[row.itemId] ?? ""}
+                            onChange={(e) =>
+                              setCounts((prev) => ({
+                                ...prev,
+                                [row.itemId]: e.target.value,
+                              }))
+                            }
+                          />
+                        ) : (
+                          (row.countedQty ?? "—")
+                        )}
+                      </td>
+                      <td className="ims-no-print">
+                        {isOpen
+                          ? row.currentQty
+                          : row.adjustedQty === null
+                            ? "—"
+                            : row.adjustedQty > 0
+                              ? `+${row.adjustedQty}`
+                              : row.adjustedQty}
+                      </td>
+                      {isOpen && (
+                        <td className="ims-no-print">
+                          {row.variance === null
+                            ? "—"
+                            : row.variance > 0
+                              ? `+${row.variance}`
+                              : row.variance}
+                        </td>
+                      )}
+                      {isOpen && (
+                        <td className="ims-no-print">
+                          {row.valueImpact === null
+                            ? row.variance
+                              ? "No standard cost"
+                              : "—"
+                            : formatCurrency(row.valueImpact)}
+                        </td>
+                      )}
+                      {isEditable && (
+                        <td className="ims-no-print">
+                          <input
+                            type="checkbox"
+                            checked={approved.has(row.itemId)}
+                            disabled={!row.variance}
+                            onChange={() => toggleApproved(row.itemId)}
+                            aria-label={`Approve adjustment for ${row.name || row.sku}`}
+                          />
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          {isEditable && (
+            <section className="card ims-form-section ims-no-print">
+              <h2 className="ims-form-section-title">Review and post</h2>
+              <p className="ims-form-section-subtitle">
+                {varianceRows.length
+                  ? `${varianceRows.length} item${varianceRows.length === 1 ? "" : "s"} differ from system stock, a net value of ${formatCurrency(
+                      varianceRows.reduce(
+                        (sum, row) => sum + (row.valueImpact ?? 0),
+                        0,
+                      ),
+                    )}. Approved adjustments are worth ${formatCurrency(approvedValue)}.`
+                  : "No differences between the counts and system stock."}{" "}
+                Adjustments are calculated against stock at the moment of
+                posting.
+              </p>
+              <div className="ims-form-actions">
+                <button
+                  type="button"
+                  className="ims-secondary-button"
+                  onClick={() =>
+                    setApproved(new Set(varianceRows.map((row) => row.itemId)))
+                  }
+                  disabled={!varianceRows.length}
+                >
+                  Approve all
+                </button>
+                <button
+                  type="button"
+                  className="ims-primary-button"
+                  onClick={handlePost}
+                  disabled={saving}
+                >
+                  Post approved adjustments
+                </button>
+              </div>
+            </section>
+          )}
+
+          {stocktake.status === "posted" && (
+            <p className="ims-field-help">
+              Posted {formatDateTime(stocktake.postedAt)}
+              {stocktake.postedByEmail ? ` by ${stocktake.postedByEmail}` : ""}.
+            </p>
+          )}
+        </>
+      )}
+    </main>
+  );
+}
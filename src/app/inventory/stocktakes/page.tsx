@@ -0,0 +1,291 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { collection, getDocs, type Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/app/_components/AuthProvider";
+import type { InventoryDetailType } from "@/lib/inventoryPaths";
+import {
+  fetchLocations,
+  getLocationPath,
+  type StockLocation,
+} from "@/lib/locations";
+import {
+  createStocktake,
+  fetchStocktakes,
+  STOCKTAKE_STATUS_LABELS,
+  type Stocktake,
+} from "@/lib/stocktakes";
+
+const ITEM_TYPE_OPTIONS: { value: InventoryDetailType; label: string }[] = [
+  { value: "products", label: "Products" },
+  { value: "subAssemblies", label: "Sub-assemblies" },
+  { value: "components", label: "Components" },
+  { value: "sensors", label: "Sensors" },
+  { value: "sensorExtras", label: "Sensor extras" },
+];
+
+const formatDate = (ts?: Timestamp | null) => {
+  if (!ts) return "—";
+  try {
+    return ts.toDate().toLocaleDateString();
+  } catch {
+    return "—";
+  }
+};
+
+export default function StocktakesPage() {
+  const router = useRouter();
+  const { user, canEdit } = useAuth();
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [itemType, setItemType] = useState<InventoryDetailType | "">("");
+  const [category, setCategory] = useState("");
+  const [locationId, setLocationId] = useState("");
+
+  const locationsById = useMemo(
+    () => new Map(locations.map((location) => [location.id, location])),
+    [locations],
+  );
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [sessions, locationRows, itemSnap] = await Promise.all([
+          fetchStocktakes(),
+          fetchLocations(),
+          getDocs(collection(db, "items")),
+        ]);
+        setStocktakes(sessions);
+        setLocations(locationRows);
+        setCategories(
+          Array.from(
+            new Set(
+              itemSnap.docs
+                .map((docSnap) => String(docSnap.data().category ?? "").trim())
+                .filter(Boolean),
+            ),
+          ).sort((a, b) => a.localeCompare(b)),
+        );
+      } catch (err: any) {
+        console.error("Error loading stocktakes", err);
+        setError(err?.message ?? "Unable to load stocktakes.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setCreating(true);
+    setError(null);
+    try {
+      const stocktakeId = await createStocktake({
+        name,
+        filters: {
+          itemType: itemType || null,
+          category: category || null,
+          locationId: locationId || null,
+        },
+        locationName: locationId
+          ? getLocationPath(locationId, locationsById)
+          : null,
+        user: user ? { uid: user.uid, email: user.email } : null,
+      });
+      router.push(`/inventory/stocktakes/${stocktakeId}`);
+    } catch (err: any) {
+      console.error("Error creating stocktake", err);
+      setError(err?.message ?? "Unable to create stocktake.");
+      setCreating(false);
+    }
+  };
+
+  const describeScope = (stocktake: Stocktake) =>
+    [
+      ITEM_TYPE_OPTIONS.find(
+        (option) => option.value === stocktake.filters.itemType,
+      )?.label,
+      stocktake.filters.category,
+      stocktake.locationName,
+    ]
+      .filter(Boolean)
+      .join(" · ") || "All items";
+
+  return (
+    <main className="ims-content">
+      <div className="ims-page-header ims-page-header--with-actions">
+        <div>
+          <h1 className="ims-page-title">Stocktakes</h1>
+          <p className="ims-page-subtitle">
+            Count what is physically on the shelf, review the differences and
+            post approved adjustments to the stock ledger.
+          </p>
+        </div>
+        <div className="ims-page-actions">
+          <Link href="/inventory" className="ims-secondary-button">
+            ← Back to inventory
+          </Link>
+        </div>
+      </div>
+
+      {error && <div className="ims-alert ims-alert--error">{error}</div>}
+
+      {canEdit && (
+        <form className="card ims-form-section" onSubmit={handleCreate}>
+          <h2 className="ims-form-section-title">New count session</h2>
+          <p className="ims-form-section-subtitle">
+            Pick the items to count. Leave a filter empty to include
+            everything.
+          </p>
+          <div className="ims-field">
+            <label className="ims-field-label" htmlFor="stocktakeName">
+              Name<span className="ims-required">*</span>
+            </label>
+            <input
+              id="stocktakeName"
+              className="ims-field-input"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Q3 sensor count"
+            />
+          </div>
+          <div className="ims-field-row">
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="stocktakeType">
+                Item type
+              </label>
+              <select
+                id="stocktakeType"
+                className="ims-field-input"
+                value={itemType}
+                onChange={(e) =>
+                  setItemType(e.target.value as InventoryDetailType | "")
+                }
+              >
+                <option value="">All types</option>
+                {ITEM_TYPE_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="stocktakeCategory">
+                Category
+              </label>
+              <select
+                id="stocktakeCategory"
+                className="ims-field-input"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+              >
+                <option value="">All categories</option>
+                {categories.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="ims-field">
+              <label className="ims-field-label" htmlFor="stocktakeLocation">
+                Location
+              </label>
+              <select
+                id="stocktakeLocation"
+                className="ims-field-input"
+                value={locationId}
+                onChange={(e) => setLocationId(e.target.value)}
+              >
+                <option value="">All inventory</option>
+                {locations
+                  .filter((location) => location.active)
+                  .map((location) => (
+                    <option key={location.id} value={location.id}>
+                      {getLocationPath(location.id, locationsById)}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          </div>
+          <div className="ims-form-actions">
+            <button
+              type="submit"
+              className="ims-primary-button"
+              disabled={creating}
+            >
+              {creating ? "Creating…" : "Start count"}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <section className="card ims-table-card">
+        <div className="ims-table-header">
+          <h2 className="ims-form-section-title">Sessions</h2>
+          <span className="ims-table-count">
+            {stocktakes.length} session{stocktakes.length === 1 ? "" : "s"}
+          </span>
+        </div>
+        {loading ? (
+          <p className="ims-table-empty">Loading stocktakes…</p>
+        ) : stocktakes.length === 0 ? (
+          <p className="ims-table-empty">No stocktakes recorded yet.</p>
+        ) : (
+          <div className="ims-table-wrapper">
+            <table className="ims-table ims-table--compact">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Scope</th>
+                  <th>Status</th>
+                  <th>Counted</th>
+                  <th>Created</th>
+                  <th>Posted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stocktakes.map((stocktake) => (
+                  <tr key={stocktake.id}>
+                    <td>
+                      <Link
+                        href={`/inventory/stocktakes/${stocktake.id}`}
+                        className="ims-table-link"
+                      >
+                        {stocktake.name}
+                      </Link>
+                    </td>
+                    <td>{describeScope(stocktake)}</td>
+                    <td>{STOCKTAKE_STATUS_LABELS[stocktake.status]}</td>
+                    <td>
+                      {
+                        stocktake.lines.filter(
+                          (line) => line.countedQty !== null,
+                        ).length
+                      }{" "}
+                      / {stocktake.lines.length}
+                    </td>
+                    <td>{formatDate(stocktake.createdAt)}</td>
+                    <td>{formatDate(stocktake.postedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,294 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { doc, getDoc, type Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/app/_components/AuthProvider";
+import { getInventoryDetailPath } from "@/lib/inventoryPaths";
+import {
+  fetchItemUnit,
+  fetchItemUnitEvents,
+  ITEM_UNIT_STATUS_LABELS,
+  ITEM_UNIT_STATUSES,
+  updateItemUnitStatus,
+  type ItemUnit,
+  type ItemUnitEvent,
+  type ItemUnitStatus,
+} from "@/lib/itemUnits";
+
+const formatDateTime = (ts?: Timestamp | null) => {
+  if (!ts) return "—";
+  try {
+    return ts.toDate().toLocaleString();
+  } catch {
+    return "—";
+  }
+};
+
+export default function ItemUnitDetailPage() {
+  const params = useParams<{ id: string }>();
+  const unitId = params?.id;
+  const { user, canEdit } = useAuth();
+
+  const [unit, setUnit] = useState<ItemUnit | null>(null);
+  const [item, setItem] = useState<{ name: string; itemType: string | null } | null>(
+    null,
+  );
+  const [events, setEvents] = useState<ItemUnitEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [nextStatus, setNextStatus] = useState<ItemUnitStatus>("in_stock");
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const load = async () => {
+    if (!unitId) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded = await fetchItemUnit(unitId);
+      if (!loaded) {
+        setError("Unit not found.");
+        setUnit(null);
+        return;
+      }
+      const [history, itemSnap] = await Promise.all([
+        fetchItemUnitEvents(unitId),
+        loaded.itemId ? getDoc(doc(db, "items", loaded.itemId)) : null,
+      ]);
+      setUnit(loaded);
+      setNextStatus(loaded.status);
+      setEvents(history);
+      if (itemSnap?.exists()) {
+        const data = itemSnap.data() as any;
+        setItem({ name: data.name ?? "", itemType: data.itemType ?? null });
+      } else {
+        setItem(null);
+      }
+    } catch (err: any) {
+      console.error("Error loading unit", err);
+      setError(err?.message ?? "Unable to load this unit.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [unitId]);
+
+  const handleStatusSave = async () => {
+    if (!unit || nextStatus === unit.status) return;
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await updateItemUnitStatus({
+        unitId: unit.id,
+        status: nextStatus,
+        note: note.trim() || null,
+        user: user ? { uid: user.uid, email: user.email } : null,
+      });
+      setNote("");
+      await load();
+      setMessage("Unit status updated.");
+    } catch (err: any) {
+      console.error("Error updating unit status", err);
+      setError(err?.message ?? "Unable to update unit status.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <main className="ims-content">
+      <div className="ims-page-header ims-page-header--with-actions">
+        <div>
+          <h1 className="ims-page-title">{unit?.unitCode ?? "Unit"}</h1>
+          <p className="ims-page-subtitle">
+            Where this unit came from and everything that has happened to it
+            since.
+          </p>
+        </div>
+        <div className="ims-page-actions">
+          <Link href="/inventory/units" className="ims-secondary-button">
+            ← All units
+          </Link>
+        </div>
+      </div>
+
+      {(error || message) && (
+        <div
+          className={
+            "ims-alert " + (error ? "ims-alert--error" : "ims-alert--info")
+          }
+        >
+          {error || message}
+        </div>
+      )}
+
+      {loading ? (
+        <p>Loading unit…</p>
+      ) : !unit ? null : (
+        <>
+          <section className="card ims-form-section">
+            <h2 className="ims-form-section-title">Unit summary</h2>
+            <div className="ims-field-row">
+              <div className="ims-field">
+                <span className="ims-field-label">Item</span>
+                <div>
+                  {item ? (
+                    <Link
+                      href={getInventoryDetailPath(unit.itemId, item.itemType)}
+                      className="ims-table-link"
+                    >
+                      {item.name || unit.sku}
+                    </Link>
+                  ) : (
+                    unit.sku || "—"
+                  )}
+                </div>
+              </div>
+              <div className="ims-field">
+                <span className="ims-field-label">Status</span>
+                <div>{ITEM_UNIT_STATUS_LABELS[unit.status]}</div>
+              </div>
+            </div>
+            <div className="ims-field-row">
+              <div className="ims-field">
+                <span className="ims-field-label">Project</span>
+                <div>
+                  {unit.projectId ? (
+                    <Link
+                      href={`/projects/${unit.projectId}`}
+                      className="ims-table-link"
+                    >
+                      {unit.projectName || unit.projectId}
+                    </Link>
+                  ) : (
+                    "—"
+                  )}
+                </div>
+              </div>
+              <div className="ims-field">
+                <span className="ims-field-label">Purchase</span>
+                <div>
+                  {unit.purchaseId ? (
+                    <Link
+                      href={`/purchasing/${unit.purchaseId}`}
+                      className="ims-table-link"
+                    >
+                      View purchase
+                    </Link>
+                  ) : (
+                    "—"
+                  )}
+                </div>
+              </div>
+            </div>
+
+            {canEdit && (
+              <>
+                <hr className="ims-form-divider" />
+                <div className="ims-form-section-title">Change status</div>
+                <p className="ims-form-section-subtitle">
+                  Record a return or write-off. Project moves update units
+                  automatically, and stock quantities are not changed here.
+                </p>
+                <div className="ims-field-row">
+                  <div className="ims-field">
+                    <label className="ims-field-label" htmlFor="unitStatus">
+                      Status
+                    </label>
+                    <select
+                      id="unitStatus"
+                      className="ims-field-input"
+                      value={nextStatus}
+                      onChange={(e) =>
+                        setNextStatus(e.target.value as ItemUnitStatus)
+                      }
+                    >
+                      {ITEM_UNIT_STATUSES.map((status) => (
+                        <option key={status} value={status}>
+                          {ITEM_UNIT_STATUS_LABELS[status]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="ims-field">
+                    <label className="ims-field-label" htmlFor="unitNote">
+                      Note
+                    </label>
+                    <input
+                      id="unitNote"
+                      className="ims-field-input"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      placeholder="RMA number, reason…"
+                    />
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  className="ims-primary-button"
+                  onClick={handleStatusSave}
+                  disabled={saving || nextStatus === unit.status}
+                >
+                  {saving ? "Saving…" : "Update status"}
+                </button>
+              </>
+            )}
+          </section>
+
+          <section className="card ims-table-card">
+            <div className="ims-table-header">
+              <h2 className="ims-form-section-title">History</h2>
+              <span className="ims-table-count">
+                {events.length} event{events.length === 1 ? "" : "s"}
+              </span>
+            </div>
+            {events.length === 0 ? (
+              <p className="ims-table-empty">
+                No history recorded for this unit.
+              </p>
+            ) : (
+              <div className="ims-table-wrapper">
+                <table className="ims-table ims-table--compact">
+                  <thead>
+                    <tr>
+                      <th>When</th>
+                      <th>Change</th>
+                      <th>Project</th>
+                      <th>Note</th>
+                      <th>By</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {events.map((event) => (
+                      <tr key={event.id}>
+                        <td>{formatDateTime(event.createdAt)}</td>
+                        <td>
+                          {event.fromStatus
+                            ? `${ITEM_UNIT_STATUS_LABELS[event.fromStatus]} → `
+                            : ""}
+                          {ITEM_UNIT_STATUS_LABELS[event.toStatus]}
+                        </td>
+                        <td>{event.projectName || "—"}</td>
+                        <td>{event.note || "—"}</td>
+                        <td>{event.userEmail || "—"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </main>
+  );
+}
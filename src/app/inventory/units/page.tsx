@@ -0,0 +1,217 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { getInventoryDetailPath } from "@/lib/inventoryPaths";
+import {
+  fetchItemUnits,
+  ITEM_UNIT_STATUS_LABELS,
+  ITEM_UNIT_STATUSES,
+  type ItemUnit,
+  type ItemUnitStatus,
+} from "@/lib/itemUnits";
+
+type ItemSummary = {
+  name: string;
+  itemType: string | null;
+};
+
+export default function ItemUnitsPage() {
+  const [units, setUnits] = useState<ItemUnit[]>([]);
+  const [items, setItems] = useState<Map<string, ItemSummary>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<ItemUnitStatus | "all">(
+    "all",
+  );
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [unitRows, itemSnap] = await Promise.all([
+          fetchItemUnits(),
+          getDocs(collection(db, "items")),
+        ]);
+        setUnits(unitRows);
+        setItems(
+          new Map(
+            itemSnap.docs.map((docSnap) => {
+              const data = docSnap.data() as any;
+              return [
+                docSnap.id,
+                { name: data.name ?? "", itemType: data.itemType ?? null },
+              ];
+            }),
+          ),
+        );
+      } catch (err: any) {
+        console.error("Error loading item units", err);
+        setError(err?.message ?? "Unable to load serialized units.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const statusCounts = useMemo(() => {
+    const counts = Object.fromEntries(
+      ITEM_UNIT_STATUSES.map((status) => [status, 0]),
+    ) as Record<ItemUnitStatus, number>;
+    units.forEach((unit) => {
+      counts[unit.status] += 1;
+    });
+    return counts;
+  }, [units]);
+
+  const visibleUnits = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return units.filter((unit) => {
+      if (statusFilter !== "all" && unit.status !== statusFilter) return false;
+      if (!term) return true;
+      const itemName = items.get(unit.itemId)?.name ?? "";
+      return (
+        unit.unitCode.toLowerCase().includes(term) ||
+        itemName.toLowerCase().includes(term) ||
+        (unit.projectName ?? "").toLowerCase().includes(term)
+      );
+    });
+  }, [units, items, search, statusFilter]);
+
+  return (
+    <main className="ims-content">
+      <div className="ims-page-header ims-page-header--with-actions">
+        <div>
+          <h1 className="ims-page-title">Serialized units</h1>
+          <p className="ims-page-subtitle">
+            Every unit code received for items that track serial numbers, and
+            where each one is now.
+          </p>
+        </div>
+        <div className="ims-page-actions" style={{ gap: "0.5rem" }}>
+          <input
+            type="text"
+            className="ims-field-input"
+            placeholder="Search by unit code, item or project…"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            style={{ minWidth: "260px" }}
+          />
+          <Link href="/inventory" className="ims-secondary-button">
+            ← Back to inventory
+          </Link>
+        </div>
+      </div>
+
+      {error && <div className="ims-alert ims-alert--error">{error}</div>}
+
+      <div className="ims-tab-bar">
+        {(["all", ...ITEM_UNIT_STATUSES] as const).map((status) => {
+          const isActive = status === statusFilter;
+          return (
+            <button
+              key={status}
+              type="button"
+              className={
+                "ims-tab-button" + (isActive ? " ims-tab-button--active" : "")
+              }
+              onClick={() => setStatusFilter(status)}
+              aria-pressed={isActive}
+            >
+              <span>
+                {status === "all" ? "All" : ITEM_UNIT_STATUS_LABELS[status]}
+              </span>
+              <span className="ims-tab-count">
+                {status === "all" ? units.length : statusCounts[status]}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <section className="card ims-table-card">
+        {loading ? (
+          <p className="ims-table-empty">Loading units…</p>
+        ) : visibleUnits.length === 0 ? (
+          <p className="ims-table-empty">No units match.</p>
+        ) : (
+          <div className="ims-table-wrapper">
+            <table className="ims-table ims-table--compact">
+              <thead>
+                <tr>
+                  <th>Unit code</th>
+                  <th>Item</th>
+                  <th>Status</th>
+                  <th>Project</th>
+                  <th>Purchase</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleUnits.map((unit) => {
+                  const item = items.get(unit.itemId);
+                  return (
+                    <tr key={unit.id}>
+                      <td>
+                        <Link
+                          href={`/inventory/units/${unit.id}`}
+                          className="ims-table-link"
+                        >
+                          {unit.unitCode}
+                        </Link>
+                      </td>
+                      <td>
+                        {item ? (
+                          <Link
+                            href={getInventoryDetailPath(
+                              unit.itemId,
+                              item.itemType,
+                            )}
+                            className="ims-table-link"
+                          >
+                            {item.name || unit.sku}
+                          </Link>
+                        ) : (
+                          unit.sku || "—"
+                        )}
+                      </td>
+                      <td>{ITEM_UNIT_STATUS_LABELS[unit.status]}</td>
+                      <td>
+                        {unit.projectId ? (
+                          <Link
+                            href={`/projects/${unit.projectId}`}
+                            className="ims-table-link"
+                          >
+                            {unit.projectName || unit.projectId}
+                          </Link>
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                      <td>
+                        {unit.purchaseId ? (
+                          <Link
+                            href={`/purchasing/${unit.purchaseId}`}
+                            className="ims-table-link"
+                          >
+                            View purchase
+                          </Link>
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
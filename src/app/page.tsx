@@ -1,7 +1,7 @@
 // src/app/page.tsx
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { db } from "@/lib/firebase";
 import { collection, getDocs, query, orderBy } from "firebase/firestore";
@@ -10,6 +10,12 @@ import {
   normalizeItemType,
   type InventoryDetailType,
 } from "@/lib/inventoryPaths";
+import {
+  fetchLocations,
+  getItemLocationQuantities,
+  getLocationPath,
+  type StockLocation,
+} from "@/lib/locations";
 
 type DashboardItem = {
   id: string;
@@ -24,6 +30,7 @@ type DashboardItem = {
   wipQty?: number | null;
   completedQty?: number | null;
   location?: string | null;
+  locationQty: Record<string, number>;
   lowStockThreshold?: number | null;
 };
 
@@ -72,6 +79,7 @@ const deriveDetailType = (item: DashboardItem): InventoryDetailType => {
 
 export default function HomePage() {
   const [items, setItems] = useState<DashboardItem[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeView, setActiveView] = useState<ActiveView>("total");
@@ -83,7 +91,11 @@ export default function HomePage() {
       try {
         const ref = collection(db, "items");
         const q = query(ref, orderBy("sku"));
-        const snapshot = await getDocs(q);
+        const [snapshot, locationRows] = await Promise.all([
+          getDocs(q),
+          fetchLocations(),
+        ]);
+        setLocations(locationRows);
         const rows: DashboardItem[] = snapshot.docs.map((doc) => {
           const data = doc.data() as any;
           return {
@@ -113,6 +125,7 @@ export default function HomePage() {
               (data.location as string) ??
               (data.primaryLocation as string) ??
               null,
+            locationQty: getItemLocationQuantities(data),
             lowStockThreshold:
               typeof data.lowStockThreshold === "number"
                 ? data.lowStockThreshold
@@ -140,6 +153,24 @@ export default function HomePage() {
     return inv + res + wip + completed;
   };
 
+  const locationsById = useMemo(
+    () => new Map(locations.map((location) => [location.id, location])),
+    [locations],
+  );
+
+  // Per-location quantities when stock has been put away, otherwise the
+  // older free-text location on the item.
+  const describeItemLocations = (item: DashboardItem) => {
+    const entries = Object.entries(item.locationQty);
+    if (!entries.length) return item.location || "—";
+    return entries
+      .map(
+        ([locationId, qty]) =>
+          `${getLocationPath(locationId, locationsById) || locationId} (${qty})`,
+      )
+      .join(", ");
+  };
+
   const totalProducts = items.length;
 
   const lowStockItems = items.filter((item) => {
@@ -180,7 +211,7 @@ export default function HomePage() {
     case "locations":
       tableTitle = "Products by location";
       tableDescription =
-        "Products and their primary locations, with stock split by inventory, reserved, WIP and completed.";
+        "Products and where their inventory is held, with stock split by inventory, reserved, WIP and completed.";
       tableItems = items;
       break;
     case "total":
@@ -449,7 +480,7 @@ export default function HomePage() {
                       </td>
                       <td>{detailLabel}</td>
                       <td>{item.sku}</td>
-                      <td>{item.location || "—"}</td>
+                      <td>{describeItemLocations(item)}</td>
                       <td>{inv}</td>
                       <td>{res}</td>
                       <td>{wip}</td>
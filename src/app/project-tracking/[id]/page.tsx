@@ -184,7 +184,11 @@ export default function ProjectTrackingDetailPage() {
     setActionError(null);
     setActionMessage(null);
     try {
-      await replenishTrackedProduct(record.id, Timestamp.fromDate(parsed));
+      await replenishTrackedProduct(
+        record.id,
+        Timestamp.fromDate(parsed),
+        user ? { uid: user.uid, email: user.email } : null,
+      );
       const now = Timestamp.now();
       setRecord((prev) =>
         prev
@@ -14,6 +14,12 @@ import {
   Timestamp,
 } from "firebase/firestore";
 import { replenishTrackedProduct } from "@/lib/productTracking";
+import {
+  downloadExport,
+  type ExportColumn,
+  type ExportFormat,
+} from "@/lib/exports";
+import ExportButtons from "@/app/_components/ExportButtons";
 
 type ProductTrackingRecord = {
   id: string;
@@ -60,6 +66,50 @@ const formatNumber = (value?: number | null) => {
   return new Intl.NumberFormat().format(value);
 };
 
+const TRACKING_STATUS_LABELS: Record<ProductTrackingRecord["status"], string> =
+  {
+    ok: "OK",
+    warning: "Due soon",
+    overdue: "Overdue",
+    replenished: "Replenished",
+  };
+
+const trackingExportColumns: ExportColumn<ProductTrackingRecord>[] = [
+  { label: "Project", value: (record) => record.projectName },
+  { label: "Product", value: (record) => record.itemName },
+  {
+    label: "Type",
+    value: (record) =>
+      PROJECT_ITEM_LABELS[
+        (record.itemType as keyof typeof PROJECT_ITEM_LABELS) ?? "components"
+      ] ?? "Item",
+  },
+  { label: "Qty", kind: "number", value: (record) => record.quantity },
+  {
+    label: "Useful life (months)",
+    kind: "number",
+    value: (record) => record.usefulLifeMonths,
+  },
+  {
+    label: "Replacements per year",
+    kind: "number",
+    value: (record) => record.replacementFrequencyPerYear,
+  },
+  { label: "Completed", kind: "date", value: (record) => record.completedAt },
+  { label: "Replace by", kind: "date", value: (record) => record.replaceBy },
+  {
+    label: "Days remaining",
+    kind: "number",
+    value: (record) => record.daysRemaining,
+  },
+  { label: "Status", value: (record) => TRACKING_STATUS_LABELS[record.status] },
+  {
+    label: "Replenished",
+    kind: "date",
+    value: (record) => record.replenishedAt,
+  },
+];
+
 export default function ProductTrackingPage() {
   const [records, setRecords] = useState<ProductTrackingRecord[]>([]);
   const [loading, setLoading] = useState(true);
@@ -146,7 +196,7 @@ export default function ProductTrackingPage() {
 
   return (
     <main className="ims-content">
-      <div className="ims-page-header">
+      <div className="ims-page-header ims-page-header--with-actions">
         <div>
           <h1 className="ims-page-title">Product Tracking</h1>
           <p className="ims-page-subtitle">
@@ -154,6 +204,20 @@ export default function ProductTrackingPage() {
             replacement timelines.
           </p>
         </div>
+        <div className="ims-page-actions">
+          <ExportButtons
+            onExport={(format: ExportFormat) =>
+              downloadExport({
+                baseName: "product-tracking",
+                format,
+                sheetName: "Product tracking",
+                columns: trackingExportColumns,
+                rows: upcoming,
+              })
+            }
+            disabled={loading || records.length === 0}
+          />
+        </div>
       </div>
 
       {actionError && (
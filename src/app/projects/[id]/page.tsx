@@ -8,9 +8,8 @@ import {
   doc,
   getDoc,
   Timestamp,
-  writeBatch,
-  increment,
 } from "firebase/firestore";
+import { useAuth } from "@/app/_components/AuthProvider";
 import {
   ProjectItemLine,
   ProjectItemsByType,
@@ -18,12 +17,26 @@ import {
   parseProjectItems,
   flattenProjectItems,
 } from "../_projectItemUtils";
+import {
+  describeTransitionResult,
+  requestProjectStatusChange,
+} from "../_projectStatusRequest";
+import ProjectLinesEditor from "../_components/ProjectLinesEditor";
+import ProjectCancellationCard from "../_components/ProjectCancellationCard";
+import ProjectUnitsCard from "../_components/ProjectUnitsCard";
+import {
+  CANCELLABLE_STATUSES,
+  type ProjectStatus,
+} from "@/lib/projectPipeline";
 
 type Project = {
   id: string;
   name: string;
-  status: "wip" | "complete";
+  status: ProjectStatus;
   hubspotDealId?: string | null;
+  cancellationReason?: string | null;
+  cancelledAt?: Timestamp | null;
+  locationName?: string | null;
   items: ProjectItemLine[];
   itemsByType: ProjectItemsByType;
   createdAt?: Timestamp | null;
@@ -45,11 +58,15 @@ type SubAssemblyEntry = {
 export default function ProjectDetailPage() {
   const params = useParams<{ id: string }>();
   const router = useRouter();
+  const { canEdit } = useAuth();
   const id = params.id;
 
   const [project, setProject] = useState<Project | null>(null);
   const [loading, setLoading] = useState(true);
   const [moving, setMoving] = useState(false);
+  const [editingLines, setEditingLines] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [selectedUnitIds, setSelectedUnitIds] = useState<string[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [message, setMessage] = useState<string | null>(null);
   const [subAssemblyComponents, setSubAssemblyComponents] = useState<
@@ -95,8 +112,11 @@ export default function ProjectDetailPage() {
       const proj: Project = {
         id: snap.id,
         name: data.name ?? "",
-        status: (data.status as "wip" | "complete") ?? "wip",
+        status: (data.status as ProjectStatus) ?? "wip",
         hubspotDealId: data.hubspotDealId ?? null,
+        cancellationReason: data.cancellationReason ?? null,
+        locationName: data.locationName ?? null,
+        cancelledAt: data.cancelledAt ?? null,
         items: flattenedItems,
         itemsByType: structuredItems,
         createdAt: data.createdAt ?? null,
@@ -332,47 +352,13 @@ export default function ProjectDetailPage() {
     setMessage(null);
 
     try {
-      const now = Timestamp.now();
-      const batch = writeBatch(db);
-
-      const projRef = doc(db, "projects", project.id);
-      batch.update(projRef, {
-        status: targetStatus,
-        updatedAt: now,
-      });
-
-      const isToComplete = targetStatus === "complete";
-
-      project.items.forEach((line) => {
-        const qty = line.qty || 0;
-        if (!line.itemId || !qty) return;
-
-        const itemRef = doc(db, "items", line.itemId);
-        const wipDelta = isToComplete ? -qty : qty;
-        const completedDelta = isToComplete ? qty : -qty;
-
-        batch.update(itemRef, {
-          wipQty: increment(wipDelta),
-          completedQty: increment(completedDelta),
-          updatedAt: now,
-        });
-
-        if (line.mustHaveItemId && line.mustHaveQty && line.mustHaveQty > 0) {
-          const mQty = line.mustHaveQty;
-          const mustRef = doc(db, "items", line.mustHaveItemId);
-          const mWipDelta = isToComplete ? -mQty : mQty;
-          const mCompletedDelta = isToComplete ? mQty : -mQty;
-
-          batch.update(mustRef, {
-            wipQty: increment(mWipDelta),
-            completedQty: increment(mCompletedDelta),
-            updatedAt: now,
-          });
-        }
-      });
-
-      await batch.commit();
-      setMessage("Project status and stock updated.");
+      const result = await requestProjectStatusChange(
+        project,
+        targetStatus,
+        { unitIds: selectedUnitIds },
+      );
+      setSelectedUnitIds([]);
+      setMessage(describeTransitionResult(result));
       // refresh local state
       await loadProject();
     } catch (err: any) {
@@ -418,6 +404,10 @@ export default function ProjectDetailPage() {
     <span className="ims-status-tag ims-status-tag--active">
       Complete
     </span>
+  ) : project?.status === "cancelled" ? (
+    <span className="ims-status-tag ims-status-tag--inactive">
+      Cancelled
+    </span>
   ) : (
     <span className="ims-status-tag ims-status-tag--inactive">
       WIP
@@ -473,6 +463,32 @@ export default function ProjectDetailPage() {
               >
                 ← Back to board
               </button>
+              {canEdit &&
+                !editingLines &&
+                !cancelling &&
+                project.status !== "cancelled" && (
+                  <button
+                    type="button"
+                    className="ims-secondary-button"
+                    disabled={moving}
+                    onClick={() => setEditingLines(true)}
+                  >
+                    Edit lines
+                  </button>
+                )}
+              {canEdit &&
+                !editingLines &&
+                !cancelling &&
+                CANCELLABLE_STATUSES.includes(project.status) && (
+                  <button
+                    type="button"
+                    className="ims-secondary-button"
+                    disabled={moving}
+                    onClick={() => setCancelling(true)}
+                  >
+                    Cancel project
+                  </button>
+                )}
               {project.status === "wip" ? (
                 <button
                   type="button"
@@ -482,7 +498,7 @@ export default function ProjectDetailPage() {
                 >
                   {moving ? "Updating…" : "Mark as complete"}
                 </button>
-              ) : (
+              ) : project.status !== "cancelled" ? (
                 <button
                   type="button"
                   className="ims-primary-button"
@@ -491,7 +507,7 @@ export default function ProjectDetailPage() {
                 >
                   {moving ? "Updating…" : "Move back to WIP"}
                 </button>
-              )}
+              ) : null}
             </div>
           </section>
 
@@ -535,10 +551,29 @@ export default function ProjectDetailPage() {
               </div>
             </div>
 
-            <div className="ims-field">
-              <span className="ims-field-label">Last updated</span>
-              <div>{formatDate(project.updatedAt)}</div>
+            <div className="ims-field-row">
+              <div className="ims-field">
+                <span className="ims-field-label">Stock location</span>
+                <div>{project.locationName || "Unassigned"}</div>
+              </div>
+              <div className="ims-field">
+                <span className="ims-field-label">Last updated</span>
+                <div>{formatDate(project.updatedAt)}</div>
+              </div>
             </div>
+
+            {project.status === "cancelled" && (
+              <div className="ims-field-row">
+                <div className="ims-field">
+                  <span className="ims-field-label">Cancellation reason</span>
+                  <div>{project.cancellationReason || "—"}</div>
+                </div>
+                <div className="ims-field">
+                  <span className="ims-field-label">Cancelled</span>
+                  <div>{formatDate(project.cancelledAt)}</div>
+                </div>
+              </div>
+            )}
           </section>
           {project.hubspotDealId && (
             <section className="card ims-form-section" style={{ marginBottom: "1rem" }}>
@@ -595,6 +630,43 @@ export default function ProjectDetailPage() {
             </section>
           )}
 
+          {cancelling && (
+            <ProjectCancellationCard
+              project={project}
+              onClose={() => setCancelling(false)}
+              onCancelled={async (result) => {
+                setCancelling(false);
+                await loadProject();
+                setMessage(describeTransitionResult(result));
+              }}
+            />
+          )}
+
+          {canEdit && project.status !== "cancelled" && (
+            <ProjectUnitsCard
+              project={project}
+              selectedUnitIds={selectedUnitIds}
+              onSelectionChange={setSelectedUnitIds}
+            />
+          )}
+
+          {editingLines && (
+            <ProjectLinesEditor
+              project={project}
+              onCancel={() => setEditingLines(false)}
+              onSaved={async (deltas) => {
+                setEditingLines(false);
+                setSelectedUnitIds([]);
+                await loadProject();
+                setMessage(
+                  deltas.length
+                    ? `Project lines saved and ${deltas.length} item${deltas.length === 1 ? "" : "s"} rebalanced.`
+                    : "Project lines saved. No stock changes were needed.",
+                );
+              }}
+            />
+          )}
+
           {/* Products */}
           <section className="card ims-table-card">
             <div className="ims-table-header">
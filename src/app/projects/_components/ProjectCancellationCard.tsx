@@ -0,0 +1,169 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { Timestamp } from "firebase/firestore";
+import type { ProjectStatus } from "@/lib/projectPipeline";
+import { computeProjectLineDeltas } from "@/lib/projectLineEdits";
+import type { ProjectStatusTransitionResult } from "@/lib/projectStatusTransitions";
+import type { ProjectItemLine } from "../_projectItemUtils";
+import { requestProjectStatusChange } from "../_projectStatusRequest";
+
+type ProjectCancellationCardProps = {
+  project: {
+    id: string;
+    status: ProjectStatus;
+    items: ProjectItemLine[];
+    updatedAt?: Timestamp | null;
+  };
+  onClose: () => void;
+  onCancelled: (result: ProjectStatusTransitionResult) => void;
+};
+
+/**
+ * Cancel a reserved or WIP project. Its stock goes back to inventory; for WIP
+ * projects part of each item can be marked as scrapped instead.
+ */
+export default function ProjectCancellationCard({
+  project,
+  onClose,
+  onCancelled,
+}: ProjectCancellationCardProps) {
+  const [reason, setReason] = useState("");
+  const [scrap, setScrap] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const allowScrap = project.status === "wip";
+  const lineTotals = useMemo(
+    () => computeProjectLineDeltas(project.items, []),
+    [project.items],
+  );
+
+  const handleSubmit = async () => {
+    if (!reason.trim()) {
+      setError("Enter a reason for cancelling the project.");
+      return;
+    }
+    const scrapQuantities: Record<string, number> = {};
+    for (const row of lineTotals) {
+      const raw = scrap[row.itemId];
+      if (!allowScrap || !raw) continue;
+      const qty = Number(raw);
+      if (!Number.isFinite(qty) || qty < 0 || qty > row.previousQty) {
+        setError(
+          `Scrap for ${row.itemName || row.itemId} must be between 0 and ${row.previousQty}.`,
+        );
+        return;
+      }
+      if (qty > 0) scrapQuantities[row.itemId] = qty;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      const result = await requestProjectStatusChange(
+        project,
+        "cancelled",
+        { cancellation: { reason: reason.trim(), scrap: scrapQuantities } },
+      );
+      onCancelled(result);
+    } catch (err: any) {
+      console.error("Error cancelling project", err);
+      setError(err?.message ?? "Unable to cancel project.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="card ims-form-section" style={{ marginBottom: "1rem" }}>
+      <div className="ims-table-header">
+        <div>
+          <h2 className="ims-form-section-title">Cancel project</h2>
+          <p className="ims-form-section-subtitle">
+            Stock held for this project returns to inventory
+            {allowScrap ? " unless it is marked as scrapped below" : ""}. Open
+            product tracking records are removed.
+          </p>
+        </div>
+        <div className="ims-page-actions">
+          <button
+            type="button"
+            className="ims-secondary-button"
+            onClick={onClose}
+            disabled={saving}
+          >
+            Keep project
+          </button>
+          <button
+            type="button"
+            className="ims-primary-button"
+            onClick={handleSubmit}
+            disabled={saving}
+          >
+            {saving ? "Cancelling…" : "Cancel project"}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="ims-alert ims-alert--error">{error}</div>}
+
+      <div className="ims-field">
+        <label className="ims-field-label" htmlFor="cancellationReason">
+          Reason
+        </label>
+        <textarea
+          id="cancellationReason"
+          className="ims-field-input"
+          rows={3}
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+      </div>
+
+      {lineTotals.length > 0 && (
+        <div className="ims-table-wrapper">
+          <table className="ims-table ims-table--compact">
+            <thead>
+              <tr>
+                <th>Item</th>
+                <th>Held</th>
+                {allowScrap && <th>Scrapped</th>}
+                <th>Back to inventory</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lineTotals.map((row) => {
+                const scrapQty = allowScrap ? Number(scrap[row.itemId]) || 0 : 0;
+                return (
+                  <tr key={row.itemId}>
+                    <td>{row.itemName || row.itemId}</td>
+                    <td>{row.previousQty}</td>
+                    {allowScrap && (
+                      <td>
+                        <input
+                          type="number"
+                          min={0}
+                          max={row.previousQty}
+                          className="ims-field-input"
+                          value={scrap[row.itemId] ?? ""}
+                          onChange={(e) =>
+                            setScrap((prev) => ({
+                              ...prev,
+                              [row.itemId]: e.target.value,
+                            }))
+                          }
+                        />
+                      </td>
+                    )}
+                    <td>{Math.max(row.previousQty - scrapQty, 0)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,438 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import {
+  collection,
+  getDocs,
+  orderBy,
+  query,
+  type Timestamp,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { useAuth } from "@/app/_components/AuthProvider";
+import type { ProjectStatus } from "@/lib/projectPipeline";
+import {
+  computeProjectLineDeltas,
+  saveProjectLineEdits,
+  type ProjectLineDelta,
+} from "@/lib/projectLineEdits";
+import {
+  getBucketForProjectStatus,
+  STOCK_BUCKET_LABELS,
+} from "@/lib/stockMovements";
+import {
+  createEmptyItemsByType,
+  flattenProjectItems,
+  normalizeProjectCategory,
+  PROJECT_ITEM_CATEGORIES,
+  PROJECT_ITEM_LABELS,
+  type ProjectItemCategory,
+  type ProjectItemLine,
+  type ProjectItemsByType,
+} from "../_projectItemUtils";
+
+type ItemOption = {
+  id: string;
+  name: string;
+  sku: string;
+  category: ProjectItemCategory;
+  mustHaveName?: string | null;
+};
+
+type EditableLine = {
+  key: string;
+  itemId: string;
+  qty: string;
+  mustHaveItemId: string | null;
+  mustHaveItemName: string | null;
+  mustHaveQty: string;
+};
+
+const generateLineKey = () =>
+  `edit-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+const toEditableLines = (
+  itemsByType: ProjectItemsByType,
+): Record<ProjectItemCategory, EditableLine[]> =>
+  PROJECT_ITEM_CATEGORIES.reduce(
+    (acc, category) => {
+      acc[category] = itemsByType[category].map((line) => ({
+        key: generateLineKey(),
+        itemId: line.itemId,
+        qty: String(line.qty),
+        mustHaveItemId: line.mustHaveItemId ?? null,
+        mustHaveItemName: line.mustHaveItemName ?? null,
+        mustHaveQty: line.mustHaveQty ? String(line.mustHaveQty) : "",
+      }));
+      return acc;
+    },
+    {} as Record<ProjectItemCategory, EditableLine[]>,
+  );
+
+type ProjectLinesEditorProps = {
+  project: {
+    id: string;
+    name: string;
+    status: ProjectStatus;
+    itemsByType: ProjectItemsByType;
+    items: ProjectItemLine[];
+    updatedAt?: Timestamp | null;
+  };
+  onCancel: () => void;
+  onSaved: (deltas: ProjectLineDelta[]) => void;
+};
+
+/**
+ * Edit a project's lines in place. Saving rebalances stock between inventory
+ * and the bucket for the project's current status.
+ */
+export default function ProjectLinesEditor({
+  project,
+  onCancel,
+  onSaved,
+}: ProjectLinesEditorProps) {
+  const { user } = useAuth();
+  const [options, setOptions] = useState<ItemOption[]>([]);
+  const [loadingOptions, setLoadingOptions] = useState(true);
+  const [lines, setLines] = useState(() =>
+    toEditableLines(project.itemsByType),
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadOptions = async () => {
+      setLoadingOptions(true);
+      try {
+        const snap = await getDocs(
+          query(collection(db, "items"), orderBy("name")),
+        );
+        if (cancelled) return;
+        setOptions(
+          snap.docs.map((docSnap) => {
+            const data = docSnap.data() as any;
+            return {
+              id: docSnap.id,
+              name: data.name ?? "",
+              sku: data.sku ?? "",
+              category: normalizeProjectCategory(
+                data.itemType ?? data.rawCsvItemType ?? data.category,
+              ),
+              mustHaveName: data.mustHave ?? null,
+            };
+          }),
+        );
+      } catch (err: any) {
+        console.error("Error loading inventory options", err);
+        if (!cancelled) {
+          setError(err?.message ?? "Unable to load inventory options.");
+        }
+      } finally {
+        if (!cancelled) setLoadingOptions(false);
+      }
+    };
+    loadOptions();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const optionMap = useMemo(
+    () => new Map(options.map((option) => [option.id, option])),
+    [options],
+  );
+
+  const nextItemsByType = useMemo(() => {
+    const structured = createEmptyItemsByType();
+    PROJECT_ITEM_CATEGORIES.forEach((category) => {
+      structured[category] = lines[category]
+        .map((line) => {
+          const qty = Number(line.qty);
+          if (!line.itemId || !Number.isFinite(qty) || qty <= 0) return null;
+          const next: ProjectItemLine = {
+            itemId: line.itemId,
+            itemName:
+              optionMap.get(line.itemId)?.name ??
+              project.items.find((item) => item.itemId === line.itemId)
+                ?.itemName ??
+              "",
+            qty,
+            itemType: category,
+          };
+          const mustQty = Number(line.mustHaveQty);
+          if (
+            category === "products" &&
+            line.mustHaveItemId &&
+            Number.isFinite(mustQty) &&
+            mustQty > 0
+          ) {
+            next.mustHaveItemId = line.mustHaveItemId;
+            next.mustHaveItemName =
+              optionMap.get(line.mustHaveItemId)?.name ??
+              line.mustHaveItemName;
+            next.mustHaveQty = mustQty;
+          }
+          return next;
+        })
+        .filter((line): line is ProjectItemLine => Boolean(line));
+    });
+    return structured;
+  }, [lines, optionMap, project.items]);
+
+  const deltas = useMemo(
+    () =>
+      computeProjectLineDeltas(
+        project.items,
+        flattenProjectItems(nextItemsByType),
+      ),
+    [project.items, nextItemsByType],
+  );
+
+  const bucket = getBucketForProjectStatus(project.status);
+  const bucketLabel = bucket ? STOCK_BUCKET_LABELS[bucket] : "External";
+
+  const updateLine = (
+    category: ProjectItemCategory,
+    key: string,
+    patch: Partial<EditableLine>,
+  ) => {
+    setLines((prev) => ({
+      ...prev,
+      [category]: prev[category].map((line) =>
+        line.key === key ? { ...line, ...patch } : line,
+      ),
+    }));
+  };
+
+  const handleItemChange = (
+    category: ProjectItemCategory,
+    line: EditableLine,
+    itemId: string,
+  ) => {
+    if (category !== "products") {
+      updateLine(category, line.key, { itemId });
+      return;
+    }
+    const option = optionMap.get(itemId);
+    const mustItem = option?.mustHaveName
+      ? options.find((candidate) => candidate.name === option.mustHaveName)
+      : null;
+    updateLine(category, line.key, {
+      itemId,
+      mustHaveItemId: mustItem?.id ?? null,
+      mustHaveItemName: mustItem?.name ?? null,
+      mustHaveQty: mustItem ? line.mustHaveQty || line.qty || "1" : "",
+    });
+  };
+
+  const handleAddLine = (category: ProjectItemCategory) => {
+    setLines((prev) => ({
+      ...prev,
+      [category]: [
+        ...prev[category],
+        {
+          key: generateLineKey(),
+          itemId: "",
+          qty: "",
+          mustHaveItemId: null,
+          mustHaveItemName: null,
+          mustHaveQty: "",
+        },
+      ],
+    }));
+  };
+
+  const handleRemoveLine = (category: ProjectItemCategory, key: string) => {
+    setLines((prev) => ({
+      ...prev,
+      [category]: prev[category].filter((line) => line.key !== key),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!flattenProjectItems(nextItemsByType).length) {
+      setError("A project needs at least one line with a quantity.");
+      return;
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      const applied = await saveProjectLineEdits({
+        projectId: project.id,
+        itemsByType: nextItemsByType,
+        expectedUpdatedAt: project.updatedAt ?? null,
+        user: user ? { uid: user.uid, email: user.email } : null,
+      });
+      onSaved(applied);
+    } catch (err: any) {
+      console.error("Error saving project lines", err);
+      setError(err?.message ?? "Unable to save project lines.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="card ims-form-section" style={{ marginBottom: "1rem" }}>
+      <div className="ims-table-header">
+        <div>
+          <h2 className="ims-form-section-title">Edit project lines</h2>
+          <p className="ims-form-section-subtitle">
+            Changes move stock between inventory and {bucketLabel.toLowerCase()}{" "}
+            when saved.
+          </p>
+        </div>
+        <div className="ims-page-actions">
+          <button
+            type="button"
+            className="ims-secondary-button"
+            onClick={onCancel}
+            disabled={saving}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="ims-primary-button"
+            onClick={handleSave}
+            disabled={saving || loadingOptions}
+          >
+            {saving ? "Saving…" : "Save lines"}
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="ims-alert ims-alert--error">{error}</div>}
+
+      {loadingOptions ? (
+        <p className="ims-table-empty">Loading inventory options…</p>
+      ) : (
+        PROJECT_ITEM_CATEGORIES.map((category) => (
+          <div key={category}>
+            <hr className="ims-form-divider" />
+            <div className="ims-form-section-title">
+              {PROJECT_ITEM_LABELS[category]} lines
+            </div>
+            {lines[category].length === 0 && (
+              <p className="ims-table-empty">No lines.</p>
+            )}
+            {lines[category].map((line) => (
+              <div key={line.key} className="ims-field ims-project-line">
+                <div className="ims-field-row">
+                  <div className="ims-field">
+                    <select
+                      className="ims-field-input"
+                      value={line.itemId}
+                      onChange={(e) =>
+                        handleItemChange(category, line, e.target.value)
+                      }
+                    >
+                      <option value="">
+                        Select a {PROJECT_ITEM_LABELS[category].toLowerCase()}…
+                      </option>
+                      {options
+                        .filter(
+                          (option) =>
+                            option.category === category ||
+                            option.id === line.itemId,
+                        )
+                        .map((option) => (
+                          <option key={option.id} value={option.id}>
+                            {option.name} ({option.sku})
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                  <div className="ims-field">
+                    <input
+                      type="number"
+                      min={1}
+                      className="ims-field-input"
+                      value={line.qty}
+                      onChange={(e) =>
+                        updateLine(category, line.key, { qty: e.target.value })
+                      }
+                    />
+                  </div>
+                </div>
+                {category === "products" && line.mustHaveItemId && (
+                  <div className="ims-field-row">
+                    <div className="ims-field">
+                      <span className="ims-field-label">
+                        {optionMap.get(line.mustHaveItemId)?.name ??
+                          line.mustHaveItemName}{" "}
+                        (must have)
+                      </span>
+                    </div>
+                    <div className="ims-field">
+                      <input
+                        type="number"
+                        min={1}
+                        className="ims-field-input"
+                        value={line.mustHaveQty}
+                        onChange={(e) =>
+                          updateLine(category, line.key, {
+                            mustHaveQty: e.target.value,
+                          })
+                        }
+                      />
+                    </div>
+                  </div>
+                )}
+                <button
+                  type="button"
+                  className="ims-secondary-button ims-project-line-remove"
+                  onClick={() => handleRemoveLine(category, line.key)}
+                >
+                  Remove line
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              className="ims-secondary-button"
+              onClick={() => handleAddLine(category)}
+              style={{ marginTop: "0.5rem" }}
+            >
+              + Add {PROJECT_ITEM_LABELS[category].toLowerCase()}
+            </button>
+          </div>
+        ))
+      )}
+
+      <hr className="ims-form-divider" />
+      <div className="ims-form-section-title">Stock changes on save</div>
+      {deltas.length === 0 ? (
+        <p className="ims-table-empty">No stock changes.</p>
+      ) : (
+        <div className="ims-table-wrapper">
+          <table className="ims-table ims-table--compact">
+            <thead>
+              <tr>
+                <th>Item</th>
+                <th>Current</th>
+                <th>New</th>
+                <th>Movement</th>
+              </tr>
+            </thead>
+            <tbody>
+              {deltas.map((row) => (
+                <tr key={row.itemId}>
+                  <td>{row.itemName || row.itemId}</td>
+                  <td>{row.previousQty}</td>
+                  <td>{row.nextQty}</td>
+                  <td>
+                    {row.delta > 0
+                      ? `${row.delta} Inventory → ${bucketLabel}`
+                      : `${-row.delta} ${bucketLabel} → Inventory`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import type { ProjectStatus } from "@/lib/projectPipeline";
+import { computeProjectLineDeltas } from "@/lib/projectLineEdits";
+import {
+  AVAILABLE_UNIT_STATUSES,
+  fetchItemUnits,
+  ITEM_UNIT_STATUS_LABELS,
+  type ItemUnit,
+} from "@/lib/itemUnits";
+import type { ProjectItemLine } from "../_projectItemUtils";
+
+type ProjectUnitsCardProps = {
+  project: {
+    id: string;
+    status: ProjectStatus;
+    items: ProjectItemLine[];
+    updatedAt?: unknown;
+  };
+  selectedUnitIds: string[];
+  onSelectionChange: (unitIds: string[]) => void;
+};
+
+/**
+ * Serial numbers on a project. Units picked here are assigned to the project
+ * when it next moves to WIP or complete.
+ */
+export default function ProjectUnitsCard({
+  project,
+  selectedUnitIds,
+  onSelectionChange,
+}: ProjectUnitsCardProps) {
+  const [unitsByItem, setUnitsByItem] = useState<Map<string, ItemUnit[]>>(
+    new Map(),
+  );
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const lineTotals = useMemo(
+    () => computeProjectLineDeltas(project.items, []),
+    [project.items],
+  );
+  const canSelect = project.status === "reserved" || project.status === "wip";
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadUnits = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const entries = await Promise.all(
+          lineTotals.map(
+            async (row) =>
+              [row.itemId, await fetchItemUnits(row.itemId)] as const,
+          ),
+        );
+        if (!cancelled) setUnitsByItem(new Map(entries));
+      } catch (err: any) {
+        console.error("Error loading project units", err);
+        if (!cancelled) {
+          setError(err?.message ?? "Unable to load serialized units.");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    loadUnits();
+    return () => {
+      cancelled = true;
+    };
+  }, [lineTotals, project.updatedAt]);
+
+  const rows = lineTotals
+    .map((row) => {
+      const units = unitsByItem.get(row.itemId) ?? [];
+      return {
+        ...row,
+        assigned: units.filter((unit) => unit.projectId === project.id),
+        available: units.filter(
+          (unit) =>
+            !unit.projectId && AVAILABLE_UNIT_STATUSES.includes(unit.status),
+        ),
+      };
+    })
+    .filter((row) => row.assigned.length || row.available.length);
+
+  const toggleUnit = (unitId: string) => {
+    onSelectionChange(
+      selectedUnitIds.includes(unitId)
+        ? selectedUnitIds.filter((id) => id !== unitId)
+        : [...selectedUnitIds, unitId],
+    );
+  };
+
+  if (!loading && !error && rows.length === 0) return null;
+
+  return (
+    <section className="card ims-form-section" style={{ marginBottom: "1rem" }}>
+      <h2 className="ims-form-section-title">Serial numbers</h2>
+      <p className="ims-form-section-subtitle">
+        {canSelect
+          ? "Pick the units going into this project. They are assigned when the project next moves to WIP or complete."
+          : "Units assigned to this project."}
+      </p>
+      {error && <div className="ims-alert ims-alert--error">{error}</div>}
+      {loading ? (
+        <p className="ims-table-empty">Loading units…</p>
+      ) : (
+        rows.map((row) => {
+          const selectedForItem = row.available.filter((unit) =>
+            selectedUnitIds.includes(unit.id),
+          ).length;
+          const remaining =
+            row.previousQty - row.assigned.length - selectedForItem;
+          return (
+            <div key={row.itemId} className="ims-field">
+              <span className="ims-field-label">
+                {row.itemName || row.itemId} · {row.assigned.length} of{" "}
+                {row.previousQty} assigned
+                {selectedForItem ? `, ${selectedForItem} selected` : ""}
+              </span>
+              {row.assigned.length > 0 && (
+                <div>
+                  {row.assigned.map((unit, index) => (
+                    <span key={unit.id}>
+                      {index > 0 && ", "}
+                      <Link
+                        href={`/inventory/units/${unit.id}`}
+                        className="ims-table-link"
+                      >
+                        {unit.unitCode}
+                      </Link>{" "}
+                      ({ITEM_UNIT_STATUS_LABELS[unit.status].toLowerCase()})
+                    </span>
+                  ))}
+                </div>
+              )}
+              {canSelect && row.available.length > 0 && (
+                <div
+                  style={{ display: "flex", flexWrap: "wrap", gap: "0.75rem" }}
+                >
+                  {row.available.map((unit) => {
+                    const checked = selectedUnitIds.includes(unit.id);
+                    return (
+                      <label key={unit.id} className="ims-field-help">
+                        <input
+                          type="checkbox"
+                          checked={checked}
+                          disabled={!checked && remaining <= 0}
+                          onChange={() => toggleUnit(unit.id)}
+                        />{" "}
+                        {unit.unitCode}
+                      </label>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })
+      )}
+    </section>
+  );
+}
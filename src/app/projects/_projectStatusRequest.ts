@@ -0,0 +1,75 @@
+import type { Timestamp } from "firebase/firestore";
+import type { ProjectStatus } from "@/lib/projectPipeline";
+import type {
+  ProjectCancellation,
+  ProjectStatusTransitionResult,
+} from "@/lib/projectStatusTransitions";
+import { getAuthHeaders } from "@/lib/authHeaders";
+
+/**
+ * Key that identifies one requested move of a project. Built from the status
+ * and `updatedAt` the page loaded, so a double drop or a resubmitted request
+ * resolves to the same key while a later, genuine move gets a new one.
+ */
+const buildTransitionKey = (
+  project: { id: string; status: ProjectStatus; updatedAt?: Timestamp | null },
+  targetStatus: ProjectStatus,
+) =>
+  [
+    project.id,
+    project.status,
+    targetStatus,
+    project.updatedAt?.toMillis() ?? 0,
+  ].join(":");
+
+export const requestProjectStatusChange = async (
+  project: { id: string; status: ProjectStatus; updatedAt?: Timestamp | null },
+  targetStatus: ProjectStatus,
+  options: {
+    cancellation?: ProjectCancellation | null;
+    unitIds?: string[];
+  } = {},
+) => {
+  const response = await fetch(
+    `/api/projects/${encodeURIComponent(project.id)}/status`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Idempotency-Key": buildTransitionKey(project, targetStatus),
+        ...(await getAuthHeaders()),
+      },
+      body: JSON.stringify({
+        status: targetStatus,
+        fromStatus: project.status,
+        cancellation: options.cancellation ?? null,
+        unitIds: options.unitIds ?? [],
+      }),
+    },
+  );
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(payload?.error || response.statusText);
+  }
+  return payload.result as ProjectStatusTransitionResult;
+};
+
+export const describeTransitionResult = (
+  result: ProjectStatusTransitionResult,
+) => {
+  if (result.duplicate) {
+    return "This move was already processed; stock was not changed again.";
+  }
+  if (!result.applied) {
+    return "Project is already in that status.";
+  }
+  if (result.toStatus === "cancelled") {
+    return result.hubspotSyncStatus === "failed"
+      ? `Project cancelled and stock returned, but HubSpot was not updated: ${result.hubspotError}`
+      : "Project cancelled and its stock returned to inventory.";
+  }
+  if (result.hubspotSyncStatus === "failed") {
+    return `Project status and stock updated, but HubSpot was not updated: ${result.hubspotError}`;
+  }
+  return "Project status changed and stock buckets updated.";
+};
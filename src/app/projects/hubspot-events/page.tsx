@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import type { Timestamp } from "firebase/firestore";
+import {
+  fetchHubspotWebhookLog,
+  HUBSPOT_WEBHOOK_OUTCOME_LABELS,
+  type HubspotWebhookLogEntry,
+  type HubspotWebhookOutcome,
+} from "@/lib/hubspotWebhooks";
+import {
+  DEFAULT_PIPELINE_CONFIG,
+  describeHubspotStage,
+  describeProjectStatus,
+  fetchPipelineConfig,
+  type ProjectPipelineConfig,
+  type ProjectStatus,
+} from "@/lib/projectPipeline";
+
+const formatDateTime = (timestamp?: Timestamp | null) => {
+  if (!timestamp) return "—";
+  try {
+    return timestamp.toDate().toLocaleString();
+  } catch {
+    return "—";
+  }
+};
+
+export default function HubspotEventsPage() {
+  const [entries, setEntries] = useState<HubspotWebhookLogEntry[]>([]);
+  const [pipelineConfig, setPipelineConfig] =
+    useState<ProjectPipelineConfig>(DEFAULT_PIPELINE_CONFIG);
+  const [outcome, setOutcome] = useState<HubspotWebhookOutcome | "all">("all");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [log, config] = await Promise.all([
+          fetchHubspotWebhookLog(),
+          fetchPipelineConfig(),
+        ]);
+        setEntries(log);
+        setPipelineConfig(config);
+      } catch (err: any) {
+        console.error("Error loading HubSpot events", err);
+        setError(err?.message ?? "Unable to load HubSpot events.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const visibleEntries = useMemo(
+    () =>
+      outcome === "all"
+        ? entries
+        : entries.filter((entry) => entry.outcome === outcome),
+    [entries, outcome],
+  );
+
+  return (
+    <main className="ims-content">
+      <div className="ims-page-header ims-page-header--with-actions">
+        <div>
+          <h1 className="ims-page-title">HubSpot events</h1>
+          <p className="ims-page-subtitle">
+            Pipeline stage changes received from HubSpot and what each one did
+            to the linked project. Showing the latest 200.
+          </p>
+        </div>
+        <div className="ims-page-actions">
+          <select
+            className="ims-field-input"
+            value={outcome}
+            onChange={(e) =>
+              setOutcome(e.target.value as HubspotWebhookOutcome | "all")
+            }
+          >
+            <option value="all">All outcomes</option>
+            {Object.entries(HUBSPOT_WEBHOOK_OUTCOME_LABELS).map(
+              ([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ),
+            )}
+          </select>
+          <Link href="/projects" className="ims-secondary-button">
+            Back to projects
+          </Link>
+        </div>
+      </div>
+
+      {error && <div className="ims-alert ims-alert--error">{error}</div>}
+
+      <section className="card ims-table-card">
+        <div className="ims-table-header">
+          <h2 className="ims-form-section-title">Event log</h2>
+          <span className="ims-table-count">
+            {visibleEntries.length} event{visibleEntries.length === 1 ? "" : "s"}
+          </span>
+        </div>
+        {loading ? (
+          <p className="ims-table-empty">Loading events…</p>
+        ) : visibleEntries.length === 0 ? (
+          <p className="ims-table-empty">No HubSpot events received yet.</p>
+        ) : (
+          <div className="ims-table-wrapper">
+            <table className="ims-table ims-table--compact">
+              <thead>
+                <tr>
+                  <th>Received</th>
+                  <th>Changed in HubSpot</th>
+                  <th>HubSpot project</th>
+                  <th>IMS project</th>
+                  <th>Stage</th>
+                  <th>Status change</th>
+                  <th>Outcome</th>
+                  <th>Detail</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleEntries.map((entry) => (
+                  <tr key={entry.id}>
+                    <td>{formatDateTime(entry.receivedAt)}</td>
+                    <td>{formatDateTime(entry.occurredAt)}</td>
+                    <td>{entry.objectId ?? "—"}</td>
+                    <td>
+                      {entry.projectId ? (
+                        <Link
+                          href={`/projects/${entry.projectId}`}
+                          className="ims-table-link"
+                        >
+                          {entry.projectName || entry.projectId}
+                        </Link>
+                      ) : (
+                        "—"
+                      )}
+                    </td>
+                    <td>
+                      {entry.propertyName === "hs_pipeline_stage"
+                        ? describeHubspotStage(entry.propertyValue, pipelineConfig)
+                        : entry.propertyName ?? "—"}
+                    </td>
+                    <td>
+                      {entry.fromStatus && entry.toStatus
+                        ? `${describeProjectStatus(entry.fromStatus as ProjectStatus)} → ${describeProjectStatus(entry.toStatus as ProjectStatus)}`
+                        : "—"}
+                    </td>
+                    <td>
+                      <span
+                        className={
+                          "ims-status-tag " +
+                          (entry.outcome === "processed"
+                            ? "ims-status-tag--active"
+                            : "ims-status-tag--inactive")
+                        }
+                      >
+                        {HUBSPOT_WEBHOOK_OUTCOME_LABELS[entry.outcome]}
+                      </span>
+                    </td>
+                    <td>{entry.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
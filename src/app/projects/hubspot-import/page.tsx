@@ -0,0 +1,296 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type { HubspotProjectSummary } from "@/lib/hubspot";
+import {
+  describeHubspotStage,
+  fetchPipelineConfig,
+  getStageIdsForStatuses,
+  type ProjectPipelineConfig,
+} from "@/lib/projectPipeline";
+
+type LinkedProject = { id: string; name: string };
+
+const formatModified = (value: unknown) => {
+  if (typeof value !== "string" || !value) return "—";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "—" : date.toLocaleString();
+};
+
+export default function HubspotImportPage() {
+  const router = useRouter();
+  const [pipelineConfig, setPipelineConfig] =
+    useState<ProjectPipelineConfig | null>(null);
+  const [stageIds, setStageIds] = useState<string[]>([]);
+  const [search, setSearch] = useState("");
+  const [appliedSearch, setAppliedSearch] = useState("");
+  const [projects, setProjects] = useState<HubspotProjectSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextAfter, setNextAfter] = useState<string | null>(null);
+  const [linked, setLinked] = useState<Map<string, LinkedProject>>(new Map());
+  const [includeLineItems, setIncludeLineItems] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only projects that have not been delivered can be reserved in the IMS.
+  const importStages = useMemo(
+    () =>
+      pipelineConfig
+        ? getStageIdsForStatuses(["reserved", "wip"], pipelineConfig)
+        : [],
+    [pipelineConfig],
+  );
+
+  useEffect(() => {
+    const loadLinked = async () => {
+      try {
+        const config = await fetchPipelineConfig();
+        setPipelineConfig(config);
+        setStageIds(getStageIdsForStatuses(["reserved", "wip"], config));
+        const snap = await getDocs(collection(db, "projects"));
+        const map = new Map<string, LinkedProject>();
+        snap.docs.forEach((docSnap) => {
+          const data = docSnap.data() as any;
+          if (data.hubspotDealId) {
+            map.set(String(data.hubspotDealId), {
+              id: docSnap.id,
+              name: data.name ?? "",
+            });
+          }
+        });
+        setLinked(map);
+      } catch (err: any) {
+        console.error("Error loading linked projects", err);
+        setError(err?.message ?? "Unable to load IMS projects.");
+      }
+    };
+    loadLinked();
+  }, []);
+
+  const loadPage = useCallback(
+    async (after: string | null) => {
+      if (!stageIds.length) {
+        setProjects([]);
+        setTotal(0);
+        setNextAfter(null);
+        return;
+      }
+      setLoading(true);
+      setError(null);
+      try {
+        const params = new URLSearchParams();
+        stageIds.forEach((stageId) => params.append("stageId", stageId));
+        if (appliedSearch) params.set("q", appliedSearch);
+        if (after) params.set("after", after);
+        const response = await fetch(`/api/hubspot/projects?${params}`);
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(payload?.error || response.statusText);
+        }
+        setProjects((prev) =>
+          after ? [...prev, ...payload.projects] : payload.projects,
+        );
+        setTotal(payload.total ?? 0);
+        setNextAfter(payload.nextAfter ?? null);
+      } catch (err: any) {
+        console.error("Error loading HubSpot projects", err);
+        setError(err?.message ?? "Unable to load HubSpot projects.");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [stageIds, appliedSearch],
+  );
+
+  useEffect(() => {
+    loadPage(null);
+  }, [loadPage]);
+
+  const unlinkedCount = useMemo(
+    () => projects.filter((project) => !linked.has(project.id)).length,
+    [projects, linked],
+  );
+
+  const toggleStage = (stageId: string) => {
+    setStageIds((prev) =>
+      prev.includes(stageId)
+        ? prev.filter((id) => id !== stageId)
+        : [...prev, stageId],
+    );
+  };
+
+  const handleImport = (project: HubspotProjectSummary) => {
+    const params = new URLSearchParams({ hubspotId: project.id });
+    if (includeLineItems) params.set("lineItems", "1");
+    router.push(`/projects/new?${params}`);
+  };
+
+  return (
+    <main className="ims-content">
+      <section className="ims-page-header ims-page-header--with-actions">
+        <div>
+          <h1 className="ims-page-title">Import from HubSpot</h1>
+          <p className="ims-page-subtitle">
+            HubSpot projects that have not been delivered yet. Importing opens
+            a new reserved project pre-filled with the HubSpot name and ID.
+          </p>
+        </div>
+        <div className="ims-page-actions" style={{ gap: "0.5rem" }}>
+          <button
+            type="button"
+            className="ims-secondary-button"
+            onClick={() => router.push("/projects")}
+          >
+            ← Back to board
+          </button>
+        </div>
+      </section>
+
+      {error && <div className="ims-alert ims-alert--error">{error}</div>}
+      {pipelineConfig && importStages.length === 0 && (
+        <div className="ims-alert ims-alert--info">
+          No HubSpot stages are mapped to Reserved or WIP. Map them under
+          Admin → Project pipeline.
+        </div>
+      )}
+
+      <section className="card ims-form-section">
+        <form
+          className="ims-field-row"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setAppliedSearch(search.trim());
+          }}
+        >
+          <div className="ims-field">
+            <label className="ims-field-label" htmlFor="hubspotSearch">
+              Search
+            </label>
+            <input
+              id="hubspotSearch"
+              className="ims-field-input"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Project name…"
+            />
+          </div>
+          <div className="ims-field">
+            <span className="ims-field-label">Stages</span>
+            {importStages.map((stageId) => (
+              <label key={stageId}>
+                <input
+                  type="checkbox"
+                  checked={stageIds.includes(stageId)}
+                  onChange={() => toggleStage(stageId)}
+                />{" "}
+                {describeHubspotStage(stageId, pipelineConfig!)}
+              </label>
+            ))}
+          </div>
+          <div className="ims-field">
+            <span className="ims-field-label">Line items</span>
+            <label>
+              <input
+                type="checkbox"
+                checked={includeLineItems}
+                onChange={(e) => setIncludeLineItems(e.target.checked)}
+              />{" "}
+              Add HubSpot line items that match an item&apos;s HubSpot product
+              ID
+            </label>
+          </div>
+          <div className="ims-form-actions">
+            <button type="submit" className="ims-secondary-button">
+              Search
+            </button>
+          </div>
+        </form>
+      </section>
+
+      <section className="card ims-table-card">
+        <div className="ims-table-header">
+          <h2 className="ims-form-section-title">HubSpot projects</h2>
+          <span className="ims-table-count">
+            Showing {projects.length} of {total} · {unlinkedCount} not linked
+          </span>
+        </div>
+        {projects.length === 0 ? (
+          <p className="ims-table-empty">
+            {loading ? "Loading HubSpot projects…" : "No HubSpot projects found."}
+          </p>
+        ) : (
+          <div className="ims-table-wrapper">
+            <table className="ims-table ims-table--compact">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>HubSpot ID</th>
+                  <th>Stage</th>
+                  <th>Last modified</th>
+                  <th>IMS project</th>
+                </tr>
+              </thead>
+              <tbody>
+                {projects.map((project) => {
+                  const linkedProject = linked.get(project.id);
+                  return (
+                    <tr key={project.id}>
+                      <td>{project.name || "—"}</td>
+                      <td>{project.id}</td>
+                      <td>
+                        {project.stageLabel ||
+                          (pipelineConfig
+                            ? describeHubspotStage(
+                                project.stageId,
+                                pipelineConfig,
+                              )
+                            : project.stageId)}
+                      </td>
+                      <td>{formatModified(project.lastModified)}</td>
+                      <td>
+                        {linkedProject ? (
+                          <button
+                            type="button"
+                            className="ims-table-link"
+                            onClick={() =>
+                              router.push(`/projects/${linkedProject.id}`)
+                            }
+                          >
+                            {linkedProject.name || "Linked"}
+                          </button>
+                        ) : (
+                          <button
+                            type="button"
+                            className="ims-primary-button"
+                            onClick={() => handleImport(project)}
+                          >
+                            Import
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {nextAfter && (
+          <div className="ims-form-actions">
+            <button
+              type="button"
+              className="ims-secondary-button"
+              onClick={() => loadPage(nextAfter)}
+              disabled={loading}
+            >
+              {loading ? "Loading…" : "Load more"}
+            </button>
+          </div>
+        )}
+      </section>
+    </main>
+  );
+}
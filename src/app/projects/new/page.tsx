@@ -1,25 +1,38 @@
 // src/app/projects/new/page.tsx
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
-import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
 import { db } from "@/lib/firebase";
 import {
-  addDoc,
   collection,
   doc,
   getDocs,
-  increment,
   orderBy,
   query,
   Timestamp,
   writeBatch,
 } from "firebase/firestore";
+import {
+  checkStockAvailability,
+  groupShortagesBySupplier,
+  queueShortagePurchases,
+  type StockAvailabilityRow,
+} from "@/lib/stockAvailability";
+import { recordStockMovements } from "@/lib/stockMovements";
+import {
+  fetchLocations,
+  getLocationPath,
+  type StockLocation,
+} from "@/lib/locations";
+import { useAuth } from "@/app/_components/AuthProvider";
+import type { HubspotLineItem } from "@/lib/hubspot";
 import {
   ProjectItemCategory,
   PROJECT_ITEM_CATEGORIES,
   PROJECT_ITEM_LABELS,
   ProjectItemLine,
+  ProjectItemsByType,
   createEmptyItemsByType,
   normalizeProjectCategory,
   flattenProjectItems,
@@ -37,6 +50,7 @@ type ItemOption = {
   name: string;
   sku: string;
   category: ProjectItemCategory;
+  hubspotProductId?: string | null;
   mustHaveName?: string | null;
   mandatorySensorExtras?: SensorExtraRequirement[];
 };
@@ -50,6 +64,8 @@ type NewLineState = {
   mustHaveQty: string;
 };
 
+type ShortageResolution = "backorder" | "purchase";
+
 const generateLineId = () =>
   `line-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
 
@@ -73,6 +89,56 @@ const createInitialLineSections = (): Record<
   sensorExtras: [],
 });
 
+const resolveMustHave = (options: ItemOption[], item?: ItemOption | null) =>
+  item?.mustHaveName
+    ? (options.find((option) => option.name === item.mustHaveName) ?? null)
+    : null;
+
+/**
+ * Form lines for HubSpot line items whose product matches an item's
+ * `hubspotProductId`, with quantities summed per item. Sensor extras are left
+ * out because they follow their sensors automatically.
+ */
+const buildSectionsFromHubspotLines = (
+  lineItems: HubspotLineItem[],
+  options: ItemOption[],
+) => {
+  const byProductId = new Map(
+    options
+      .filter((option) => option.hubspotProductId)
+      .map((option) => [String(option.hubspotProductId), option]),
+  );
+  const qtyByItem = new Map<ItemOption, number>();
+  const unmatched: string[] = [];
+  lineItems.forEach((line) => {
+    const option = line.productId ? byProductId.get(line.productId) : undefined;
+    if (!option || option.category === "sensorExtras" || line.quantity <= 0) {
+      unmatched.push(line.name || line.sku || line.id);
+      return;
+    }
+    qtyByItem.set(option, (qtyByItem.get(option) ?? 0) + line.quantity);
+  });
+
+  const sections = createInitialLineSections();
+  sections.products = [];
+  qtyByItem.forEach((qty, option) => {
+    const mustHave =
+      option.category === "products" ? resolveMustHave(options, option) : null;
+    sections[option.category].push({
+      ...createNewLineState(),
+      itemId: option.id,
+      qty: String(qty),
+      mustHaveItemId: mustHave?.id ?? null,
+      mustHaveLabel: mustHave ? `${mustHave.name} (must have)` : undefined,
+      mustHaveQty: mustHave ? String(qty) : "",
+    });
+  });
+  if (!sections.products.length) {
+    sections.products.push(createNewLineState());
+  }
+  return { sections, matchedCount: qtyByItem.size, unmatched };
+};
+
 const SECONDARY_SECTIONS: ProjectItemCategory[] = [
   "subAssemblies",
   "components",
@@ -118,25 +184,43 @@ const SECTION_COPY: Record<
 
 export default function NewProjectPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const hubspotImportId = searchParams.get("hubspotId");
+  const includeHubspotLines = searchParams.get("lineItems") === "1";
+  const { user } = useAuth();
   const [items, setItems] = useState<ItemOption[]>([]);
   const [loadingItems, setLoadingItems] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const prefilledFromRef = useRef<string | null>(null);
 
   const [newName, setNewName] = useState("");
   const [newDealId, setNewDealId] = useState("");
+  const [newLocationId, setNewLocationId] = useState("");
+  const [locations, setLocations] = useState<StockLocation[]>([]);
   const [newLineSections, setNewLineSections] = useState<
     Record<ProjectItemCategory, NewLineState[]>
   >(() => createInitialLineSections());
+  // Shortage report for the lines and location as they were when checked; it
+  // is ignored once either changes so a stale report cannot be resolved.
+  const [availability, setAvailability] = useState<{
+    sections: Record<ProjectItemCategory, NewLineState[]>;
+    locationId: string;
+    structuredItems: ProjectItemsByType;
+    rows: StockAvailabilityRow[];
+  } | null>(null);
 
   useEffect(() => {
     const loadItems = async () => {
       setLoadingItems(true);
       setError(null);
       try {
-        const itemsSnap = await getDocs(
-          query(collection(db, "items"), orderBy("name")),
-        );
+        const [itemsSnap, locationRows] = await Promise.all([
+          getDocs(query(collection(db, "items"), orderBy("name"))),
+          fetchLocations(),
+        ]);
+        setLocations(locationRows);
         const options: ItemOption[] = itemsSnap.docs.map((docSnap) => {
           const data = docSnap.data() as any;
           const category = normalizeProjectCategory(
@@ -176,6 +260,7 @@ export default function NewProjectPage() {
             name: data.name ?? "",
             sku: data.sku ?? "",
             category,
+            hubspotProductId: data.hubspotProductId ?? null,
             mustHaveName: data.mustHave ?? null,
             mandatorySensorExtras,
           };
@@ -192,6 +277,58 @@ export default function NewProjectPage() {
     loadItems();
   }, []);
 
+  useEffect(() => {
+    if (
+      loadingItems ||
+      !hubspotImportId ||
+      prefilledFromRef.current === hubspotImportId
+    ) {
+      return;
+    }
+    prefilledFromRef.current = hubspotImportId;
+
+    const prefillFromHubspot = async () => {
+      setNewDealId(hubspotImportId);
+      try {
+        const projectId = encodeURIComponent(hubspotImportId);
+        const response = await fetch(`/api/hubspot/projects/${projectId}`);
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(payload?.error || response.statusText);
+        }
+        if (payload.project?.name) setNewName(payload.project.name);
+        if (!includeHubspotLines) return;
+
+        const linesResponse = await fetch(
+          `/api/hubspot/projects/${projectId}/line-items`,
+        );
+        const linesPayload = await linesResponse.json().catch(() => null);
+        if (!linesResponse.ok) {
+          throw new Error(linesPayload?.error || linesResponse.statusText);
+        }
+        const { sections, matchedCount, unmatched } =
+          buildSectionsFromHubspotLines(linesPayload.lineItems ?? [], items);
+        setNewLineSections(sections);
+        setNotice(
+          `Added ${matchedCount} item${matchedCount === 1 ? "" : "s"} from HubSpot line items.` +
+            (unmatched.length
+              ? ` Not matched to an item's HubSpot product ID: ${unmatched.join(", ")}.`
+              : ""),
+        );
+      } catch (err: any) {
+        console.error("Error loading HubSpot project", err);
+        setError(err?.message ?? "Unable to load the HubSpot project.");
+      }
+    };
+
+    prefillFromHubspot();
+  }, [loadingItems, hubspotImportId, includeHubspotLines, items]);
+
+  const locationsById = useMemo(
+    () => new Map(locations.map((location) => [location.id, location])),
+    [locations],
+  );
+
   const itemsByCategory = useMemo(() => {
     const grouped: Record<ProjectItemCategory, ItemOption[]> = {
       products: [],
@@ -233,17 +370,14 @@ export default function NewProjectPage() {
         if (line.id !== lineId) return line;
 
         if (category === "products") {
-          const item = items.find((i) => i.id === itemId);
-          let mustHaveItemId: string | null = null;
-          let mustHaveLabel: string | undefined;
-
-          if (item?.mustHaveName) {
-            const mustItem = items.find((i) => i.name === item.mustHaveName);
-            if (mustItem) {
-              mustHaveItemId = mustItem.id;
-              mustHaveLabel = `${mustItem.name} (must have)`;
-            }
-          }
+          const mustItem = resolveMustHave(
+            items,
+            items.find((i) => i.id === itemId),
+          );
+          const mustHaveItemId = mustItem?.id ?? null;
+          const mustHaveLabel = mustItem
+            ? `${mustItem.name} (must have)`
+            : undefined;
 
           return {
             ...line,
@@ -291,13 +425,7 @@ export default function NewProjectPage() {
     }));
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!newName.trim()) {
-      setError("Project name is required.");
-      return;
-    }
-
+  const buildProjectItems = (): ProjectItemsByType | null => {
     const structuredItems = createEmptyItemsByType();
     const optionMap = new Map(items.map((item) => [item.id, item]));
 
@@ -386,9 +514,22 @@ export default function NewProjectPage() {
     );
     if (!totalLines) {
       setError("Add at least one inventory item with a quantity.");
-      return;
+      return null;
     }
+    return structuredItems;
+  };
 
+  /**
+   * Create the project and reserve its stock. When some lines are short the
+   * caller chooses a resolution: a backorder reservation lets on-hand stock
+   * go negative, and "purchase" also raises draft purchases per Supplier 1
+   * for the shortfall in the same batch.
+   */
+  const createProject = async (
+    structuredItems: ProjectItemsByType,
+    shortages: StockAvailabilityRow[],
+    resolution: ShortageResolution | null,
+  ) => {
     setSaving(true);
     setError(null);
 
@@ -417,35 +558,75 @@ export default function NewProjectPage() {
         >,
       );
 
-      await addDoc(collection(db, "projects"), {
+      const projectRef = doc(collection(db, "projects"));
+      const batch = writeBatch(db);
+      batch.set(projectRef, {
         name: newName.trim(),
         status: "reserved" as const,
         hubspotDealId: newDealId.trim() || null,
+        locationId: newLocationId || null,
+        locationName: newLocationId
+          ? getLocationPath(newLocationId, locationsById)
+          : null,
         items: itemsPayload,
         itemsByType: itemsByTypePayload,
+        backorder: shortages.length > 0,
+        shortages: shortages.map((row) => ({
+          itemId: row.itemId,
+          itemName: row.itemName,
+          requiredQty: row.requiredQty,
+          availableQty: row.availableQty,
+          shortQty: row.shortQty,
+        })),
         createdAt: now,
         updatedAt: now,
       });
 
-      const batch = writeBatch(db);
-      linesForProject.forEach((line) => {
-        if (!line.itemId || !line.qty) return;
-        const itemRef = doc(db, "items", line.itemId);
-        batch.update(itemRef, {
-          inventoryQty: increment(-line.qty),
-          reservedQty: increment(line.qty),
-          updatedAt: now,
+      if (resolution === "purchase") {
+        queueShortagePurchases(batch, shortages, {
+          projectId: projectRef.id,
+          projectName: newName.trim(),
+          user: user ? { uid: user.uid, email: user.email } : null,
+          at: now,
         });
+      }
 
-        if (line.mustHaveItemId && line.mustHaveQty && line.mustHaveQty > 0) {
-          const mustRef = doc(db, "items", line.mustHaveItemId);
-          batch.update(mustRef, {
-            inventoryQty: increment(-line.mustHaveQty),
-            reservedQty: increment(line.mustHaveQty),
-            updatedAt: now,
-          });
-        }
-      });
+      recordStockMovements(
+        batch,
+        linesForProject.flatMap((line) => {
+          if (!line.itemId || !line.qty) return [];
+          const movements = [
+            {
+              itemId: line.itemId,
+              itemName: line.itemName,
+              fromBucket: "inventory" as const,
+              toBucket: "reserved" as const,
+              fromLocationId: newLocationId || null,
+              qty: line.qty,
+            },
+          ];
+          if (line.mustHaveItemId && line.mustHaveQty && line.mustHaveQty > 0) {
+            movements.push({
+              itemId: line.mustHaveItemId,
+              itemName: line.mustHaveItemName ?? "",
+              fromBucket: "inventory",
+              toBucket: "reserved",
+              fromLocationId: newLocationId || null,
+              qty: line.mustHaveQty,
+            });
+          }
+          return movements;
+        }),
+        {
+          source: {
+            type: "project",
+            id: projectRef.id,
+            label: newName.trim(),
+          },
+          user: user ? { uid: user.uid, email: user.email } : null,
+          at: now,
+        },
+      );
       await batch.commit();
 
       router.push("/projects");
@@ -457,6 +638,64 @@ export default function NewProjectPage() {
     }
   };
 
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) {
+      setError("Project name is required.");
+      return;
+    }
+
+    const structuredItems = buildProjectItems();
+    if (!structuredItems) return;
+
+    setSaving(true);
+    setError(null);
+    setAvailability(null);
+
+    let rows: StockAvailabilityRow[];
+    try {
+      rows = await checkStockAvailability(
+        flattenProjectItems(structuredItems),
+        newLocationId || null,
+      );
+    } catch (err: any) {
+      console.error("Error checking stock availability", err);
+      setError(err?.message ?? "Unable to check stock availability.");
+      setSaving(false);
+      return;
+    }
+
+    const shortages = rows.filter((row) => row.shortQty > 0);
+    if (shortages.length) {
+      setAvailability({
+        sections: newLineSections,
+        locationId: newLocationId,
+        structuredItems,
+        rows,
+      });
+      setSaving(false);
+      return;
+    }
+    await createProject(structuredItems, [], null);
+  };
+
+  const activeShortages =
+    availability &&
+    availability.sections === newLineSections &&
+    availability.locationId === newLocationId
+      ? availability.rows.filter((row) => row.shortQty > 0)
+      : [];
+  const shortageGroups = groupShortagesBySupplier(activeShortages);
+
+  const handleResolveShortage = async (resolution: ShortageResolution) => {
+    if (!availability || !activeShortages.length) return;
+    await createProject(
+      availability.structuredItems,
+      activeShortages,
+      resolution,
+    );
+  };
+
   return (
     <main className="ims-content">
       <section className="ims-page-header ims-page-header--with-actions">
@@ -489,6 +728,81 @@ export default function NewProjectPage() {
       {error && (
         <div className="ims-alert ims-alert--error">{error}</div>
       )}
+      {notice && !error && (
+        <div className="ims-alert ims-alert--info">{notice}</div>
+      )}
+
+      {activeShortages.length > 0 && (
+        <section className="ims-form-section card">
+          <div className="ims-table-header">
+            <div>
+              <h2 className="ims-form-section-title">Stock shortage</h2>
+              <p className="ims-form-section-subtitle">
+                {activeShortages.length} item
+                {activeShortages.length === 1 ? " is" : "s are"} short of
+                on-hand inventory
+                {newLocationId ? " at the chosen location" : ""}. Adjust the lines, reserve as a backorder
+                (inventory goes negative until stock arrives) or also raise
+                draft purchases for the shortfall.
+              </p>
+            </div>
+          </div>
+          <div className="ims-table-wrapper">
+            <table className="ims-table ims-table--compact">
+              <thead>
+                <tr>
+                  <th>Item</th>
+                  <th>Required</th>
+                  <th>On hand</th>
+                  <th>Short</th>
+                  <th>Supplier 1</th>
+                </tr>
+              </thead>
+              <tbody>
+                {activeShortages.map((row) => (
+                  <tr key={row.itemId}>
+                    <td>
+                      {row.itemName}
+                      {row.sku ? ` (${row.sku})` : ""}
+                    </td>
+                    <td>{row.requiredQty}</td>
+                    <td>{row.availableQty}</td>
+                    <td>{row.shortQty}</td>
+                    <td>{row.supplierName || "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="ims-page-actions" style={{ gap: "0.5rem" }}>
+            <button
+              type="button"
+              className="ims-secondary-button"
+              onClick={() => setAvailability(null)}
+              disabled={saving}
+            >
+              Adjust lines
+            </button>
+            <button
+              type="button"
+              className="ims-secondary-button"
+              onClick={() => handleResolveShortage("backorder")}
+              disabled={saving}
+            >
+              Reserve as backorder
+            </button>
+            <button
+              type="button"
+              className="ims-primary-button"
+              onClick={() => handleResolveShortage("purchase")}
+              disabled={saving}
+            >
+              Reserve and draft {shortageGroups.length} purchase
+              {shortageGroups.length === 1 ? "" : "s"}
+            </button>
+          </div>
+        </section>
+      )}
 
       {loadingItems ? (
         <p>Loading inventory options…</p>
@@ -523,6 +837,31 @@ export default function NewProjectPage() {
             />
           </div>
 
+          <div className="ims-field">
+            <label className="ims-field-label" htmlFor="projLocation">
+              Reserve stock from
+            </label>
+            <select
+              id="projLocation"
+              className="ims-field-input"
+              value={newLocationId}
+              onChange={(e) => setNewLocationId(e.target.value)}
+            >
+              <option value="">Unassigned stock</option>
+              {locations
+                .filter((location) => location.active)
+                .map((location) => (
+                  <option key={location.id} value={location.id}>
+                    {getLocationPath(location.id, locationsById)}
+                  </option>
+                ))}
+            </select>
+            <p className="ims-field-help">
+              Reserved quantities are taken from this location&apos;s
+              inventory.
+            </p>
+          </div>
+
           <hr className="ims-form-divider" />
 
           <div className="ims-field">
@@ -14,14 +14,16 @@ import {
   collection,
   getDocs,
   updateDoc,
-  doc,
   query,
   orderBy,
   Timestamp,
-  writeBatch,
-  increment,
 } from "firebase/firestore";
-import { createOrUpdateProductTracking } from "@/lib/productTracking";
+import ExportButtons from "@/app/_components/ExportButtons";
+import {
+  downloadExport,
+  type ExportColumn,
+  type ExportFormat,
+} from "@/lib/exports";
 import {
   ProjectItemCategory,
   PROJECT_ITEM_LABELS,
@@ -30,6 +32,10 @@ import {
   parseProjectItems,
   flattenProjectItems,
 } from "./_projectItemUtils";
+import {
+  describeTransitionResult,
+  requestProjectStatusChange,
+} from "./_projectStatusRequest";
 
 type ProjectStatus = "reserved" | "wip" | "complete";
 
@@ -45,6 +51,36 @@ type Project = {
   completedAt?: Timestamp | null;
 };
 
+const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  reserved: "Reserved",
+  wip: "WIP",
+  complete: "Complete",
+};
+
+const projectExportColumns: ExportColumn<Project>[] = [
+  { label: "Project", value: (project) => project.name },
+  { label: "HubSpot deal ID", value: (project) => project.hubspotDealId },
+  {
+    label: "Status",
+    value: (project) => PROJECT_STATUS_LABELS[project.status] ?? project.status,
+  },
+  {
+    label: "Items",
+    value: (project) =>
+      project.items
+        .map((line) => `${line.qty} × ${line.itemName}`)
+        .join("; "),
+  },
+  {
+    label: "Total qty",
+    kind: "number",
+    value: (project) =>
+      project.items.reduce((sum, line) => sum + line.qty, 0),
+  },
+  { label: "Created", kind: "date", value: (project) => project.createdAt },
+  { label: "Updated", kind: "date", value: (project) => project.updatedAt },
+  { label: "Completed", kind: "date", value: (project) => project.completedAt },
+];
 
 export default function ProjectsWipPage() {
   const router = useRouter();
@@ -101,31 +137,12 @@ export default function ProjectsWipPage() {
     loadData();
   }, []);
 
-  const createProductTrackingRecords = async (
-    project: Project,
-    completedAt: Timestamp,
-  ) => {
-    await Promise.all(
-      project.items.map(async (line) => {
-        if (!line.itemId) return;
-        await createOrUpdateProductTracking(
-          project,
-          line.itemId,
-          line.itemName,
-          line.qty || 0,
-          completedAt,
-          line.itemType,
-        );
-      }),
-    );
-  };
   /**
    * Move project between Reserved / WIP / Complete.
    *
-   * Inventory:
-   *  - Only changes on creation (inventory → reserved).
-   *
-   * Stock bucket transitions:
+   * The transition runs server-side in one Firestore transaction (project
+   * status, ledger bucket movements, product tracking and the HubSpot stage
+   * push), keyed so a double drop cannot move stock twice:
    *  reserved → wip:       reserved--, wip++
    *  wip → complete:       wip--, completed++
    *  reserved → complete:  reserved--, completed++
@@ -139,134 +156,16 @@ export default function ProjectsWipPage() {
   ) => {
     if (project.status === targetStatus) return;
 
-    const fromStatus = project.status;
-
     setMoving(project.id);
     setError(null);
     setMessage(null);
 
     try {
-      const now = Timestamp.now();
-      const batch = writeBatch(db);
-      const shouldTrackCompletion =
-        targetStatus === "complete" && fromStatus !== "complete";
-
-      // Update project status
-      const projRef = doc(db, "projects", project.id);
-      const projectUpdates: any = {
-        status: targetStatus,
-        updatedAt: now,
-      };
-      if (targetStatus === "complete") {
-        projectUpdates.completedAt = now;
-      } else if (fromStatus === "complete") {
-        projectUpdates.completedAt = null;
-      }
-      batch.update(projRef, projectUpdates);
-
-      const computeDeltas = (qty: number) => {
-        let reservedDelta = 0;
-        let wipDelta = 0;
-        let completedDelta = 0;
-
-        if (fromStatus === "reserved" && targetStatus === "wip") {
-          reservedDelta = -qty;
-          wipDelta = +qty;
-        } else if (fromStatus === "wip" && targetStatus === "complete") {
-          wipDelta = -qty;
-          completedDelta = +qty;
-        } else if (
-          fromStatus === "reserved" &&
-          targetStatus === "complete"
-        ) {
-          reservedDelta = -qty;
-          completedDelta = +qty;
-        } else if (
-          fromStatus === "wip" &&
-          targetStatus === "reserved"
-        ) {
-          wipDelta = -qty;
-          reservedDelta = +qty;
-        } else if (
-          fromStatus === "complete" &&
-          targetStatus === "wip"
-        ) {
-          completedDelta = -qty;
-          wipDelta = +qty;
-        } else if (
-          fromStatus === "complete" &&
-          targetStatus === "reserved"
-        ) {
-          completedDelta = -qty;
-          reservedDelta = +qty;
-        }
-
-        return { reservedDelta, wipDelta, completedDelta };
-      };
-
-      project.items.forEach((line) => {
-        const qty = line.qty || 0;
-        if (!line.itemId || !qty) return;
-
-        const { reservedDelta, wipDelta, completedDelta } =
-          computeDeltas(qty);
-
-        if (
-          reservedDelta === 0 &&
-          wipDelta === 0 &&
-          completedDelta === 0
-        ) {
-          return;
-        }
-
-        const itemRef = doc(db, "items", line.itemId);
-        const updates: any = { updatedAt: now };
-
-        if (reservedDelta) {
-          updates.reservedQty = increment(reservedDelta);
-        }
-        if (wipDelta) {
-          updates.wipQty = increment(wipDelta);
-        }
-        if (completedDelta) {
-          updates.completedQty = increment(completedDelta);
-        }
-
-        batch.update(itemRef, updates);
-
-        if (line.mustHaveItemId && line.mustHaveQty && line.mustHaveQty > 0) {
-          const mQty = line.mustHaveQty;
-          const mDeltas = computeDeltas(mQty);
-          if (
-            mDeltas.reservedDelta === 0 &&
-            mDeltas.wipDelta === 0 &&
-            mDeltas.completedDelta === 0
-          ) {
-            return;
-          }
-
-          const mustRef = doc(db, "items", line.mustHaveItemId);
-          const mUpdates: any = { updatedAt: now };
-
-          if (mDeltas.reservedDelta) {
-            mUpdates.reservedQty = increment(mDeltas.reservedDelta);
-          }
-          if (mDeltas.wipDelta) {
-            mUpdates.wipQty = increment(mDeltas.wipDelta);
-          }
-          if (mDeltas.completedDelta) {
-            mUpdates.completedQty = increment(mDeltas.completedDelta);
-          }
-
-          batch.update(mustRef, mUpdates);
-        }
-      });
-
-      await batch.commit();
-      if (shouldTrackCompletion) {
-        await createProductTrackingRecords(project, now);
-      }
-      setMessage("Project status changed and stock buckets updated.");
+      const result = await requestProjectStatusChange(
+        project,
+        targetStatus,
+      );
+      setMessage(describeTransitionResult(result));
       await loadData();
     } catch (err: any) {
       console.error("Error moving project", err);
@@ -366,6 +265,15 @@ export default function ProjectsWipPage() {
     .filter((p) => p.status === "complete")
     .filter(filterProject);
 
+  const handleExport = (format: ExportFormat) =>
+    downloadExport({
+      baseName: "projects",
+      format,
+      sheetName: "Projects",
+      columns: projectExportColumns,
+      rows: [...reservedProjects, ...wipProjects, ...completedProjects],
+    });
+
   return (
     <main className="ims-content">
       <section className="ims-page-header ims-page-header--with-actions">
@@ -386,6 +294,21 @@ export default function ProjectsWipPage() {
             onChange={handleSearchChange}
             style={{ minWidth: "260px" }}
           />
+          <ExportButtons onExport={handleExport} disabled={loading} />
+          <button
+            type="button"
+            className="ims-secondary-button"
+            onClick={() => router.push("/projects/hubspot-events")}
+          >
+            HubSpot events
+          </button>
+          <button
+            type="button"
+            className="ims-secondary-button"
+            onClick={() => router.push("/projects/hubspot-import")}
+          >
+            Import from HubSpot
+          </button>
           <button
             type="button"
             className="ims-primary-button"
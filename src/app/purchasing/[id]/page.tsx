@@ -10,14 +10,24 @@ import {
 import Link from "next/link";
 import { useParams } from "next/navigation";
 import { db } from "@/lib/firebase";
+import { doc, getDoc, Timestamp, updateDoc } from "firebase/firestore";
 import {
-  doc,
-  getDoc,
-  Timestamp,
-  updateDoc,
-  writeBatch,
-  increment,
-} from "firebase/firestore";
+  fetchPurchaseGoodsReceipts,
+  getLineOutstandingQty,
+  getLineReceivedQty,
+  isReceiptStatus,
+  PURCHASE_STATUS_LABELS,
+  PURCHASE_STATUSES,
+  recordGoodsReceipt,
+  reverseGoodsReceipt,
+  type GoodsReceipt,
+  type PurchaseStatus,
+} from "@/lib/goodsReceipts";
+import {
+  fetchLocations,
+  getLocationPath,
+  type StockLocation,
+} from "@/lib/locations";
 import { useAuth } from "@/app/_components/AuthProvider";
 
 type PurchaseLine = {
@@ -30,6 +40,7 @@ type PurchaseLine = {
   deliveryShare?: number | null;
   adjustedUnitPrice?: number | null;
   adjustedLineTotal?: number | null;
+  receivedQty?: number | null;
 };
 
 type PurchaseAttachment = {
@@ -69,26 +80,30 @@ type PurchaseRecord = {
   internalNotes: PurchaseNote[];
 };
 
-type PurchaseStatus = "draft" | "paid" | "stock_received";
-
 const statusThemes: Record<
   PurchaseStatus,
   { label: string; bg: string; color: string; border: string }
 > = {
   draft: {
-    label: "Draft",
+    label: PURCHASE_STATUS_LABELS.draft,
     bg: "#fef3c7",
     color: "#92400e",
     border: "#fcd34d",
   },
   paid: {
-    label: "Paid",
+    label: PURCHASE_STATUS_LABELS.paid,
     bg: "#dbeafe",
     color: "#1d4ed8",
     border: "#93c5fd",
   },
+  partially_received: {
+    label: PURCHASE_STATUS_LABELS.partially_received,
+    bg: "#ede9fe",
+    color: "#5b21b6",
+    border: "#c4b5fd",
+  },
   stock_received: {
-    label: "Stock received",
+    label: PURCHASE_STATUS_LABELS.stock_received,
     bg: "#dcfce7",
     color: "#166534",
     border: "#86efac",
@@ -133,10 +148,18 @@ export default function PurchaseDetailPage() {
   const [statusUpdating, setStatusUpdating] = useState(false);
   const [statusError, setStatusError] = useState<string | null>(null);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
-  const [lineDrafts, setLineDrafts] = useState<string[]>([]);
-  const [lineSaving, setLineSaving] = useState(false);
-  const [lineError, setLineError] = useState<string | null>(null);
-  const [lineMessage, setLineMessage] = useState<string | null>(null);
+  const [receiptDrafts, setReceiptDrafts] = useState<string[]>([]);
+  const [deliveryReference, setDeliveryReference] = useState("");
+  const [receiptNote, setReceiptNote] = useState("");
+  const [receiptLocationId, setReceiptLocationId] = useState("");
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [receiptSaving, setReceiptSaving] = useState(false);
+  const [receiptError, setReceiptError] = useState<string | null>(null);
+  const [receiptMessage, setReceiptMessage] = useState<string | null>(null);
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+  const [reversingReceiptId, setReversingReceiptId] = useState<string | null>(
+    null,
+  );
   const [uploadingFiles, setUploadingFiles] = useState(false);
   const [attachmentMessage, setAttachmentMessage] = useState<string | null>(null);
   const [attachmentError, setAttachmentError] = useState<string | null>(null);
@@ -202,82 +225,88 @@ export default function PurchaseDetailPage() {
   }, [purchaseId]);
 
   useEffect(() => {
-    if (purchase?.lineItems) {
-      setLineDrafts(
-        purchase.lineItems.map((line) =>
-          typeof line.quantity === "number" ? String(line.quantity) : "",
-        ),
-      );
-    } else {
-      setLineDrafts([]);
-    }
+    if (!purchaseId) return;
+    fetchPurchaseGoodsReceipts(purchaseId)
+      .then(setReceipts)
+      .catch((err) => {
+        console.error("Error loading goods receipts", err);
+      });
+  }, [purchaseId]);
+
+  useEffect(() => {
+    fetchLocations()
+      .then(setLocations)
+      .catch((err) => {
+        console.error("Error loading locations", err);
+      });
+  }, []);
+
+  useEffect(() => {
+    setReceiptDrafts(purchase ? purchase.lineItems.map(() => "") : []);
   }, [purchase]);
 
+  const locationsById = useMemo(
+    () => new Map(locations.map((location) => [location.id, location])),
+    [locations],
+  );
+
   const statusTheme = useMemo(() => {
     if (!purchase) return statusThemes.draft;
     return statusThemes[purchase.status];
   }, [purchase]);
 
-  const applyInventoryFromPurchase = async (
-    lines: PurchaseLine[],
-    timestamp: Timestamp,
-  ) => {
-    const quantityMap = new Map<string, number>();
-    lines.forEach((line) => {
-      if (!line.itemId) return;
-      const qty =
-        typeof line.quantity === "number" && line.quantity > 0
-          ? line.quantity
-          : null;
-      if (!qty) return;
-      quantityMap.set(line.itemId, (quantityMap.get(line.itemId) ?? 0) + qty);
-    });
-    if (quantityMap.size === 0) return;
-    const batch = writeBatch(db);
-    quantityMap.forEach((qty, itemId) => {
-      const itemRef = doc(db, "items", itemId);
-      batch.update(itemRef, {
-        inventoryQty: increment(qty),
-        updatedAt: timestamp,
-      });
-    });
-    await batch.commit();
-  };
+  const hasReceivedStock = useMemo(
+    () =>
+      Boolean(purchase) &&
+      purchase!.lineItems.some(
+        (line) => getLineReceivedQty(line, purchase) > 0,
+      ),
+    [purchase],
+  );
 
   const handleStatusChange = async (nextStatus: PurchaseStatus) => {
     if (!purchase || nextStatus === purchase.status) return;
-    setStatusUpdating(true);
     setStatusError(null);
     setStatusMessage(null);
-    const now = Timestamp.now();
-    const shouldApplyInventory =
-      nextStatus === "stock_received" && !purchase.stockAppliedAt;
+    if (nextStatus === "partially_received") {
+      setStatusError("Record a delivery below to receive part of this purchase.");
+      return;
+    }
+    if (!isReceiptStatus(nextStatus) && hasReceivedStock) {
+      setStatusError("Stock has already been received against this purchase.");
+      return;
+    }
+    setStatusUpdating(true);
 
     try {
-      if (shouldApplyInventory) {
-        await applyInventoryFromPurchase(purchase.lineItems, now);
+      if (nextStatus === "stock_received") {
+        const receipt = await recordGoodsReceipt({
+          purchaseId: purchase.id,
+          lines: "outstanding",
+          locationId: receiptLocationId || null,
+          user: user ? { uid: user.uid, email: user.email } : null,
+        });
+        setPurchase((prev) =>
+          prev
+            ? {
+                ...prev,
+                status: receipt.status,
+                lineItems: receipt.lineItems,
+                stockAppliedAt: receipt.receivedAt,
+              }
+            : prev,
+        );
+        setReceipts(await fetchPurchaseGoodsReceipts(purchase.id));
+        setStatusMessage("Outstanding quantities received and stock added.");
+        return;
       }
 
       await updateDoc(doc(db, "purchases", purchase.id), {
         status: nextStatus,
-        updatedAt: now,
-        ...(shouldApplyInventory ? { stockAppliedAt: now } : {}),
+        updatedAt: Timestamp.now(),
       });
-
-      setPurchase((prev) =>
-        prev
-          ? {
-              ...prev,
-              status: nextStatus,
-              stockAppliedAt: shouldApplyInventory ? now : prev.stockAppliedAt,
-            }
-          : prev,
-      );
-      setStatusMessage(
-        shouldApplyInventory
-          ? "Status updated and stock added."
-          : "Status updated.",
-      );
+      setPurchase((prev) => (prev ? { ...prev, status: nextStatus } : prev));
+      setStatusMessage("Status updated.");
     } catch (err: any) {
       console.error("Error updating purchase status", err);
       setStatusError(err?.message ?? "Unable to update status.");
@@ -286,8 +315,6 @@ export default function PurchaseDetailPage() {
     }
   };
 
-  const canEditStockCounts = purchase?.status === "stock_received";
-
   const itemsSubtotal = useMemo(() => {
     if (!purchase) return 0;
     return purchase.lineItems.reduce((sum, line) => {
@@ -298,93 +325,119 @@ export default function PurchaseDetailPage() {
     }, 0);
   }, [purchase]);
 
-  const lineChangesPending = useMemo(() => {
-    if (!purchase || purchase.lineItems.length === 0) return false;
-    if (purchase.lineItems.length !== lineDrafts.length) {
-      return true;
-    }
-    return purchase.lineItems.some((line, idx) => {
-      const base =
-        typeof line.quantity === "number" ? String(line.quantity) : "";
-      const draft = lineDrafts[idx] ?? base;
-      return draft !== base;
-    });
-  }, [purchase, lineDrafts]);
+  const outstandingTotal = useMemo(() => {
+    if (!purchase) return 0;
+    return purchase.lineItems.reduce(
+      (sum, line) => sum + getLineOutstandingQty(line, purchase),
+      0,
+    );
+  }, [purchase]);
 
-  const handleLineDraftChange = (index: number, value: string) => {
-    setLineError(null);
-    setLineMessage(null);
-    setLineDrafts((prev) => {
+  const handleReceiptDraftChange = (index: number, value: string) => {
+    setReceiptError(null);
+    setReceiptMessage(null);
+    setReceiptDrafts((prev) => {
       const next = [...prev];
       next[index] = value;
       return next;
     });
   };
 
-  const handleSaveLineCounts = async () => {
-    if (!purchase || !canEditStockCounts || !purchase.lineItems.length) {
-      return;
-    }
-    setLineSaving(true);
-    setLineError(null);
-    setLineMessage(null);
-
-    const updatedLines: PurchaseLine[] = [];
+  const handleRecordReceipt = async () => {
+    if (!purchase) return;
+    const lines: { lineIndex: number; qty: number }[] = [];
     for (let idx = 0; idx < purchase.lineItems.length; idx += 1) {
-      const line = purchase.lineItems[idx];
-      const raw = lineDrafts[idx] ?? "";
-      if (raw.trim() === "") {
-        setLineError("Enter a quantity for every line item.");
-        setLineSaving(false);
-        return;
-      }
-      const parsed = Number(raw);
-      if (!Number.isFinite(parsed) || parsed < 0) {
-        setLineError("Stock counts must be numbers zero or above.");
-        setLineSaving(false);
+      const raw = (receiptDrafts[idx] ?? "").trim();
+      if (!raw) continue;
+      const qty = Number(raw);
+      if (!Number.isFinite(qty) || qty < 0) {
+        setReceiptError("Received quantities must be numbers zero or above.");
         return;
       }
-      const quantity = parsed;
-      const hasUnitPrice = typeof line.unitPrice === "number";
-      const computedLineTotal =
-        hasUnitPrice && quantity != null
-          ? (line.unitPrice as number) * quantity
-          : line.lineTotal ?? null;
-      const deliveryShare =
-        typeof line.deliveryShare === "number" ? line.deliveryShare : 0;
-      const adjustedLineTotal =
-        computedLineTotal != null
-          ? computedLineTotal + deliveryShare
-          : deliveryShare > 0
-            ? deliveryShare
-            : null;
-      const adjustedUnitPrice =
-        hasUnitPrice && quantity > 0 && adjustedLineTotal != null
-          ? adjustedLineTotal / quantity
-          : line.adjustedUnitPrice ?? null;
-      updatedLines.push({
-        ...line,
-        quantity,
-        lineTotal: computedLineTotal,
-        adjustedLineTotal,
-        adjustedUnitPrice,
+      if (qty > 0) lines.push({ lineIndex: idx, qty });
+    }
+    if (!lines.length) {
+      setReceiptError("Enter a received quantity for at least one line.");
+      return;
+    }
+
+    setReceiptSaving(true);
+    setReceiptError(null);
+    setReceiptMessage(null);
+    try {
+      const receipt = await recordGoodsReceipt({
+        purchaseId: purchase.id,
+        lines,
+        deliveryReference: deliveryReference.trim() || null,
+        note: receiptNote.trim() || null,
+        locationId: receiptLocationId || null,
+        user: user ? { uid: user.uid, email: user.email } : null,
       });
+      setPurchase((prev) =>
+        prev
+          ? {
+              ...prev,
+              status: receipt.status,
+              lineItems: receipt.lineItems,
+              stockAppliedAt:
+                receipt.status === "stock_received" ? receipt.receivedAt : null,
+            }
+          : prev,
+      );
+      setReceipts(await fetchPurchaseGoodsReceipts(purchase.id));
+      setDeliveryReference("");
+      setReceiptNote("");
+      setReceiptMessage(
+        receipt.status === "stock_received"
+          ? "Delivery recorded. Every line is now fully received."
+          : "Delivery recorded and stock added.",
+      );
+    } catch (err: any) {
+      console.error("Error recording goods receipt", err);
+      setReceiptError(err?.message ?? "Unable to record delivery.");
+    } finally {
+      setReceiptSaving(false);
     }
+  };
 
+  const handleReverseReceipt = async (receipt: GoodsReceipt) => {
+    if (!purchase) return;
+    const confirmed = window.confirm(
+      `Undo this delivery? Its stock will be removed from inventory${
+        receipt.unitCount
+          ? ` and ${receipt.unitCount} serialized unit${receipt.unitCount === 1 ? "" : "s"} deleted`
+          : ""
+      }.`,
+    );
+    if (!confirmed) return;
+    setReversingReceiptId(receipt.id);
+    setReceiptError(null);
+    setReceiptMessage(null);
     try {
-      await updateDoc(doc(db, "purchases", purchase.id), {
-        lineItems: updatedLines,
-        updatedAt: Timestamp.now(),
+      const reversed = await reverseGoodsReceipt({
+        receiptId: receipt.id,
+        user: user ? { uid: user.uid, email: user.email } : null,
       });
       setPurchase((prev) =>
-        prev ? { ...prev, lineItems: updatedLines } : prev,
+        prev
+          ? {
+              ...prev,
+              status: reversed.status,
+              lineItems: reversed.lineItems,
+              stockAppliedAt:
+                reversed.status === "stock_received"
+                  ? prev.stockAppliedAt
+                  : null,
+            }
+          : prev,
       );
-      setLineMessage("Stock counts saved.");
+      setReceipts(await fetchPurchaseGoodsReceipts(purchase.id));
+      setReceiptMessage("Delivery reversed and stock removed.");
     } catch (err: any) {
-      console.error("Error updating stock counts", err);
-      setLineError(err?.message ?? "Unable to save stock counts.");
+      console.error("Error reversing goods receipt", err);
+      setReceiptError(err?.message ?? "Unable to reverse delivery.");
     } finally {
-      setLineSaving(false);
+      setReversingReceiptId(null);
     }
   };
 
@@ -624,7 +677,7 @@ export default function PurchaseDetailPage() {
                 }
                 disabled={statusUpdating}
               >
-                {(Object.keys(statusThemes) as PurchaseStatus[]).map((key) => (
+                {PURCHASE_STATUSES.map((key) => (
                   <option key={key} value={key}>
                     {statusThemes[key].label}
                   </option>
@@ -696,9 +749,9 @@ export default function PurchaseDetailPage() {
                 <p className="ims-form-section-subtitle">
                   Products, quantities and unit prices recorded for this
                   purchase.{" "}
-                  {canEditStockCounts
-                    ? "Update the stock counts below to match what was received."
-                    : 'Stock counts unlock once the status is "Stock received".'}
+                  {outstandingTotal > 0
+                    ? "Enter what arrived in each delivery to add it to stock."
+                    : "Every line has been received."}
                 </p>
               </div>
             </div>
@@ -706,85 +759,63 @@ export default function PurchaseDetailPage() {
               <table className="ims-table">
                 <thead>
                   <tr>
-                    <th style={{ width: "28%" }}>Product</th>
+                    <th style={{ width: "24%" }}>Product</th>
                     <th>SKU</th>
-                    <th>Quantity</th>
+                    <th>Ordered</th>
+                    <th>Received</th>
+                    <th>Outstanding</th>
+                    <th>Receive now</th>
                     <th>Unit price</th>
                     <th>Delivery alloc</th>
                     <th>Adjusted unit</th>
-                    <th>Adjusted total</th>
                     <th>Total</th>
                   </tr>
                 </thead>
                 <tbody>
                   {purchase.lineItems.length === 0 ? (
                     <tr>
-                      <td colSpan={8} style={{ textAlign: "center" }}>
+                      <td colSpan={10} style={{ textAlign: "center" }}>
                         No line items captured for this purchase.
                       </td>
                     </tr>
                   ) : (
                     purchase.lineItems.map((line, idx) => {
-                      const fallbackQuantity =
-                        typeof line.quantity === "number"
-                          ? String(line.quantity)
-                          : "";
-                      const draftValue = lineDrafts[idx] ?? fallbackQuantity;
-                      const parsedDraft =
-                        draftValue.trim() === ""
-                          ? null
-                          : Number(draftValue);
-                      const qtyForTotal =
-                        canEditStockCounts &&
-                        parsedDraft != null &&
-                        Number.isFinite(parsedDraft)
-                          ? parsedDraft
-                          : line.quantity ?? null;
+                      const received = getLineReceivedQty(line, purchase);
+                      const outstanding = getLineOutstandingQty(line, purchase);
                       const price =
                         typeof line.unitPrice === "number"
                           ? line.unitPrice
                           : null;
-                      const value =
-                        price != null && qtyForTotal != null
-                          ? price * qtyForTotal
-                          : line.lineTotal ?? null;
                       const deliveryShare =
                         typeof line.deliveryShare === "number"
                           ? line.deliveryShare
                           : 0;
-                      const adjustedValue =
-                        value != null
-                          ? value + deliveryShare
-                          : line.adjustedLineTotal ?? null;
-                      const adjustedUnit =
-                        adjustedValue != null &&
-                        qtyForTotal != null &&
-                        qtyForTotal > 0
-                          ? adjustedValue / qtyForTotal
-                          : line.adjustedUnitPrice ?? null;
 
                       return (
                         <tr key={`${line.itemId ?? idx}-${idx}`}>
                           <td>{line.name || "Unnamed item"}</td>
                           <td>{line.sku || "—"}</td>
+                          <td>{line.quantity ?? "—"}</td>
+                          <td>{received}</td>
+                          <td>{outstanding}</td>
                           <td>
                             <input
                               type="number"
                               min="0"
+                              max={outstanding}
                               step="1"
                               className="ims-field-input"
-                              value={draftValue}
+                              value={receiptDrafts[idx] ?? ""}
                               onChange={(e) =>
-                                handleLineDraftChange(idx, e.target.value)
+                                handleReceiptDraftChange(idx, e.target.value)
                               }
-                              disabled={!canEditStockCounts}
+                              disabled={outstanding <= 0 || receiptSaving}
                             />
                           </td>
                           <td>{formatCurrency(price)}</td>
                           <td>{formatCurrency(deliveryShare)}</td>
-                          <td>{formatCurrency(adjustedUnit)}</td>
-                          <td>{formatCurrency(adjustedValue)}</td>
-                          <td>{formatCurrency(value)}</td>
+                          <td>{formatCurrency(line.adjustedUnitPrice)}</td>
+                          <td>{formatCurrency(line.lineTotal)}</td>
                         </tr>
                       );
                     })
@@ -792,34 +823,142 @@ export default function PurchaseDetailPage() {
                 </tbody>
               </table>
             </div>
-            {canEditStockCounts && purchase.lineItems.length > 0 && (
-              <div
-                style={{
-                  marginTop: "1rem",
-                  display: "flex",
-                  flexDirection: "column",
-                  gap: "0.4rem",
-                  alignItems: "flex-start",
-                }}
-              >
+            {outstandingTotal > 0 && (
+              <div style={{ marginTop: "1rem" }}>
+                <div className="ims-field-row">
+                  <div className="ims-field">
+                    <label className="ims-field-label" htmlFor="grnLocation">
+                      Put away to
+                    </label>
+                    <select
+                      id="grnLocation"
+                      className="ims-field-input"
+                      value={receiptLocationId}
+                      onChange={(e) => setReceiptLocationId(e.target.value)}
+                    >
+                      <option value="">Unassigned</option>
+                      {locations
+                        .filter((location) => location.active)
+                        .map((location) => (
+                          <option key={location.id} value={location.id}>
+                            {getLocationPath(location.id, locationsById)}
+                          </option>
+                        ))}
+                    </select>
+                  </div>
+                  <div className="ims-field">
+                    <label className="ims-field-label" htmlFor="grnReference">
+                      Delivery note reference
+                    </label>
+                    <input
+                      id="grnReference"
+                      className="ims-field-input"
+                      value={deliveryReference}
+                      onChange={(e) => setDeliveryReference(e.target.value)}
+                      placeholder="Optional"
+                    />
+                  </div>
+                  <div className="ims-field">
+                    <label className="ims-field-label" htmlFor="grnNote">
+                      Note
+                    </label>
+                    <input
+                      id="grnNote"
+                      className="ims-field-input"
+                      value={receiptNote}
+                      onChange={(e) => setReceiptNote(e.target.value)}
+                      placeholder="Damaged boxes, short shipment…"
+                    />
+                  </div>
+                </div>
                 <button
                   type="button"
                   className="ims-primary-button"
-                  onClick={handleSaveLineCounts}
-                  disabled={!lineChangesPending || lineSaving}
+                  onClick={handleRecordReceipt}
+                  disabled={receiptSaving}
                 >
-                  {lineSaving ? "Saving…" : "Save stock counts"}
+                  {receiptSaving ? "Recording…" : "Record delivery"}
                 </button>
-                {lineMessage && (
-                  <p className="ims-field-help" style={{ color: "#059669" }}>
-                    {lineMessage}
-                  </p>
-                )}
-                {lineError && (
-                  <p className="ims-field-help" style={{ color: "#b91c1c" }}>
-                    {lineError}
-                  </p>
-                )}
+              </div>
+            )}
+            {receiptMessage && (
+              <p className="ims-field-help" style={{ color: "#059669" }}>
+                {receiptMessage}
+              </p>
+            )}
+            {receiptError && (
+              <p className="ims-field-help" style={{ color: "#b91c1c" }}>
+                {receiptError}
+              </p>
+            )}
+          </section>
+
+          <section className="ims-table-card card">
+            <div className="ims-table-header">
+              <div>
+                <h2 className="ims-form-section-title">Goods received</h2>
+                <p className="ims-form-section-subtitle">
+                  Each delivery recorded against this purchase.
+                </p>
+              </div>
+            </div>
+            {receipts.length === 0 ? (
+              <p className="ims-table-empty">No deliveries recorded yet.</p>
+            ) : (
+              <div className="ims-table-wrapper">
+                <table className="ims-table ims-table--compact">
+                  <thead>
+                    <tr>
+                      <th>Received</th>
+                      <th>Delivery note</th>
+                      <th>Location</th>
+                      <th>Items</th>
+                      <th>Units</th>
+                      <th>By</th>
+                      <th>Note</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {receipts.map((receipt) => (
+                      <tr key={receipt.id}>
+                        <td>{formatDate(receipt.receivedAt)}</td>
+                        <td>{receipt.deliveryReference || "—"}</td>
+                        <td>
+                          {getLocationPath(receipt.locationId, locationsById) ||
+                            "—"}
+                        </td>
+                        <td>
+                          {receipt.lines
+                            .map(
+                              (line) =>
+                                `${line.qty} × ${line.name || line.sku || line.itemId}`,
+                            )
+                            .join(", ")}
+                        </td>
+                        <td>{receipt.unitCount || "—"}</td>
+                        <td>{receipt.receivedByEmail || "—"}</td>
+                        <td>{receipt.note || "—"}</td>
+                        <td>
+                          {receipt.reversedAt ? (
+                            `Reversed ${formatDate(receipt.reversedAt)}`
+                          ) : (
+                            <button
+                              type="button"
+                              className="ims-secondary-button"
+                              onClick={() => handleReverseReceipt(receipt)}
+                              disabled={Boolean(reversingReceiptId)}
+                            >
+                              {reversingReceiptId === receipt.id
+                                ? "Undoing…"
+                                : "Undo"}
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
             )}
           </section>
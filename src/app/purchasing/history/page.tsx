@@ -11,9 +11,21 @@ import {
   Timestamp,
   doc,
   updateDoc,
-  writeBatch,
-  increment,
 } from "firebase/firestore";
+import {
+  getLineReceivedQty,
+  isReceiptStatus,
+  PURCHASE_STATUSES,
+  recordGoodsReceipt,
+  type PurchaseStatus,
+} from "@/lib/goodsReceipts";
+import { useAuth } from "@/app/_components/AuthProvider";
+import ExportButtons from "@/app/_components/ExportButtons";
+import {
+  downloadExport,
+  type ExportColumn,
+  type ExportFormat,
+} from "@/lib/exports";
 
 type PurchaseLine = {
   itemId?: string | null;
@@ -22,6 +34,7 @@ type PurchaseLine = {
   quantity?: number | null;
   unitPrice?: number | null;
   lineTotal?: number | null;
+  receivedQty?: number | null;
 };
 
 type PurchaseRecord = {
@@ -38,8 +51,6 @@ type PurchaseRecord = {
   stockAppliedAt?: Timestamp | null;
 };
 
-type PurchaseStatus = "draft" | "paid" | "stock_received";
-
 const formatCurrency = (value?: number | null) => {
   if (value == null || Number.isNaN(value)) return "—";
   return `£${value.toFixed(2)}`;
@@ -58,7 +69,32 @@ const formatDate = (timestamp?: Timestamp | null) => {
   }
 };
 
+const purchaseExportColumns: ExportColumn<PurchaseRecord>[] = [
+  { label: "Vendor", value: (purchase) => purchase.vendorName },
+  { label: "Reference", value: (purchase) => purchase.reference },
+  { label: "Date", kind: "date", value: (purchase) => purchase.purchaseDate },
+  {
+    label: "Proposed delivery",
+    kind: "date",
+    value: (purchase) => purchase.proposedDeliveryDate,
+  },
+  { label: "Status", value: (purchase) => purchase.status.replace("_", " ") },
+  {
+    label: "Lines",
+    kind: "number",
+    value: (purchase) => purchase.lineItems.length,
+  },
+  { label: "Total", kind: "money", value: (purchase) => purchase.totalAmount },
+  {
+    label: "Stock received",
+    kind: "date",
+    value: (purchase) => purchase.stockAppliedAt,
+  },
+  { label: "Notes", value: (purchase) => purchase.notes },
+];
+
 export default function PurchaseHistoryPage() {
+  const { user } = useAuth();
   const [purchases, setPurchases] = useState<PurchaseRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -105,8 +141,6 @@ export default function PurchaseHistoryPage() {
     load();
   }, []);
 
-  const purchaseStatuses: PurchaseStatus[] = ["draft", "paid", "stock_received"];
-
   const toIsoDate = (timestamp?: Timestamp | null) => {
     if (!timestamp) return null;
     try {
@@ -148,63 +182,56 @@ export default function PurchaseHistoryPage() {
 
   const unscheduledPurchases = deliveriesByDay.get("unscheduled") ?? [];
 
-  const applyInventoryFromPurchase = async (
-    purchase: PurchaseRecord,
-    timestamp: Timestamp,
-  ) => {
-    const quantityMap = new Map<string, number>();
-    purchase.lineItems.forEach((line) => {
-      const itemId = line.itemId;
-      if (!itemId) return;
-      const qty =
-        typeof line.quantity === "number" && line.quantity > 0
-          ? line.quantity
-          : null;
-      if (!qty) return;
-      quantityMap.set(itemId, (quantityMap.get(itemId) ?? 0) + qty);
-    });
-    if (quantityMap.size === 0) return;
-    const batch = writeBatch(db);
-    quantityMap.forEach((qty, itemId) => {
-      batch.update(doc(db, "items", itemId), {
-        inventoryQty: increment(qty),
-        updatedAt: timestamp,
-      });
-    });
-    await batch.commit();
-  };
-
   const handleStatusUpdate = async (
     purchase: PurchaseRecord,
     nextStatus: PurchaseStatus,
   ) => {
     if (purchase.status === nextStatus) return;
-    setStatusUpdatingId(purchase.id);
     setCalendarMessage(null);
     setCalendarError(null);
-    const now = Timestamp.now();
-    const shouldApplyInventory =
-      nextStatus === "stock_received" && !purchase.stockAppliedAt;
+    if (nextStatus === "partially_received") {
+      setCalendarError(
+        "Record part of a delivery from the purchase page instead.",
+      );
+      return;
+    }
+    const hasReceivedStock = purchase.lineItems.some(
+      (line) => getLineReceivedQty(line, purchase) > 0,
+    );
+    if (!isReceiptStatus(nextStatus) && hasReceivedStock) {
+      setCalendarError("Stock has already been received against this purchase.");
+      return;
+    }
+    setStatusUpdatingId(purchase.id);
     try {
-      if (shouldApplyInventory) {
-        await applyInventoryFromPurchase(purchase, now);
+      if (nextStatus === "stock_received") {
+        const receipt = await recordGoodsReceipt({
+          purchaseId: purchase.id,
+          lines: "outstanding",
+          user: user ? { uid: user.uid, email: user.email } : null,
+        });
+        setPurchases((prev) =>
+          prev.map((row) =>
+            row.id === purchase.id
+              ? {
+                  ...row,
+                  status: receipt.status,
+                  lineItems: receipt.lineItems,
+                  stockAppliedAt: receipt.receivedAt,
+                }
+              : row,
+          ),
+        );
+        setCalendarMessage("Outstanding quantities received and stock added.");
+        return;
       }
       await updateDoc(doc(db, "purchases", purchase.id), {
         status: nextStatus,
-        updatedAt: now,
-        ...(shouldApplyInventory ? { stockAppliedAt: now } : {}),
+        updatedAt: Timestamp.now(),
       });
       setPurchases((prev) =>
         prev.map((row) =>
-          row.id === purchase.id
-            ? {
-                ...row,
-                status: nextStatus,
-                stockAppliedAt: shouldApplyInventory
-                  ? now
-                  : row.stockAppliedAt,
-              }
-            : row,
+          row.id === purchase.id ? { ...row, status: nextStatus } : row,
         ),
       );
       setCalendarMessage("Purchase status updated.");
@@ -226,6 +253,18 @@ export default function PurchaseHistoryPage() {
           </p>
         </div>
         <div className="ims-page-actions">
+          <ExportButtons
+            onExport={(format: ExportFormat) =>
+              downloadExport({
+                baseName: "purchases",
+                format,
+                sheetName: "Purchases",
+                columns: purchaseExportColumns,
+                rows: purchases,
+              })
+            }
+            disabled={loading || purchases.length === 0}
+          />
           <Link href="/purchasing" className="ims-secondary-button">
             + Log new purchase
           </Link>
@@ -375,7 +414,7 @@ export default function PurchaseHistoryPage() {
                             }
                             disabled={isUpdating}
                           >
-                            {purchaseStatuses.map((status) => (
+                            {PURCHASE_STATUSES.map((status) => (
                               <option key={status} value={status}>
                                 {status.replace("_", " ")}
                               </option>
@@ -435,7 +474,7 @@ export default function PurchaseHistoryPage() {
                         }
                         disabled={isUpdating}
                       >
-                        {purchaseStatuses.map((status) => (
+                        {PURCHASE_STATUSES.map((status) => (
                           <option key={status} value={status}>
                             {status.replace("_", " ")}
                           </option>
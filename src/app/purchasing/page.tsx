@@ -10,12 +10,17 @@ import {
   orderBy,
   addDoc,
   Timestamp,
-  writeBatch,
   doc,
-  increment,
-  getDoc,
   updateDoc,
 } from "firebase/firestore";
+import { createReceivedPurchase, type PurchaseStatus } from "@/lib/goodsReceipts";
+import { useAuth } from "@/app/_components/AuthProvider";
+import {
+  applyOrderMultiples,
+  fetchSupplierItems,
+  getExpectedDeliveryDate,
+  type SupplierItem,
+} from "@/lib/supplierCatalogue";
 
 type ItemOption = {
   id: string;
@@ -61,8 +66,6 @@ type PurchaseFormState = {
   status: PurchaseStatus;
 };
 
-type PurchaseStatus = "draft" | "paid" | "stock_received";
-
 const todayIso = () => new Date().toISOString().split("T")[0];
 const nextWeekIso = () => {
   const date = new Date();
@@ -78,6 +81,7 @@ const emptyLine = (id: number): PurchaseLineState => ({
 });
 
 export default function PurchasingPage() {
+  const { user } = useAuth();
   const [items, setItems] = useState<ItemOption[]>([]);
   const [lines, setLines] = useState<PurchaseLineState[]>([emptyLine(1)]);
   const [lineCounter, setLineCounter] = useState(1);
@@ -99,6 +103,7 @@ export default function PurchasingPage() {
   const [supplierSaving, setSupplierSaving] = useState(false);
   const [supplierActionError, setSupplierActionError] = useState<string | null>(null);
   const [supplierActionMessage, setSupplierActionMessage] = useState<string | null>(null);
+  const [catalogue, setCatalogue] = useState<SupplierItem[]>([]);
   const [loadingItems, setLoadingItems] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -130,6 +135,62 @@ export default function PurchasingPage() {
     loadItems();
   }, []);
 
+  useEffect(() => {
+    fetchSupplierItems()
+      .then(setCatalogue)
+      .catch((err) => console.error("Error loading supplier catalogue", err));
+  }, []);
+
+  const getCatalogueEntry = (supplierId: string, itemId: string) =>
+    supplierId && itemId
+      ? (catalogue.find(
+          (entry) => entry.supplierId === supplierId && entry.itemId === itemId,
+        ) ?? null)
+      : null;
+
+  /**
+   * Fill blank prices and quantities from the supplier's catalogue and move
+   * the proposed delivery date out to the longest lead time on the order.
+   * Prices are only filled from GBP entries since purchases are in pounds.
+   */
+  const applyCatalogueDefaults = (
+    nextLines: PurchaseLineState[],
+    supplierId: string,
+  ) => {
+    let longestLeadTime: number | null = null;
+    const filled = nextLines.map((line) => {
+      const entry = getCatalogueEntry(supplierId, line.itemId);
+      if (!entry) return line;
+      if (entry.leadTimeDays !== null) {
+        longestLeadTime = Math.max(longestLeadTime ?? 0, entry.leadTimeDays);
+      }
+      return {
+        ...line,
+        unitPrice:
+          line.unitPrice.trim() === "" &&
+          entry.unitPrice !== null &&
+          entry.currency === "GBP"
+            ? String(entry.unitPrice)
+            : line.unitPrice,
+        quantity:
+          line.quantity.trim() === "" && (entry.moq || entry.packSize)
+            ? String(applyOrderMultiples(1, entry))
+            : line.quantity,
+      };
+    });
+    const expected = getExpectedDeliveryDate(
+      new Date(form.purchaseDate || todayIso()),
+      longestLeadTime,
+    );
+    if (expected) {
+      setForm((prev) => ({
+        ...prev,
+        proposedDeliveryDate: expected.toISOString().split("T")[0],
+      }));
+    }
+    return filled;
+  };
+
 
   const handleFormChange = (
     field: keyof PurchaseFormState,
@@ -143,10 +204,13 @@ export default function PurchasingPage() {
     field: keyof PurchaseLineState,
     value: string,
   ) => {
-    setLines((prev) =>
-      prev.map((line) =>
-        line.id === lineId ? { ...line, [field]: value } : line,
-      ),
+    const nextLines = lines.map((line) =>
+      line.id === lineId ? { ...line, [field]: value } : line,
+    );
+    setLines(
+      field === "itemId"
+        ? applyCatalogueDefaults(nextLines, selectedSupplierId)
+        : nextLines,
     );
   };
 
@@ -167,6 +231,7 @@ export default function PurchasingPage() {
     if (!supplierId) return;
     const match = suppliers.find((supplier) => supplier.id === supplierId);
     if (!match) return;
+    setLines((prev) => applyCatalogueDefaults(prev, supplierId));
     setForm((prev) => ({
       ...prev,
       vendorName: match.name ?? prev.vendorName,
@@ -363,6 +428,7 @@ export default function PurchasingPage() {
           deliveryShare: deliveryShare > 0 ? deliveryShare : null,
           adjustedUnitPrice,
           adjustedLineTotal,
+          receivedQty: 0,
         };
       });
       const lineItemIds = Array.from(
@@ -371,7 +437,7 @@ export default function PurchasingPage() {
 
       const shouldUpdateStock = form.status === "stock_received";
 
-      const purchaseRef = await addDoc(collection(db, "purchases"), {
+      const purchasePayload = {
         vendorName: form.vendorName.trim(),
         supplierContact: form.supplierContact.trim() || null,
         supplierAddress: form.supplierAddress.trim() || null,
@@ -386,90 +452,26 @@ export default function PurchasingPage() {
           orderTotal + safeDeliveryFee > 0 ? orderTotal + safeDeliveryFee : null,
         lineItems: linePayload,
         lineItemIds,
-        status: form.status,
         createdAt: now,
         updatedAt: now,
         createdByUserId: "system",
-        stockAppliedAt: shouldUpdateStock ? now : null,
+        stockAppliedAt: null,
         attachments: [],
         internalNotes: [],
-      });
-
-      const quantityPerItem = new Map<
-        string,
-        { qty: number; sku: string }
-      >();
-      validLines.forEach((line) => {
-        const existing = quantityPerItem.get(line.itemId);
-        if (existing) {
-          existing.qty += line.quantity;
-          if (!existing.sku && line.sku) {
-            existing.sku = line.sku;
-          }
-        } else {
-          quantityPerItem.set(line.itemId, {
-            qty: line.quantity,
-            sku: line.sku,
-          });
-        }
-      });
-
-      const unitPlans = new Map<
-        string,
-        { startCounter: number; sku: string }
-      >();
-
-      await Promise.all(
-        Array.from(quantityPerItem.keys()).map(async (itemId) => {
-          const itemRef = doc(db, "items", itemId);
-          const snap = await getDoc(itemRef);
-          if (!snap.exists()) {
-            throw new Error("Item not found while creating units.");
-          }
-          const data = snap.data() as any;
-          const nextCounter =
-            typeof data?.nextUnitCounter === "number" &&
-            data.nextUnitCounter > 0
-              ? data.nextUnitCounter
-              : 1;
-          const sku =
-            quantityPerItem.get(itemId)?.sku ||
-            data?.sku ||
-            `ITEM-${itemId.slice(0, 4)}`;
-          unitPlans.set(itemId, { startCounter: nextCounter, sku });
-        }),
-      );
-
-      const unitsCollection = collection(db, "itemUnits");
-      for (const [itemId, info] of quantityPerItem.entries()) {
-        const plan = unitPlans.get(itemId);
-        if (!plan) continue;
-        for (let i = 0; i < info.qty; i += 1) {
-          const counter = plan.startCounter + i;
-          const unitCode = `${plan.sku}-${counter.toString().padStart(4, "0")}`;
-          await addDoc(unitsCollection, {
-            itemId,
-            sku: plan.sku,
-            unitCode,
-            locationId: null,
-            purchaseId: purchaseRef.id,
-            createdAt: now,
-            updatedAt: now,
-          });
-        }
-      }
+      };
 
-      const batch = writeBatch(db);
-      quantityPerItem.forEach((info, itemId) => {
-        const plan = unitPlans.get(itemId);
-        const itemRef = doc(db, "items", itemId);
-        batch.update(itemRef, {
-          ...(shouldUpdateStock ? { inventoryQty: increment(info.qty) } : {}),
-          nextUnitCounter: plan ? plan.startCounter + info.qty : info.qty,
-          updatedAt: now,
+      if (shouldUpdateStock) {
+        // The purchase and its goods receipt are written together.
+        await createReceivedPurchase({
+          purchase: purchasePayload,
+          user: user ? { uid: user.uid, email: user.email } : null,
         });
-      });
-      await batch.commit();
+      } else {
+        await addDoc(collection(db, "purchases"), {
+          ...purchasePayload,
+          status: form.status,
+        });
+      }
 
       setMessage(
         shouldUpdateStock
@@ -499,6 +501,9 @@ export default function PurchasingPage() {
           <Link href="/purchasing/history" className="ims-secondary-button">
             View purchase history
           </Link>
+          <Link href="/purchasing/reorder" className="ims-secondary-button">
+            Reorder planner
+          </Link>
           <Link
             href="/purchasing/external-po"
             className="ims-secondary-button"
@@ -774,6 +779,10 @@ export default function PurchasingPage() {
                   const computed = preparedLines.find(
                     (l) => l.stateId === line.id,
                   );
+                  const catalogueEntry = getCatalogueEntry(
+                    selectedSupplierId,
+                    line.itemId,
+                  );
                   return (
                     <tr key={line.id}>
                       <td>
@@ -796,6 +805,24 @@ export default function PurchasingPage() {
                             </option>
                           ))}
                         </select>
+                        {catalogueEntry && (
+                          <p className="ims-field-help">
+                            {[
+                              catalogueEntry.supplierSku &&
+                                `Supplier SKU ${catalogueEntry.supplierSku}`,
+                              catalogueEntry.unitPrice !== null &&
+                                catalogueEntry.currency !== "GBP" &&
+                                `${catalogueEntry.unitPrice} ${catalogueEntry.currency}`,
+                              catalogueEntry.moq && `MOQ ${catalogueEntry.moq}`,
+                              catalogueEntry.packSize &&
+                                `packs of ${catalogueEntry.packSize}`,
+                              catalogueEntry.leadTimeDays !== null &&
+                                `${catalogueEntry.leadTimeDays} days lead time`,
+                            ]
+                              .filter(Boolean)
+                              .join(" · ") || "In supplier catalogue"}
+                          </p>
+                        )}
                       </td>
                       <td>
                         <input
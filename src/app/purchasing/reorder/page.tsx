@@ -0,0 +1,244 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useAuth } from "@/app/_components/AuthProvider";
+import {
+  createReorderPurchases,
+  groupSuggestionsBySupplier,
+  loadReorderSuggestions,
+  type ReorderSuggestion,
+} from "@/lib/replenishment";
+
+const formatCurrency = (value?: number | null) => {
+  if (value == null || Number.isNaN(value)) return "—";
+  return `£${value.toFixed(2)}`;
+};
+
+export default function ReorderPlannerPage() {
+  const { user, canEdit } = useAuth();
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const rows = await loadReorderSuggestions();
+      setSuggestions(rows);
+      setQuantities(
+        Object.fromEntries(
+          rows.map((row) => [row.itemId, String(row.suggestedQty)]),
+        ),
+      );
+      setSelected(new Set(rows.map((row) => row.itemId)));
+    } catch (err: any) {
+      console.error("Error loading reorder suggestions", err);
+      setError(err?.message ?? "Unable to load reorder suggestions.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const groups = useMemo(
+    () => groupSuggestionsBySupplier(suggestions),
+    [suggestions],
+  );
+
+  const acceptedQuantities = useMemo(() => {
+    const accepted: Record<string, number> = {};
+    selected.forEach((itemId) => {
+      const qty = Number(quantities[itemId]);
+      if (Number.isFinite(qty) && qty > 0) accepted[itemId] = qty;
+    });
+    return accepted;
+  }, [selected, quantities]);
+
+  const acceptedGroupCount = groups.filter((group) =>
+    group.suggestions.some((row) => row.itemId in acceptedQuantities),
+  ).length;
+
+  const toggleSelected = (itemId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(itemId)) {
+        next.delete(itemId);
+      } else {
+        next.add(itemId);
+      }
+      return next;
+    });
+  };
+
+  const handleCreate = async () => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const purchaseIds = await createReorderPurchases({
+        suggestions,
+        quantities: acceptedQuantities,
+        user: user ? { uid: user.uid, email: user.email } : null,
+      });
+      await load();
+      setMessage(
+        `Created ${purchaseIds.length} draft purchase${purchaseIds.length === 1 ? "" : "s"}. Review them in purchase history.`,
+      );
+    } catch (err: any) {
+      console.error("Error creating reorder purchases", err);
+      setError(err?.message ?? "Unable to create draft purchases.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <main className="ims-content">
+      <div className="ims-page-header ims-page-header--with-actions">
+        <div>
+          <h1 className="ims-page-title">Reorder planner</h1>
+          <p className="ims-page-subtitle">
+            Bought-in items whose projected stock — on hand, less components
+            owed to projects, plus open purchases — is at or below their
+            reorder level.
+          </p>
+        </div>
+        <div className="ims-page-actions">
+          <Link href="/purchasing/history" className="ims-secondary-button">
+            View purchase history
+          </Link>
+          {canEdit && (
+            <button
+              type="button"
+              className="ims-primary-button"
+              onClick={handleCreate}
+              disabled={saving || acceptedGroupCount === 0}
+            >
+              {saving
+                ? "Creating…"
+                : `Create ${acceptedGroupCount} draft purchase${acceptedGroupCount === 1 ? "" : "s"}`}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {(error || message) && (
+        <div
+          className={
+            "ims-alert " + (error ? "ims-alert--error" : "ims-alert--info")
+          }
+        >
+          {error || message}
+        </div>
+      )}
+
+      {loading ? (
+        <p>Loading reorder suggestions…</p>
+      ) : groups.length === 0 ? (
+        <section className="card ims-table-card">
+          <p className="ims-table-empty">
+            Nothing needs reordering. Set a reorder level on items to include
+            them in planning.
+          </p>
+        </section>
+      ) : (
+        groups.map((group) => (
+          <section
+            key={group.supplierName ?? "unassigned"}
+            className="card ims-table-card"
+            style={{ marginBottom: "1rem" }}
+          >
+            <div className="ims-table-header">
+              <h2 className="ims-form-section-title">
+                {group.supplierName ?? "No supplier set"}
+              </h2>
+              <span className="ims-table-count">
+                {group.suggestions.length} item
+                {group.suggestions.length === 1 ? "" : "s"}
+              </span>
+            </div>
+            <div className="ims-table-wrapper">
+              <table className="ims-table ims-table--compact">
+                <thead>
+                  <tr>
+                    {canEdit && <th />}
+                    <th>SKU</th>
+                    <th>Item</th>
+                    <th>On hand</th>
+                    <th>Project demand</th>
+                    <th>Incoming</th>
+                    <th>Projected</th>
+                    <th>Reorder level</th>
+                    <th>Order qty</th>
+                    <th>Unit cost</th>
+                    <th>Line total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.suggestions.map((row) => {
+                    const qty = Number(quantities[row.itemId]) || 0;
+                    return (
+                      <tr key={row.itemId}>
+                        {canEdit && (
+                          <td>
+                            <input
+                              type="checkbox"
+                              checked={selected.has(row.itemId)}
+                              onChange={() => toggleSelected(row.itemId)}
+                              aria-label={`Order ${row.itemName}`}
+                            />
+                          </td>
+                        )}
+                        <td>{row.sku || "—"}</td>
+                        <td>{row.itemName}</td>
+                        <td>{row.onHandQty}</td>
+                        <td>{row.demandQty || "—"}</td>
+                        <td>{row.incomingQty || "—"}</td>
+                        <td>{row.projectedQty}</td>
+                        <td>{row.reorderLevel}</td>
+                        <td>
+                          {canEdit ? (
+                            <input
+                              type="number"
+                              min={1}
+                              className="ims-field-input"
+                              style={{ maxWidth: "6rem" }}
+                              value={quantities[row.itemId] ?? ""}
+                              onChange={(e) =>
+                                setQuantities((prev) => ({
+                                  ...prev,
+                                  [row.itemId]: e.target.value,
+                                }))
+                              }
+                            />
+                          ) : (
+                            row.suggestedQty
+                          )}
+                        </td>
+                        <td>{formatCurrency(row.unitCost)}</td>
+                        <td>
+                          {formatCurrency(
+                            row.unitCost != null ? row.unitCost * qty : null,
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        ))
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,180 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  loadSupplierScorecard,
+  type SupplierScorecard,
+} from "@/lib/supplierScorecard";
+
+type SupplierScorecardCardProps = {
+  supplier: { id: string; name: string };
+};
+
+const formatPercent = (value: number | null) =>
+  value === null ? "—" : `${Math.round(value * 100)}%`;
+
+const formatCurrency = (value: number) => `£${value.toFixed(2)}`;
+
+const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString(undefined, {
+    month: "short",
+    year: "numeric",
+  });
+};
+
+/** Delivery, accuracy, spend and price history for one supplier. */
+export default function SupplierScorecardCard({
+  supplier,
+}: SupplierScorecardCardProps) {
+  const [scorecard, setScorecard] = useState<SupplierScorecard | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { id: supplierId, name: supplierName } = supplier;
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setScorecard(
+          await loadSupplierScorecard({ id: supplierId, name: supplierName }),
+        );
+      } catch (err: any) {
+        console.error("Error loading supplier scorecard", err);
+        setError(err?.message ?? "Unable to load the supplier scorecard.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [supplierId, supplierName]);
+
+  const maxMonthSpend = Math.max(
+    0,
+    ...(scorecard?.spendByMonth.map((entry) => entry.total) ?? []),
+  );
+
+  return (
+    <section className="card ims-form-section">
+      <h2 className="ims-form-section-title">Scorecard</h2>
+      <p className="ims-form-section-subtitle">
+        Calculated from purchases placed with {supplier.name}; drafts are not
+        counted.
+      </p>
+
+      {error && <div className="ims-alert ims-alert--error">{error}</div>}
+
+      {loading ? (
+        <p className="ims-table-empty">Loading scorecard…</p>
+      ) : !scorecard || scorecard.purchaseCount === 0 ? (
+        <p className="ims-table-empty">No purchases with this supplier yet.</p>
+      ) : (
+        <>
+          <div className="ims-field-row">
+            <div className="ims-field">
+              <span className="ims-field-label">On-time delivery</span>
+              <strong>{formatPercent(scorecard.onTimeRate)}</strong>
+              <span className="ims-field-help">
+                {scorecard.onTimeCount} of {scorecard.deliveredWithDueDate}{" "}
+                delivered by the proposed date
+              </span>
+            </div>
+            <div className="ims-field">
+              <span className="ims-field-label">Average lead time</span>
+              <strong>
+                {scorecard.averageLeadTimeDays === null
+                  ? "—"
+                  : `${scorecard.averageLeadTimeDays.toFixed(1)} days`}
+              </strong>
+              <span className="ims-field-help">Purchase to stock received</span>
+            </div>
+            <div className="ims-field">
+              <span className="ims-field-label">Quantity accuracy</span>
+              <strong>{formatPercent(scorecard.quantityAccuracy)}</strong>
+              <span className="ims-field-help">
+                Received against ordered on due purchases
+              </span>
+            </div>
+            <div className="ims-field">
+              <span className="ims-field-label">Total spend</span>
+              <strong>{formatCurrency(scorecard.totalSpend)}</strong>
+              <span className="ims-field-help">
+                {scorecard.purchaseCount} purchase
+                {scorecard.purchaseCount === 1 ? "" : "s"}
+              </span>
+            </div>
+          </div>
+
+          <div className="ims-form-divider" />
+          <div className="ims-form-section-title">Spend by month</div>
+          <div className="ims-table-wrapper">
+            <table className="ims-table ims-table--compact">
+              <tbody>
+                {scorecard.spendByMonth.map((entry) => (
+                  <tr key={entry.month}>
+                    <td style={{ width: "8rem" }}>{formatMonth(entry.month)}</td>
+                    <td>
+                      <div
+                        style={{
+                          height: "0.6rem",
+                          borderRadius: "999px",
+                          backgroundColor: "#93c5fd",
+                          width: maxMonthSpend
+                            ? `${(entry.total / maxMonthSpend) * 100}%`
+                            : 0,
+                        }}
+                      />
+                    </td>
+                    <td style={{ width: "8rem", textAlign: "right" }}>
+                      {formatCurrency(entry.total)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {scorecard.priceTrends.length > 0 && (
+            <>
+              <div className="ims-form-divider" />
+              <div className="ims-form-section-title">Price trend by item</div>
+              <div className="ims-table-wrapper">
+                <table className="ims-table ims-table--compact">
+                  <thead>
+                    <tr>
+                      <th>Item</th>
+                      <th>Purchases</th>
+                      <th>First price</th>
+                      <th>Latest price</th>
+                      <th>Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {scorecard.priceTrends.map((trend) => (
+                      <tr key={trend.itemId}>
+                        <td>
+                          {trend.sku ? `${trend.sku} — ` : ""}
+                          {trend.itemName}
+                        </td>
+                        <td>{trend.purchaseCount}</td>
+                        <td>{formatCurrency(trend.firstPrice)}</td>
+                        <td>{formatCurrency(trend.latestPrice)}</td>
+                        <td>
+                          {trend.change === null
+                            ? "—"
+                            : `${trend.change > 0 ? "+" : ""}${(trend.change * 100).toFixed(1)}%`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
@@ -13,6 +13,8 @@ import {
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { useAuth } from "../_components/AuthProvider";
+import SupplierCatalogueCard from "../_components/SupplierCatalogueCard";
+import SupplierScorecardCard from "./_components/SupplierScorecardCard";
 
 type Supplier = {
   id: string;
@@ -382,6 +384,24 @@ export default function SuppliersPage() {
           </form>
         </section>
       </div>
+
+      {selectedSupplier && (
+        <div style={{ marginTop: "1.5rem" }}>
+          <SupplierCatalogueCard
+            key={selectedSupplier.id}
+            mode="supplier"
+            supplier={{ id: selectedSupplier.id, name: selectedSupplier.name }}
+          />
+        </div>
+      )}
+
+      {selectedSupplier && (
+        <div style={{ marginTop: "1.5rem" }}>
+          <SupplierScorecardCard
+            supplier={{ id: selectedSupplier.id, name: selectedSupplier.name }}
+          />
+        </div>
+      )}
     </main>
   );
 }
@@ -0,0 +1,18 @@
+export type AccountStatus = "admin" | "coreUser" | "viewOnly";
+
+/** The `accountStatus` on a `users` record; anything unknown is view-only. */
+export const normalizeAccountStatus = (
+  value?: string | null,
+): AccountStatus => {
+  switch (value) {
+    case "admin":
+    case "viewOnly":
+    case "coreUser":
+      return value;
+    case "core user":
+    case "core-user":
+      return "coreUser";
+    default:
+      return "viewOnly";
+  }
+};
@@ -0,0 +1,192 @@
+import { Timestamp } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import {
+  createHubspotProduct,
+  findHubspotProductsBySku,
+  HubspotNotFoundError,
+  updateHubspotProduct,
+  type HubspotProductInput,
+} from "@/lib/hubspot";
+import type { ProductSyncResult } from "@/lib/hubspotProductSync";
+import { deriveDetailType } from "@/lib/inventoryPaths";
+
+type ProductRecord = {
+  id: string;
+  name: string;
+  sku: string;
+  hubspotProductId: string | null;
+  input: HubspotProductInput;
+};
+
+const toNumberOrNull = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const mapProductRecord = (id: string, data: any): ProductRecord => {
+  const sku = String(data?.sku ?? data?.shortCode ?? "").trim();
+  const name = String(data?.name ?? "").trim();
+  return {
+    id,
+    name,
+    sku,
+    hubspotProductId: data?.hubspotProductId
+      ? String(data.hubspotProductId)
+      : null,
+    input: {
+      name,
+      sku,
+      price: toNumberOrNull(data?.pricePerUnit ?? data?.salesPrice),
+      description: data?.description ?? data?.notes ?? null,
+    },
+  };
+};
+
+/**
+ * Create or update the HubSpot product for one item. An unlinked item adopts
+ * the HubSpot product with the same SKU when there is exactly one; anything
+ * ambiguous — a SKU shared by several HubSpot products, or a product already
+ * linked to another item — is reported as a conflict and left alone.
+ */
+const syncProduct = async (
+  product: ProductRecord,
+  claimedBy: Map<string, string>,
+): Promise<Omit<ProductSyncResult, "itemId" | "itemName" | "sku">> => {
+  const conflict = (message: string) => ({
+    outcome: "conflict" as const,
+    hubspotProductId: product.hubspotProductId,
+    message,
+  });
+  const claimedByOther = (productId: string) => {
+    const owner = claimedBy.get(productId);
+    return owner && owner !== product.id ? owner : null;
+  };
+
+  if (!product.sku) return conflict("Item has no SKU to match on.");
+  if (!product.name) return conflict("Item has no name.");
+
+  const matches = await findHubspotProductsBySku(product.sku);
+
+  if (product.hubspotProductId) {
+    const linkedId = product.hubspotProductId;
+    if (claimedByOther(linkedId)) {
+      return conflict(
+        `HubSpot product ${linkedId} is also linked to another item.`,
+      );
+    }
+    const other = matches.find((match) => match.id !== linkedId);
+    if (other) {
+      return conflict(
+        `SKU ${product.sku} is already used by HubSpot product ${other.id}.`,
+      );
+    }
+    try {
+      await updateHubspotProduct(linkedId, product.input);
+    } catch (err) {
+      if (err instanceof HubspotNotFoundError) {
+        return conflict(
+          `Linked HubSpot product ${linkedId} no longer exists. Clear the ID to create a new one.`,
+        );
+      }
+      throw err;
+    }
+    return {
+      outcome: "updated",
+      hubspotProductId: linkedId,
+      message: "HubSpot product updated.",
+    };
+  }
+
+  if (matches.length > 1) {
+    return conflict(
+      `${matches.length} HubSpot products share SKU ${product.sku}: ${matches.map((match) => match.id).join(", ")}.`,
+    );
+  }
+  if (matches.length === 1) {
+    const match = matches[0];
+    if (claimedByOther(match.id)) {
+      return conflict(
+        `HubSpot product ${match.id} with SKU ${product.sku} is linked to another item.`,
+      );
+    }
+    await updateHubspotProduct(match.id, product.input);
+    return {
+      outcome: "linked",
+      hubspotProductId: match.id,
+      message: `Linked to the existing HubSpot product with SKU ${product.sku}.`,
+    };
+  }
+
+  const createdId = await createHubspotProduct(product.input);
+  return {
+    outcome: "created",
+    hubspotProductId: createdId,
+    message: "HubSpot product created.",
+  };
+};
+
+/**
+ * Push products-type items to HubSpot, one at a time, and store each
+ * returned product ID on its item. Pass `itemIds` to sync only those items;
+ * otherwise every product is synced.
+ */
+export const syncProductsToHubspot = async (itemIds: string[] | null) => {
+  const db = getAdminDb();
+  const snap = await db.collection("items").get();
+  const claimedBy = new Map<string, string>();
+  const products: ProductRecord[] = [];
+  const results: ProductSyncResult[] = [];
+
+  snap.docs.forEach((docSnap) => {
+    const data = docSnap.data() as any;
+    if (data.hubspotProductId) {
+      claimedBy.set(String(data.hubspotProductId), docSnap.id);
+    }
+    if (itemIds && !itemIds.includes(docSnap.id)) return;
+    const record = mapProductRecord(docSnap.id, data);
+    if (deriveDetailType(data.itemType, data.category) !== "products") {
+      if (itemIds) {
+        results.push({
+          itemId: record.id,
+          itemName: record.name,
+          sku: record.sku,
+          outcome: "conflict",
+          hubspotProductId: record.hubspotProductId,
+          message: "Only products are synced to HubSpot.",
+        });
+      }
+      return;
+    }
+    products.push(record);
+  });
+
+  for (const product of products) {
+    const base = {
+      itemId: product.id,
+      itemName: product.name,
+      sku: product.sku,
+    };
+    try {
+      const result = await syncProduct(product, claimedBy);
+      if (result.outcome !== "conflict" && result.hubspotProductId) {
+        claimedBy.set(result.hubspotProductId, product.id);
+        await db.collection("items").doc(product.id).update({
+          hubspotProductId: result.hubspotProductId,
+          hubspotSyncedAt: Timestamp.now(),
+        });
+      }
+      results.push({ ...base, ...result });
+    } catch (err: any) {
+      console.error("HubSpot product sync error", err);
+      results.push({
+        ...base,
+        outcome: "failed",
+        hubspotProductId: product.hubspotProductId,
+        message: err?.message ?? "Unable to sync the product.",
+      });
+    }
+  }
+
+  return results;
+};
@@ -0,0 +1,232 @@
+import { Timestamp } from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { fetchHubspotProject, mapHubspotProject } from "@/lib/hubspot";
+import type {
+  HubspotWebhookEvent,
+  HubspotWebhookLogEntry,
+  HubspotWebhookOutcome,
+} from "@/lib/hubspotWebhooks";
+import {
+  describeProjectStatus,
+  findPipelineStage,
+  type ProjectPipelineConfig,
+} from "@/lib/projectPipeline";
+import {
+  fetchAdminPipelineConfig,
+  ProjectTransitionError,
+  transitionProjectStatus,
+} from "@/lib/projectStatusTransitions";
+
+const STAGE_PROPERTY = "hs_pipeline_stage";
+const WEBHOOK_USER = { uid: null, email: "HubSpot webhook" };
+
+const toTimestamp = (millis?: number) =>
+  typeof millis === "number" && Number.isFinite(millis)
+    ? Timestamp.fromMillis(millis)
+    : null;
+
+const findLinkedProject = async (objectId: string) => {
+  const snap = await getAdminDb()
+    .collection("projects")
+    .where("hubspotDealId", "==", objectId)
+    .limit(1)
+    .get();
+  return snap.docs[0] ?? null;
+};
+
+/** A log entry as written by the admin SDK, before it is stored. */
+type ProcessedEvent = Omit<
+  HubspotWebhookLogEntry,
+  "id" | "receivedAt" | "occurredAt"
+> & { occurredAt: Timestamp | null; retryable?: boolean };
+
+/**
+ * Handle one event and describe what happened. Only changes into a mapped
+ * stage of the configured pipeline on a linked project move stock; anything
+ * else is logged as ignored. Events older than the stage change already
+ * applied to the project are skipped so out-of-order retries cannot undo a
+ * newer move.
+ */
+const processEvent = async (
+  event: HubspotWebhookEvent,
+  pipelineConfig: ProjectPipelineConfig,
+): Promise<ProcessedEvent> => {
+  const objectId = event.objectId != null ? String(event.objectId) : null;
+  const stageId = event.propertyValue ? String(event.propertyValue) : null;
+  const entry = {
+    eventId: String(event.eventId),
+    subscriptionType: event.subscriptionType ?? null,
+    objectId,
+    propertyName: event.propertyName ?? null,
+    propertyValue: stageId,
+    occurredAt: toTimestamp(event.occurredAt),
+    projectId: null as string | null,
+    projectName: null as string | null,
+    fromStatus: null as string | null,
+    toStatus: null as string | null,
+    movementCount: 0,
+  };
+  const ignore = (reason: string) => ({
+    ...entry,
+    outcome: "ignored" as const,
+    reason,
+  });
+
+  if (event.propertyName !== STAGE_PROPERTY) {
+    return ignore(
+      `Not a pipeline stage change (${event.propertyName ?? "no property"}).`,
+    );
+  }
+  if (!objectId || !stageId) {
+    return ignore("Event has no object ID or stage.");
+  }
+
+  const projectSnap = await findLinkedProject(objectId);
+  if (!projectSnap) {
+    return ignore(`No IMS project is linked to HubSpot project ${objectId}.`);
+  }
+  const project = projectSnap.data() as any;
+  entry.projectId = projectSnap.id;
+  entry.projectName = project.name ?? null;
+  entry.fromStatus = project.status ?? "reserved";
+
+  const lastEventAt = project.hubspotStageEventAt as Timestamp | undefined;
+  if (
+    lastEventAt &&
+    entry.occurredAt &&
+    entry.occurredAt.toMillis() < lastEventAt.toMillis()
+  ) {
+    return ignore("A newer stage change has already been applied.");
+  }
+
+  // Stage changes carry no pipeline, so it is read from the HubSpot project.
+  if (pipelineConfig.pipelineId) {
+    try {
+      const hubspotProject = mapHubspotProject(
+        await fetchHubspotProject(objectId),
+      );
+      if (hubspotProject.pipelineId !== pipelineConfig.pipelineId) {
+        return ignore(
+          `HubSpot project is in pipeline ${hubspotProject.pipelineId ?? "unknown"}, not the configured pipeline.`,
+        );
+      }
+    } catch (err: any) {
+      console.error("HubSpot webhook pipeline lookup error", err);
+      return {
+        ...entry,
+        outcome: "failed",
+        reason: err?.message ?? "Unable to read the HubSpot project.",
+        retryable: true,
+      };
+    }
+  }
+
+  // Unlisted stages never move stock from a webhook, whatever the
+  // configured fallback status, so a new stage cannot reverse a project.
+  const stage = findPipelineStage(stageId, pipelineConfig);
+  if (!stage) {
+    return ignore(`Stage ${stageId} is not mapped to an IMS status.`);
+  }
+  if (!stage.status) {
+    return ignore(`Moves into stage ${stage.label} are ignored.`);
+  }
+  const targetStatus = stage.status;
+  entry.toStatus = targetStatus;
+  try {
+    const result = await transitionProjectStatus({
+      projectId: projectSnap.id,
+      targetStatus,
+      idempotencyKey: `hubspot-event:${entry.eventId}`,
+      cancellation:
+        targetStatus === "cancelled"
+          ? { reason: "Cancelled in HubSpot" }
+          : null,
+      user: WEBHOOK_USER,
+      pushToHubspot: false,
+    });
+    await projectSnap.ref.update({
+      hubspotStageId: stageId,
+      hubspotStageEventAt: entry.occurredAt ?? Timestamp.now(),
+    });
+    entry.fromStatus = result.fromStatus;
+    entry.movementCount = result.movementCount;
+    if (!result.applied) {
+      return ignore(
+        result.duplicate
+          ? "This event was already applied."
+          : `Project is already ${describeProjectStatus(targetStatus)}.`,
+      );
+    }
+    return {
+      ...entry,
+      outcome: "processed",
+      reason: `Moved from ${describeProjectStatus(result.fromStatus)} to ${describeProjectStatus(targetStatus)}.`,
+    };
+  } catch (err: any) {
+    // A rejected move will be rejected again; anything else may be transient.
+    const retryable = !(err instanceof ProjectTransitionError);
+    if (retryable) {
+      console.error("HubSpot webhook transition error", err);
+    }
+    return {
+      ...entry,
+      outcome: "failed",
+      reason: err?.message ?? "Unable to update the project.",
+      retryable,
+    };
+  }
+};
+
+/**
+ * Process a webhook delivery in the order the changes happened and log every
+ * event under its HubSpot event ID. `retryable` counts events that failed for
+ * a reason other than a rejected move; the route answers with a 5xx so
+ * HubSpot redelivers them. Events already logged as processed or ignored are
+ * skipped on redelivery, and the transition idempotency key keeps a retried
+ * move from applying twice.
+ */
+export const processHubspotWebhookEvents = async (
+  events: HubspotWebhookEvent[],
+) => {
+  const ordered = [...events].sort(
+    (a, b) => (a.occurredAt ?? 0) - (b.occurredAt ?? 0),
+  );
+  const summary: Record<
+    HubspotWebhookOutcome | "duplicate" | "retryable",
+    number
+  > = {
+    processed: 0,
+    ignored: 0,
+    failed: 0,
+    duplicate: 0,
+    retryable: 0,
+  };
+  const db = getAdminDb();
+  const pipelineConfig = await fetchAdminPipelineConfig();
+
+  for (const event of ordered) {
+    if (event?.eventId == null) {
+      summary.ignored += 1;
+      continue;
+    }
+    const logRef = db
+      .collection("hubspotWebhookEvents")
+      .doc(String(event.eventId));
+    const existing = await logRef.get();
+    if (existing.exists && existing.data()?.outcome !== "failed") {
+      summary.duplicate += 1;
+      continue;
+    }
+    const { retryable, ...entry } = await processEvent(event, pipelineConfig);
+    summary[entry.outcome] += 1;
+    if (retryable) summary.retryable += 1;
+    await logRef.set({
+      ...entry,
+      attemptNumber: event.attemptNumber ?? null,
+      changeSource: event.changeSource ?? null,
+      receivedAt: Timestamp.now(),
+    });
+  }
+
+  return summary;
+};
@@ -0,0 +1,48 @@
+import {
+  FieldValue,
+  type DocumentReference,
+  type Timestamp,
+} from "firebase-admin/firestore";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import {
+  buildStockMovementWrites,
+  type StockMovementInput,
+  type StockMovementSource,
+  type StockMovementUser,
+} from "@/lib/stockMovements";
+
+/** The write surface shared by the admin `WriteBatch` and `Transaction`. */
+export type AdminWriter = {
+  set: (ref: DocumentReference, data: Record<string, unknown>) => unknown;
+  update: (ref: DocumentReference, data: Record<string, unknown>) => unknown;
+};
+
+/**
+ * `recordStockMovements` for API routes: the same ledger entries and bucket
+ * increments, queued on an admin batch or transaction.
+ */
+export const recordAdminStockMovements = (
+  writer: AdminWriter,
+  movements: StockMovementInput[],
+  context: {
+    source: StockMovementSource;
+    user?: StockMovementUser;
+    at: Timestamp;
+  },
+) => {
+  const db = getAdminDb();
+  const { ledgerEntries, itemIncrements } = buildStockMovementWrites(
+    movements,
+    context,
+  );
+  ledgerEntries.forEach((entry) =>
+    writer.set(db.collection("stockMovements").doc(), entry),
+  );
+  itemIncrements.forEach((fields, itemId) => {
+    const updates: Record<string, unknown> = { updatedAt: context.at };
+    Object.entries(fields).forEach(([field, delta]) => {
+      updates[field] = FieldValue.increment(delta);
+    });
+    writer.update(db.collection("items").doc(itemId), updates);
+  });
+};
@@ -0,0 +1,83 @@
+import { Timestamp } from "firebase-admin/firestore";
+import { recordAdminStockMovements } from "@/lib/adminStockMovements";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import type { StockMovementUser } from "@/lib/stockMovements";
+import {
+  computeStockReconciliation,
+  type ReconciliationRow,
+} from "@/lib/stockReconciliation";
+
+export const loadStockReconciliation = async () => {
+  const db = getAdminDb();
+  const [itemsSnap, projectsSnap, purchasesSnap, movementsSnap] =
+    await Promise.all([
+      db.collection("items").get(),
+      db.collection("projects").get(),
+      db.collection("purchases").get(),
+      db.collection("stockMovements").get(),
+    ]);
+  const toEntries = (snap: typeof itemsSnap) =>
+    snap.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() }));
+  return computeStockReconciliation({
+    items: toEntries(itemsSnap),
+    projects: toEntries(projectsSnap),
+    purchases: toEntries(purchasesSnap),
+    movements: toEntries(movementsSnap),
+  });
+};
+
+const CORRECTIONS_PER_BATCH = 200;
+
+/**
+ * Post each bucket difference as an adjustment against on-hand inventory, so
+ * the physical total for the item stays the same and only its allocation
+ * between buckets changes.
+ */
+export const applyReconciliationCorrections = async (
+  rows: ReconciliationRow[],
+  user?: StockMovementUser,
+) => {
+  const db = getAdminDb();
+  const now = Timestamp.now();
+  const runRef = db.collection("stockReconciliations").doc();
+  const corrections = rows.flatMap((row) =>
+    row.differences.map((difference) => ({
+      itemId: row.itemId,
+      itemName: row.itemName,
+      fromBucket:
+        difference.difference > 0 ? ("inventory" as const) : difference.bucket,
+      toBucket:
+        difference.difference > 0 ? difference.bucket : ("inventory" as const),
+      qty: Math.abs(difference.difference),
+      note: `Reconciled ${difference.bucket} from ${difference.stored} to ${difference.expected}`,
+    })),
+  );
+
+  for (let i = 0; i < corrections.length; i += CORRECTIONS_PER_BATCH) {
+    const batch = db.batch();
+    recordAdminStockMovements(
+      batch,
+      corrections.slice(i, i + CORRECTIONS_PER_BATCH),
+      {
+        source: {
+          type: "adjustment",
+          id: runRef.id,
+          label: "Bucket reconciliation",
+        },
+        user,
+        at: now,
+      },
+    );
+    await batch.commit();
+  }
+
+  await runRef.set({
+    itemIds: rows.map((row) => row.itemId),
+    correctionCount: corrections.length,
+    userId: user?.uid ?? null,
+    userEmail: user?.email ?? null,
+    createdAt: now,
+  });
+
+  return corrections.length;
+};
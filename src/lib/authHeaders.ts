@@ -0,0 +1,7 @@
+import { auth } from "@/lib/firebase";
+
+/** `Authorization` header carrying the signed-in user's Firebase ID token. */
+export const getAuthHeaders = async (): Promise<Record<string, string>> => {
+  const token = await auth.currentUser?.getIdToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
@@ -0,0 +1,292 @@
+import { collection, getDocs } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+
+/** Relationship arrays on an item that describe what it is built from. */
+export type BomSection =
+  | "subAssemblies"
+  | "sensors"
+  | "components"
+  | "sensorExtras";
+
+export const BOM_SECTIONS: BomSection[] = [
+  "subAssemblies",
+  "sensors",
+  "components",
+  "sensorExtras",
+];
+
+export type BomLine = {
+  itemId: string;
+  name: string | null;
+  sku: string | null;
+  quantity: number;
+  /** Price recorded on the relationship; `null` when none was entered. */
+  unitPrice: number | null;
+  section: BomSection;
+};
+
+export type BomNode = {
+  itemId: string;
+  name: string;
+  sku: string | null;
+  section: BomSection | null;
+  depth: number;
+  /** Quantity of this item per one unit of its parent. */
+  quantityPerParent: number;
+  /** Quantity of this item per one unit of the exploded root. */
+  quantityPerRoot: number;
+  /**
+   * Cost of one unit: rolled up from children for assemblies, otherwise the
+   * relationship price or the item's own standard cost.
+   */
+  unitCost: number | null;
+  /** `unitCost × quantityPerRoot`. */
+  extendedCost: number | null;
+  missingCost: boolean;
+  missingItem: boolean;
+  cycle: boolean;
+  children: BomNode[];
+};
+
+export type BomLeaf = {
+  itemId: string;
+  name: string;
+  sku: string | null;
+  quantity: number;
+  unitCost: number | null;
+  extendedCost: number | null;
+};
+
+export type BomExplosion = {
+  root: BomNode;
+  leaves: BomLeaf[];
+  /** Item id paths that loop back on themselves, e.g. [A, B, A]. */
+  cycles: string[][];
+  totalCost: number;
+  hasMissingCosts: boolean;
+};
+
+export type BomItemLookup = (itemId: string) => any | null | undefined;
+
+const MAX_BOM_DEPTH = 12;
+
+const toNumber = (value: unknown): number | null => {
+  if (value == null || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+/** Own cost of a bought-in item, preferring its standard cost. */
+export const getItemStandardCost = (data: any): number | null =>
+  toNumber(data?.standardCost) ?? toNumber(data?.pricePerUnit);
+
+/**
+ * Read the BOM lines stored on an item. Accepts the same id / quantity /
+ * price aliases as the inventory detail page. A stored price of 0 is treated
+ * as "not entered" so the child's own cost is used instead.
+ */
+export const getBomLines = (data: any): BomLine[] => {
+  const sources: Record<BomSection, unknown> = {
+    subAssemblies:
+      data?.subAssemblies ?? data?.subAssemblyStructure ?? data?.assemblies,
+    sensors: data?.sensors ?? data?.sensorRequirements ?? data?.sensorStructure,
+    components: data?.components,
+    sensorExtras:
+      data?.sensorExtras ?? data?.extras ?? data?.sensorExtraStructure,
+  };
+  const lines: BomLine[] = [];
+  BOM_SECTIONS.forEach((section) => {
+    const entries = sources[section];
+    if (!Array.isArray(entries)) return;
+    entries.forEach((entry: any) => {
+      if (!entry || typeof entry !== "object") return;
+      const itemId =
+        entry.itemId ??
+        entry.componentId ??
+        entry.subAssemblyId ??
+        entry.subassemblyId ??
+        entry.sensorId ??
+        entry.sensorExtraId ??
+        entry.id ??
+        entry.referenceId ??
+        null;
+      const quantity = toNumber(entry.quantity ?? entry.qty) ?? 1;
+      if (!itemId || quantity <= 0) return;
+      const unitPrice = toNumber(
+        entry.unitPrice ?? entry.price ?? entry.cost ?? entry.standardCost,
+      );
+      lines.push({
+        itemId: String(itemId),
+        name: entry.name ?? entry.itemName ?? entry.componentName ?? null,
+        sku: entry.sku ?? entry.code ?? null,
+        quantity,
+        unitPrice: unitPrice != null && unitPrice > 0 ? unitPrice : null,
+        section,
+      });
+    });
+  });
+  return lines;
+};
+
+const explodeNode = (
+  itemId: string,
+  line: BomLine | null,
+  parentQuantity: number,
+  path: string[],
+  lookup: BomItemLookup,
+  cycles: string[][],
+): BomNode => {
+  const data = lookup(itemId);
+  const quantityPerParent = line?.quantity ?? 1;
+  const quantityPerRoot = parentQuantity * quantityPerParent;
+  const node: BomNode = {
+    itemId,
+    name: data?.name ?? line?.name ?? line?.sku ?? "Unknown item",
+    sku: data?.sku ?? line?.sku ?? null,
+    section: line?.section ?? null,
+    depth: path.length,
+    quantityPerParent,
+    quantityPerRoot,
+    unitCost: null,
+    extendedCost: null,
+    missingCost: false,
+    missingItem: !data,
+    cycle: false,
+    children: [],
+  };
+
+  if (path.includes(itemId)) {
+    node.cycle = true;
+    node.missingCost = true;
+    cycles.push([...path, itemId]);
+    return node;
+  }
+
+  const childLines =
+    data && path.length < MAX_BOM_DEPTH ? getBomLines(data) : [];
+  if (childLines.length) {
+    node.children = childLines.map((childLine) =>
+      explodeNode(
+        childLine.itemId,
+        childLine,
+        quantityPerRoot,
+        [...path, itemId],
+        lookup,
+        cycles,
+      ),
+    );
+    node.unitCost = node.children.reduce(
+      (sum, child) => sum + (child.unitCost ?? 0) * child.quantityPerParent,
+      0,
+    );
+    node.missingCost = node.children.some((child) => child.missingCost);
+  } else {
+    node.unitCost = line?.unitPrice ?? getItemStandardCost(data);
+    node.missingCost = node.unitCost == null;
+  }
+  node.extendedCost =
+    node.unitCost != null ? node.unitCost * quantityPerRoot : null;
+  return node;
+};
+
+const collectLeaves = (node: BomNode, leaves: Map<string, BomLeaf>) => {
+  if (node.children.length) {
+    node.children.forEach((child) => collectLeaves(child, leaves));
+    return;
+  }
+  if (node.cycle) return;
+  const existing = leaves.get(node.itemId);
+  if (existing) {
+    existing.quantity += node.quantityPerRoot;
+    existing.extendedCost =
+      existing.extendedCost != null && node.extendedCost != null
+        ? existing.extendedCost + node.extendedCost
+        : existing.extendedCost ?? node.extendedCost;
+    return;
+  }
+  leaves.set(node.itemId, {
+    itemId: node.itemId,
+    name: node.name,
+    sku: node.sku,
+    quantity: node.quantityPerRoot,
+    unitCost: node.unitCost,
+    extendedCost: node.extendedCost,
+  });
+};
+
+/**
+ * Recursively explode an item into its BOM tree. Sub-assemblies, sensors,
+ * components and sensor extras are followed until an item has no lines of its
+ * own; those leaves are also returned aggregated per item. A line that points
+ * back at one of its ancestors is marked as a cycle and not followed.
+ */
+export const explodeBom = (
+  rootId: string,
+  lookup: BomItemLookup,
+  quantity = 1,
+): BomExplosion => {
+  const cycles: string[][] = [];
+  const root = explodeNode(rootId, null, quantity, [], lookup, cycles);
+  const leaves = new Map<string, BomLeaf>();
+  if (root.children.length) {
+    collectLeaves(root, leaves);
+  }
+  return {
+    root,
+    leaves: Array.from(leaves.values()).sort((a, b) =>
+      a.name.localeCompare(b.name),
+    ),
+    cycles,
+    totalCost: root.extendedCost ?? 0,
+    hasMissingCosts: root.missingCost,
+  };
+};
+
+/**
+ * Leaf component requirements for a set of lines, e.g. project lines or
+ * items on a purchase. Lines for items with no BOM count as leaves themselves.
+ */
+export const explodeBomLines = (
+  lines: { itemId: string; qty: number }[],
+  lookup: BomItemLookup,
+): BomLeaf[] => {
+  const totals = new Map<string, BomLeaf>();
+  lines.forEach((line) => {
+    if (!line.itemId || !line.qty) return;
+    const explosion = explodeBom(line.itemId, lookup, line.qty);
+    const leaves = explosion.leaves.length
+      ? explosion.leaves
+      : [
+          {
+            itemId: explosion.root.itemId,
+            name: explosion.root.name,
+            sku: explosion.root.sku,
+            quantity: explosion.root.quantityPerRoot,
+            unitCost: explosion.root.unitCost,
+            extendedCost: explosion.root.extendedCost,
+          },
+        ];
+    leaves.forEach((leaf) => {
+      const existing = totals.get(leaf.itemId);
+      if (!existing) {
+        totals.set(leaf.itemId, { ...leaf });
+        return;
+      }
+      existing.quantity += leaf.quantity;
+      existing.extendedCost =
+        existing.extendedCost != null && leaf.extendedCost != null
+          ? existing.extendedCost + leaf.extendedCost
+          : existing.extendedCost ?? leaf.extendedCost;
+    });
+  });
+  return Array.from(totals.values()).sort((a, b) =>
+    a.name.localeCompare(b.name),
+  );
+};
+
+/** Load every item once so a BOM can be exploded without further reads. */
+export const loadBomItemLookup = async (): Promise<BomItemLookup> => {
+  const snap = await getDocs(collection(db, "items"));
+  const byId = new Map(snap.docs.map((docSnap) => [docSnap.id, docSnap.data()]));
+  return (itemId: string) => byId.get(itemId) ?? null;
+};
@@ -0,0 +1,326 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  Timestamp,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import {
+  BOM_SECTIONS,
+  explodeBom,
+  getItemStandardCost,
+  type BomSection,
+} from "@/lib/bom";
+import { deriveDetailType } from "@/lib/inventoryPaths";
+import type { CsvRow, ImportRowError } from "@/lib/inventoryImport";
+import type { StockMovementUser } from "@/lib/stockMovements";
+
+export type BomImportRow = {
+  rowNumber: number;
+  parentSku: string;
+  childSku: string;
+  quantity: number;
+  mandatory: boolean;
+};
+
+export const BOM_SECTION_LABELS: Record<BomSection, string> = {
+  subAssemblies: "Sub-assemblies",
+  sensors: "Sensors",
+  components: "Components",
+  sensorExtras: "Sensor extras",
+};
+
+/** Relationship entry as stored on the parent item, keyed per section. */
+export type BomImportEntry = {
+  itemId: string;
+  name: string;
+  sku: string;
+  quantity: number;
+  unitPrice: number;
+  mandatory: boolean;
+};
+
+export type BomImportParent = {
+  itemId: string;
+  name: string;
+  sku: string;
+  /** Only sections with rows in the file are replaced. */
+  sections: Partial<Record<BomSection, BomImportEntry[]>>;
+  /** Line counts currently stored for the replaced sections. */
+  currentCounts: Partial<Record<BomSection, number>>;
+};
+
+export type BomImportPlan = {
+  parents: BomImportParent[];
+  errors: ImportRowError[];
+};
+
+const COLUMN_ALIASES = {
+  parentSku: ["parent sku", "parent", "parent code", "assembly sku"],
+  childSku: ["child sku", "child", "child code", "component sku", "component"],
+  quantity: ["quantity", "qty"],
+  mandatory: ["mandatory", "required"],
+} as const;
+
+const ID_FIELDS: Record<BomSection, string> = {
+  subAssemblies: "subAssemblyId",
+  sensors: "sensorId",
+  components: "componentId",
+  sensorExtras: "sensorExtraId",
+};
+
+const normalize = (value: unknown) =>
+  String(value ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, " ");
+
+const readCell = (row: CsvRow, aliases: readonly string[]) => {
+  const column = Object.keys(row).find((key) =>
+    aliases.includes(normalize(key)),
+  );
+  return column ? String(row[column] ?? "").trim() : "";
+};
+
+/**
+ * Read parent SKU / child SKU / quantity / mandatory rows. Quantity defaults
+ * to 1 and mandatory to no when the cell is blank.
+ */
+export const mapBomCsvRows = (csvRows: CsvRow[]) => {
+  const rows: BomImportRow[] = [];
+  const errors: ImportRowError[] = [];
+
+  csvRows.forEach((csvRow, index) => {
+    const rowNumber = index + 2;
+    const parentSku = readCell(csvRow, COLUMN_ALIASES.parentSku);
+    const childSku = readCell(csvRow, COLUMN_ALIASES.childSku);
+    const rawQuantity = readCell(csvRow, COLUMN_ALIASES.quantity);
+    const rawMandatory = normalize(readCell(csvRow, COLUMN_ALIASES.mandatory));
+    const quantity = rawQuantity === "" ? 1 : Number(rawQuantity);
+    const rowErrors: string[] = [];
+
+    if (!parentSku) rowErrors.push("Parent SKU is missing.");
+    if (!childSku) rowErrors.push("Child SKU is missing.");
+    if (!Number.isFinite(quantity) || quantity <= 0) {
+      rowErrors.push(`"${rawQuantity}" is not a quantity above zero.`);
+    }
+    if (
+      rawMandatory &&
+      !["yes", "y", "true", "1", "no", "n", "false", "0"].includes(
+        rawMandatory,
+      )
+    ) {
+      rowErrors.push(`"${rawMandatory}" is not yes or no.`);
+    }
+
+    if (rowErrors.length) {
+      rowErrors.forEach((message) =>
+        errors.push({ rowNumber, column: null, message }),
+      );
+      return;
+    }
+    rows.push({
+      rowNumber,
+      parentSku,
+      childSku,
+      quantity,
+      mandatory: ["yes", "y", "true", "1"].includes(rawMandatory),
+    });
+  });
+
+  return { rows, errors };
+};
+
+/** The relationship arrays a parent is given, in the stored entry shape. */
+const toItemFields = (plan: BomImportParent) => {
+  const fields: Record<string, unknown> = {};
+  BOM_SECTIONS.forEach((section) => {
+    const entries = plan.sections[section];
+    if (!entries) return;
+    fields[section] = entries.map((entry) => ({
+      [ID_FIELDS[section]]: entry.itemId,
+      name: entry.name,
+      sku: entry.sku,
+      quantity: entry.quantity,
+      unitPrice: entry.unitPrice,
+      lineTotal: entry.quantity * entry.unitPrice,
+      mandatory: entry.mandatory,
+    }));
+  });
+  const components = plan.sections.components;
+  if (components) {
+    const componentsTotal = components.reduce(
+      (sum, entry) => sum + entry.quantity * entry.unitPrice,
+      0,
+    );
+    fields.estimatedComponentCost = componentsTotal;
+    fields.totalCost = componentsTotal;
+  }
+  return fields;
+};
+
+/**
+ * Resolve rows against items by SKU or short code and group them into the
+ * relationship arrays each parent will hold. Each child goes into the
+ * section for its own item type. Rows that reference unknown items, repeat
+ * a child, or would make a parent contain itself are reported and skipped.
+ */
+export const buildBomImportPlan = (
+  rows: BomImportRow[],
+  items: { id: string; data: any }[],
+): BomImportPlan => {
+  const itemsBySku = new Map<string, { id: string; data: any }>();
+  items.forEach((item) => {
+    [item.data?.sku, item.data?.shortCode].forEach((code) => {
+      const key = normalize(code);
+      if (key && !itemsBySku.has(key)) itemsBySku.set(key, item);
+    });
+  });
+  const itemsById = new Map(items.map((item) => [item.id, item.data]));
+
+  const errors: ImportRowError[] = [];
+  const parentsById = new Map<string, BomImportParent>();
+  const rowNumbersByParent = new Map<string, number[]>();
+
+  rows.forEach((row) => {
+    const parent = itemsBySku.get(normalize(row.parentSku));
+    const child = itemsBySku.get(normalize(row.childSku));
+    const fail = (message: string) =>
+      errors.push({ rowNumber: row.rowNumber, column: null, message });
+    if (!parent) return fail(`No item has the SKU "${row.parentSku}".`);
+    if (!child) return fail(`No item has the SKU "${row.childSku}".`);
+    if (parent.id === child.id) {
+      return fail(`${row.parentSku} cannot contain itself.`);
+    }
+    const childType = deriveDetailType(
+      child.data?.itemType ?? child.data?.rawCsvItemType,
+    );
+    if (childType === "products") {
+      return fail(`${row.childSku} is a product and cannot be a BOM line.`);
+    }
+
+    let plan = parentsById.get(parent.id);
+    if (!plan) {
+      plan = {
+        itemId: parent.id,
+        name: parent.data?.name ?? row.parentSku,
+        sku: parent.data?.sku ?? parent.data?.shortCode ?? row.parentSku,
+        sections: {},
+        currentCounts: {},
+      };
+      parentsById.set(parent.id, plan);
+    }
+    const section: BomSection = childType;
+    const entries = plan.sections[section] ?? [];
+    if (entries.some((entry) => entry.itemId === child.id)) {
+      return fail(`${row.childSku} is listed twice under ${row.parentSku}.`);
+    }
+    entries.push({
+      itemId: child.id,
+      name: child.data?.name ?? row.childSku,
+      sku: child.data?.sku ?? child.data?.shortCode ?? row.childSku,
+      quantity: row.quantity,
+      unitPrice: getItemStandardCost(child.data) ?? 0,
+      mandatory: row.mandatory,
+    });
+    plan.sections[section] = entries;
+    rowNumbersByParent.set(parent.id, [
+      ...(rowNumbersByParent.get(parent.id) ?? []),
+      row.rowNumber,
+    ]);
+  });
+
+  // Check the new structure as a whole so loops through other parents in
+  // the same file are caught too.
+  const lookup = (itemId: string) => {
+    const data = itemsById.get(itemId);
+    const plan = parentsById.get(itemId);
+    return plan && data ? { ...data, ...toItemFields(plan) } : data ?? null;
+  };
+  const parents: BomImportParent[] = [];
+  parentsById.forEach((plan) => {
+    const { cycles } = explodeBom(plan.itemId, lookup);
+    if (cycles.length) {
+      const path = cycles[0]
+        .map((itemId) => itemsById.get(itemId)?.sku ?? itemId)
+        .join(" → ");
+      rowNumbersByParent.get(plan.itemId)?.forEach((rowNumber) =>
+        errors.push({
+          rowNumber,
+          column: null,
+          message: `${plan.sku} would loop back on itself (${path}).`,
+        }),
+      );
+      return;
+    }
+    const currentData = itemsById.get(plan.itemId);
+    BOM_SECTIONS.forEach((section) => {
+      if (!plan.sections[section]) return;
+      const current = currentData?.[section];
+      plan.currentCounts[section] = Array.isArray(current) ? current.length : 0;
+    });
+    parents.push(plan);
+  });
+
+  errors.sort((a, b) => a.rowNumber - b.rowNumber);
+  parents.sort((a, b) => a.sku.localeCompare(b.sku));
+  return { parents, errors };
+};
+
+export const loadBomImportPlan = async (rows: BomImportRow[]) => {
+  const snap = await getDocs(collection(db, "items"));
+  return buildBomImportPlan(
+    rows,
+    snap.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() })),
+  );
+};
+
+const PARENTS_PER_BATCH = 200;
+
+/**
+ * Write every parent in the plan. Sections present in the file replace the
+ * stored array; sections without rows are left as they are.
+ */
+export const applyBomImportPlan = async ({
+  plan,
+  fileName,
+  user,
+}: {
+  plan: BomImportPlan;
+  fileName?: string | null;
+  user?: StockMovementUser;
+}) => {
+  const now = Timestamp.now();
+  for (let i = 0; i < plan.parents.length; i += PARENTS_PER_BATCH) {
+    const batch = writeBatch(db);
+    plan.parents.slice(i, i + PARENTS_PER_BATCH).forEach((parent) => {
+      batch.update(doc(db, "items", parent.itemId), {
+        ...toItemFields(parent),
+        updatedAt: now,
+      });
+    });
+    await batch.commit();
+  }
+
+  const summaryBatch = writeBatch(db);
+  summaryBatch.set(doc(collection(db, "bomImports")), {
+    fileName: fileName ?? null,
+    parentCount: plan.parents.length,
+    lineCount: plan.parents.reduce(
+      (sum, parent) =>
+        sum +
+        Object.values(parent.sections).reduce(
+          (count, entries) => count + (entries?.length ?? 0),
+          0,
+        ),
+      0,
+    ),
+    userId: user?.uid ?? null,
+    userEmail: user?.email ?? null,
+    createdAt: now,
+  });
+  await summaryBatch.commit();
+
+  return { parents: plan.parents.length };
+};
@@ -0,0 +1,153 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  Timestamp,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { explodeBom, getBomLines } from "@/lib/bom";
+
+/** Default relative difference between stored and rolled-up cost to flag. */
+export const COST_VARIANCE_THRESHOLD = 0.05;
+
+export type CostLineSource = "override" | "standardCost" | "rollup" | "missing";
+
+export type CostRollupLine = {
+  itemId: string;
+  name: string;
+  quantity: number;
+  unitCost: number | null;
+  source: CostLineSource;
+  lineTotal: number;
+};
+
+export type CostRollupResult = {
+  itemId: string;
+  name: string;
+  sku: string;
+  itemType: string | null;
+  materialCost: number;
+  lines: CostRollupLine[];
+  missingLines: number;
+  /** Standard cost on the item, or the last stored total when none is set. */
+  storedCost: number | null;
+  /** `(materialCost - storedCost) / storedCost`, or null without a stored cost. */
+  variance: number | null;
+  flagged: boolean;
+};
+
+const toNumber = (value: unknown): number | null => {
+  if (value == null || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+export const getCostVariance = (
+  materialCost: number,
+  storedCost: number | null,
+) => {
+  if (storedCost == null) return null;
+  if (storedCost === 0) return materialCost === 0 ? 0 : null;
+  return (materialCost - storedCost) / storedCost;
+};
+
+export const isCostVarianceFlagged = (
+  materialCost: number,
+  storedCost: number | null,
+  threshold = COST_VARIANCE_THRESHOLD,
+) => {
+  if (storedCost == null) return false;
+  const variance = getCostVariance(materialCost, storedCost);
+  return variance == null || Math.abs(variance) > threshold;
+};
+
+/**
+ * Compute the material cost of every item that has BOM lines, using the same
+ * explosion as the BOM tree: assemblies always roll up from their children,
+ * and bought-in lines use the relationship price, else the child's standard
+ * cost. A line counts as missing when any part of it has no cost.
+ */
+export const computeCostRollups = (
+  items: { id: string; data: any }[],
+  threshold = COST_VARIANCE_THRESHOLD,
+): CostRollupResult[] => {
+  const byId = new Map(items.map((entry) => [entry.id, entry.data]));
+  const lookup = (itemId: string) => byId.get(itemId) ?? null;
+
+  return items
+    .filter(({ data }) => getBomLines(data).length > 0)
+    .map(({ id, data }) => {
+      const bomLines = getBomLines(data);
+      const { root } = explodeBom(id, lookup);
+      // Children follow the order of the item's own BOM lines.
+      const lines = root.children.map((child, index): CostRollupLine => {
+        const source: CostLineSource =
+          child.unitCost == null
+            ? "missing"
+            : child.children.length
+              ? "rollup"
+              : bomLines[index]?.unitPrice != null
+                ? "override"
+                : "standardCost";
+        return {
+          itemId: child.itemId,
+          name: child.name,
+          quantity: child.quantityPerParent,
+          unitCost: child.unitCost,
+          source,
+          lineTotal: (child.unitCost ?? 0) * child.quantityPerParent,
+        };
+      });
+      const materialCost = lines.reduce((sum, line) => sum + line.lineTotal, 0);
+      const storedCost =
+        toNumber(data?.standardCost) ?? toNumber(data?.totalCost);
+      return {
+        itemId: id,
+        name: data?.name ?? "Unnamed item",
+        sku: data?.sku ?? data?.shortCode ?? "",
+        itemType: data?.itemType ?? null,
+        materialCost,
+        lines,
+        missingLines: root.children.filter((child) => child.missingCost)
+          .length,
+        storedCost,
+        variance: getCostVariance(materialCost, storedCost),
+        flagged: isCostVarianceFlagged(materialCost, storedCost, threshold),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const loadCostRollups = async (threshold = COST_VARIANCE_THRESHOLD) => {
+  const snap = await getDocs(collection(db, "items"));
+  return computeCostRollups(
+    snap.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() })),
+    threshold,
+  );
+};
+
+const ROLLUPS_PER_BATCH = 400;
+
+/**
+ * Store each rollup on its item as `estimatedComponentCost` together with the
+ * calculation time and variance flag, so detail pages can show them without
+ * recalculating.
+ */
+export const saveCostRollups = async (results: CostRollupResult[]) => {
+  const now = Timestamp.now();
+  for (let i = 0; i < results.length; i += ROLLUPS_PER_BATCH) {
+    const batch = writeBatch(db);
+    results.slice(i, i + ROLLUPS_PER_BATCH).forEach((result) => {
+      batch.update(doc(db, "items", result.itemId), {
+        estimatedComponentCost: result.materialCost,
+        estimatedComponentCostCalculatedAt: now,
+        costVariance: result.variance,
+        costVarianceFlagged: result.flagged,
+        updatedAt: now,
+      });
+    });
+    await batch.commit();
+  }
+  return now;
+};
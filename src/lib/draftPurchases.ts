@@ -0,0 +1,114 @@
+import { collection, doc, type Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type {
+  StockMovementUser,
+  StockMovementWriter,
+} from "@/lib/stockMovements";
+
+/** One item to order on a draft purchase. */
+export type DraftPurchaseLine = {
+  itemId: string;
+  sku: string;
+  itemName: string;
+  supplierName: string | null;
+  supplierId: string | null;
+  quantity: number;
+  unitCost: number | null;
+};
+
+export type SupplierGroup<T> = {
+  supplierName: string | null;
+  supplierId: string | null;
+  rows: T[];
+};
+
+/**
+ * Group rows by supplier name, ignoring case and surrounding spaces. Rows
+ * without a supplier share one unassigned group.
+ */
+export const groupBySupplier = <
+  T extends { supplierName: string | null; supplierId: string | null },
+>(
+  rows: T[],
+): SupplierGroup<T>[] => {
+  const groups = new Map<string, SupplierGroup<T>>();
+  rows.forEach((row) => {
+    const key = (row.supplierName ?? "").trim().toLowerCase();
+    const group = groups.get(key) ?? {
+      supplierName: row.supplierName?.trim() || null,
+      supplierId: row.supplierId,
+      rows: [],
+    };
+    if (!group.supplierId && row.supplierId) {
+      group.supplierId = row.supplierId;
+    }
+    group.rows.push(row);
+    groups.set(key, group);
+  });
+  return Array.from(groups.values());
+};
+
+/**
+ * Queue one draft purchase per supplier for `lines` on the supplied batch or
+ * transaction. Returns the ids of the purchases queued.
+ */
+export const createDraftPurchases = (
+  writer: StockMovementWriter,
+  lines: DraftPurchaseLine[],
+  context: {
+    reference: string;
+    notes: string;
+    sourceProjectId?: string | null;
+    user?: StockMovementUser;
+    at: Timestamp;
+  },
+) =>
+  groupBySupplier(lines.filter((line) => line.quantity > 0)).map((group) => {
+    const lineItems = group.rows.map((line) => {
+      const lineTotal =
+        line.unitCost != null ? line.unitCost * line.quantity : null;
+      return {
+        itemId: line.itemId,
+        sku: line.sku,
+        name: line.itemName,
+        quantity: line.quantity,
+        unitPrice: line.unitCost,
+        lineTotal,
+        deliveryShare: null,
+        adjustedUnitPrice: line.unitCost,
+        adjustedLineTotal: lineTotal,
+      };
+    });
+    const totalAmount = lineItems.reduce(
+      (sum, line) => sum + (line.lineTotal ?? 0),
+      0,
+    );
+    const ref = doc(collection(db, "purchases"));
+    writer.set(ref, {
+      vendorName: group.supplierName ?? "Unassigned supplier",
+      supplierContact: null,
+      supplierAddress: null,
+      shipTo: null,
+      supplierId: group.supplierId,
+      deliveryFee: null,
+      reference: context.reference,
+      notes: context.notes,
+      purchaseDate: context.at,
+      proposedDeliveryDate: null,
+      totalAmount: totalAmount > 0 ? totalAmount : null,
+      lineItems,
+      lineItemIds: Array.from(new Set(group.rows.map((line) => line.itemId))),
+      status: "draft",
+      ...(context.sourceProjectId
+        ? { sourceProjectId: context.sourceProjectId }
+        : {}),
+      createdAt: context.at,
+      updatedAt: context.at,
+      createdByUserId: context.user?.uid ?? "system",
+      createdByEmail: context.user?.email ?? null,
+      stockAppliedAt: null,
+      attachments: [],
+      internalNotes: [],
+    });
+    return ref.id;
+  });
@@ -0,0 +1,160 @@
+import Papa from "papaparse";
+import type { Timestamp } from "firebase/firestore";
+
+export type ExportFormat = "csv" | "xlsx";
+
+/**
+ * `money` is written with two decimals, `date` as YYYY-MM-DD in CSV and as a
+ * real date cell in XLSX, so both formats read the same in a spreadsheet.
+ */
+export type ExportColumnKind = "text" | "number" | "money" | "date";
+
+type ExportValue = string | number | Date | Timestamp | null | undefined;
+
+export type ExportColumn<T> = {
+  label: string;
+  kind?: ExportColumnKind;
+  value: (row: T) => ExportValue;
+};
+
+const toDate = (value: ExportValue): Date | null => {
+  if (value instanceof Date) return value;
+  if (value && typeof value === "object" && "toDate" in value) {
+    try {
+      return value.toDate();
+    } catch {
+      return null;
+    }
+  }
+  return null;
+};
+
+const toNumber = (value: ExportValue): number | null => {
+  if (value === null || value === undefined || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Spreadsheet apps run cells starting with these as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/** Quote user text that would otherwise be read as a formula. */
+const escapeFormula = (value: string) =>
+  FORMULA_PREFIX.test(value) ? `'${value}` : value;
+
+const formatCsvValue = (kind: ExportColumnKind, value: ExportValue) => {
+  if (kind === "date") {
+    const date = toDate(value);
+    return date ? toIsoDate(date) : "";
+  }
+  if (kind === "number" || kind === "money") {
+    const num = toNumber(value);
+    if (num === null) return "";
+    return kind === "money" ? num.toFixed(2) : String(num);
+  }
+  if (value === null || value === undefined) return "";
+  const date = toDate(value);
+  return date ? toIsoDate(date) : escapeFormula(String(value));
+};
+
+export const buildCsv = <T>(columns: ExportColumn<T>[], rows: T[]) =>
+  Papa.unparse({
+    fields: columns.map((column) => column.label),
+    data: rows.map((row) =>
+      columns.map((column) =>
+        formatCsvValue(column.kind ?? "text", column.value(row)),
+      ),
+    ),
+  });
+
+/** Excel reads dates as local midnight; keep the calendar day unchanged. */
+const toSheetDate = (date: Date) =>
+  new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+
+const toXlsxValue = (kind: ExportColumnKind, value: ExportValue) => {
+  if (kind === "number" || kind === "money") return toNumber(value);
+  const date = toDate(value);
+  if (date) return toSheetDate(date);
+  if (kind === "date" || value === null || value === undefined || value === "") {
+    return null;
+  }
+  // Written as plain strings, so a leading "=" is never a formula here.
+  return String(value);
+};
+
+/**
+ * A single-sheet workbook with a bold header row. ExcelJS is loaded on
+ * demand so it stays out of the page bundles.
+ */
+export const buildXlsx = async <T>(
+  columns: ExportColumn<T>[],
+  rows: T[],
+  sheetName = "Export",
+) => {
+  const { default: ExcelJS } = await import("exceljs");
+  const workbook = new ExcelJS.Workbook();
+  // Sheet names are limited to 31 characters and may not contain []:*?/\
+  const sheet = workbook.addWorksheet(
+    sheetName.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Export",
+  );
+  sheet.columns = columns.map((column) => ({
+    header: column.label,
+    style:
+      column.kind === "money"
+        ? { numFmt: "#,##0.00" }
+        : column.kind === "date"
+          ? { numFmt: "yyyy-mm-dd" }
+          : {},
+  }));
+  sheet.getRow(1).font = { bold: true };
+  rows.forEach((row) => {
+    sheet.addRow(
+      columns.map((column) =>
+        toXlsxValue(column.kind ?? "text", column.value(row)),
+      ),
+    );
+  });
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], {
+    type: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  });
+};
+
+/**
+ * Build the file in the browser and start a download named
+ * `<baseName>-<YYYY-MM-DD>.<format>`.
+ */
+export const downloadExport = async <T>({
+  baseName,
+  format,
+  columns,
+  rows,
+  sheetName,
+}: {
+  baseName: string;
+  format: ExportFormat;
+  columns: ExportColumn<T>[];
+  rows: T[];
+  sheetName?: string;
+}) => {
+  const blob =
+    format === "xlsx"
+      ? await buildXlsx(columns, rows, sheetName)
+      : // Byte order mark so Excel opens the CSV as UTF-8 (e.g. "£").
+        new Blob(["\ufeff" + buildCsv(columns, rows)], {
+          type: "text/csv;charset=utf-8",
+        });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${baseName}-${toIsoDate(new Date())}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,39 @@
+// src/lib/firebaseAdmin.ts
+import { cert, getApp, getApps, initializeApp } from "firebase-admin/app";
+import { getAuth } from "firebase-admin/auth";
+import { getFirestore } from "firebase-admin/firestore";
+
+const ADMIN_APP_NAME = "admin";
+
+/**
+ * Uses a service account from `FIREBASE_ADMIN_CLIENT_EMAIL` and
+ * `FIREBASE_ADMIN_PRIVATE_KEY` when set, else the default Google credentials
+ * of the host.
+ */
+const getAdminApp = () => {
+  if (getApps().some((app) => app.name === ADMIN_APP_NAME)) {
+    return getApp(ADMIN_APP_NAME);
+  }
+  const projectId =
+    process.env.FIREBASE_ADMIN_PROJECT_ID ??
+    process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+  const clientEmail = process.env.FIREBASE_ADMIN_CLIENT_EMAIL;
+  const privateKey = process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(
+    /\\n/g,
+    "\n",
+  );
+  return initializeApp(
+    clientEmail && privateKey
+      ? { credential: cert({ projectId, clientEmail, privateKey }), projectId }
+      : { projectId },
+    ADMIN_APP_NAME,
+  );
+};
+
+export const getAdminAuth = () => getAuth(getAdminApp());
+
+/**
+ * Firestore for API routes. Server code has no signed-in client user, so its
+ * reads and writes go through the service account instead of the web SDK.
+ */
+export const getAdminDb = () => getFirestore(getAdminApp());
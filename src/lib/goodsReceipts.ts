@@ -0,0 +1,601 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  runTransaction,
+  Timestamp,
+  where,
+  type DocumentReference,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { mapItemUnit, recordItemUnitEvent } from "@/lib/itemUnits";
+import {
+  recordStockMovements,
+  type StockMovementUser,
+  type StockMovementWriter,
+} from "@/lib/stockMovements";
+
+export type PurchaseStatus =
+  | "draft"
+  | "paid"
+  | "partially_received"
+  | "stock_received";
+
+export const PURCHASE_STATUSES: PurchaseStatus[] = [
+  "draft",
+  "paid",
+  "partially_received",
+  "stock_received",
+];
+
+export const PURCHASE_STATUS_LABELS: Record<PurchaseStatus, string> = {
+  draft: "Draft",
+  paid: "Paid",
+  partially_received: "Partially received",
+  stock_received: "Stock received",
+};
+
+/** Statuses that are only reached by recording goods received. */
+export const isReceiptStatus = (status: PurchaseStatus) =>
+  status === "partially_received" || status === "stock_received";
+
+export type GoodsReceiptLineInput = {
+  /** Index of the line in the purchase's `lineItems`. */
+  lineIndex: number;
+  qty: number;
+};
+
+export type GoodsReceiptLine = {
+  lineIndex: number;
+  itemId: string;
+  sku: string | null;
+  name: string | null;
+  qty: number;
+};
+
+export type GoodsReceipt = {
+  id: string;
+  purchaseId: string;
+  purchaseLabel: string | null;
+  lines: GoodsReceiptLine[];
+  deliveryReference: string | null;
+  note: string | null;
+  locationId: string | null;
+  receivedAt: Timestamp | null;
+  receivedByEmail: string | null;
+  unitCount: number;
+  reversedAt: Timestamp | null;
+  reversedByEmail: string | null;
+};
+
+const toNumber = (value: unknown) => {
+  const num = Number(value);
+  return Number.isFinite(num) ? num : 0;
+};
+
+/**
+ * Quantity already received on a purchase line. Purchases received before
+ * lines tracked `receivedQty` count as fully received once stock was applied.
+ */
+export const getLineReceivedQty = (
+  line: any,
+  purchase?: { stockAppliedAt?: Timestamp | null } | null,
+) => {
+  if (typeof line?.receivedQty === "number") return line.receivedQty;
+  return purchase?.stockAppliedAt ? Math.max(toNumber(line?.quantity), 0) : 0;
+};
+
+export const getLineOutstandingQty = (
+  line: any,
+  purchase?: { stockAppliedAt?: Timestamp | null } | null,
+) =>
+  Math.max(
+    toNumber(line?.quantity) - getLineReceivedQty(line, purchase),
+    0,
+  );
+
+/**
+ * Receipt status implied by the received quantities, or `null` when nothing
+ * has been received yet.
+ */
+export const getPurchaseReceiptStatus = (
+  lineItems: any[],
+): PurchaseStatus | null => {
+  const counted = lineItems.filter(
+    (line) => line?.itemId && toNumber(line?.quantity) > 0,
+  );
+  const received = counted.reduce(
+    (sum, line) => sum + getLineReceivedQty(line),
+    0,
+  );
+  if (received <= 0) return null;
+  return counted.every((line) => getLineOutstandingQty(line) === 0)
+    ? "stock_received"
+    : "partially_received";
+};
+
+export const formatUnitCode = (sku: string, counter: number) =>
+  `${sku}-${counter.toString().padStart(4, "0")}`;
+
+/**
+ * Write a goods-received note and move its quantities into inventory at
+ * `locationId` (unassigned when null). Items with `trackSerialNumber` get
+ * one `itemUnits` document per unit received, numbered from the item's
+ * `nextUnitCounter`. `itemDataById` must hold the
+ * current item documents; the caller updates `receivedQty` on the purchase.
+ */
+const writeGoodsReceipt = (
+  writer: StockMovementWriter,
+  {
+    purchaseId,
+    purchaseLabel,
+    lines,
+    itemDataById,
+    deliveryReference,
+    note,
+    locationId,
+    user,
+    at,
+  }: {
+    purchaseId: string;
+    purchaseLabel: string | null;
+    lines: GoodsReceiptLine[];
+    itemDataById: Map<string, any>;
+    deliveryReference?: string | null;
+    note?: string | null;
+    locationId?: string | null;
+    user?: StockMovementUser;
+    at: Timestamp;
+  },
+) => {
+  const receiptRef = doc(collection(db, "goodsReceipts"));
+  const nextCounters = new Map<string, number>();
+  let unitCount = 0;
+
+  lines.forEach((line) => {
+    const itemData = itemDataById.get(line.itemId);
+    if (!itemData?.trackSerialNumber) return;
+    const sku = itemData.sku || line.sku || `ITEM-${line.itemId.slice(0, 4)}`;
+    let counter =
+      nextCounters.get(line.itemId) ??
+      (typeof itemData.nextUnitCounter === "number" &&
+      itemData.nextUnitCounter > 0
+        ? itemData.nextUnitCounter
+        : 1);
+    for (let i = 0; i < line.qty; i += 1) {
+      const unitRef = doc(collection(db, "itemUnits"));
+      const unitCode = formatUnitCode(sku, counter);
+      writer.set(unitRef, {
+        itemId: line.itemId,
+        sku,
+        unitCode,
+        status: "in_stock",
+        projectId: null,
+        projectName: null,
+        locationId: locationId ?? null,
+        purchaseId,
+        receiptId: receiptRef.id,
+        createdAt: at,
+        updatedAt: at,
+      });
+      recordItemUnitEvent(
+        writer,
+        { id: unitRef.id, unitCode, itemId: line.itemId },
+        {
+          fromStatus: null,
+          toStatus: "in_stock",
+          purchaseId,
+          note: deliveryReference
+            ? `Received (${deliveryReference})`
+            : "Received",
+          user,
+          at,
+        },
+      );
+      counter += 1;
+      unitCount += 1;
+    }
+    nextCounters.set(line.itemId, counter);
+  });
+  nextCounters.forEach((counter, itemId) => {
+    writer.update(doc(db, "items", itemId), {
+      nextUnitCounter: counter,
+      updatedAt: at,
+    });
+  });
+
+  writer.set(receiptRef, {
+    purchaseId,
+    purchaseLabel,
+    lines,
+    deliveryReference: deliveryReference || null,
+    note: note || null,
+    locationId: locationId ?? null,
+    unitCount,
+    receivedAt: at,
+    receivedByUserId: user?.uid ?? null,
+    receivedByEmail: user?.email ?? null,
+    reversedAt: null,
+  });
+  recordStockMovements(
+    writer,
+    lines.map((line) => ({
+      itemId: line.itemId,
+      itemName: line.name,
+      fromBucket: null,
+      toBucket: "inventory" as const,
+      toLocationId: locationId ?? null,
+      qty: line.qty,
+      note: deliveryReference
+        ? `Goods received (${deliveryReference})`
+        : "Goods received",
+    })),
+    {
+      source: { type: "purchase", id: purchaseId, label: purchaseLabel },
+      user,
+      at,
+    },
+  );
+  return receiptRef;
+};
+
+/**
+ * Record a delivery against a purchase in one transaction: each line's
+ * `receivedQty` is increased, a goods-received note is stored, the received
+ * quantities move into inventory and the purchase becomes partially or fully
+ * received. Pass `"outstanding"` to receive everything still due.
+ */
+export const recordGoodsReceipt = async ({
+  purchaseId,
+  lines,
+  deliveryReference,
+  note,
+  locationId,
+  user,
+}: {
+  purchaseId: string;
+  lines: GoodsReceiptLineInput[] | "outstanding";
+  deliveryReference?: string | null;
+  note?: string | null;
+  locationId?: string | null;
+  user?: StockMovementUser;
+}) =>
+  runTransaction(db, async (tx) => {
+    const purchaseRef = doc(db, "purchases", purchaseId);
+    const snap = await tx.get(purchaseRef);
+    if (!snap.exists()) {
+      throw new Error("Purchase not found.");
+    }
+    const data = snap.data() as any;
+    const lineItems: any[] = Array.isArray(data.lineItems)
+      ? data.lineItems
+      : [];
+    const requested =
+      lines === "outstanding"
+        ? lineItems.map((line, lineIndex) => ({
+            lineIndex,
+            qty: getLineOutstandingQty(line, data),
+          }))
+        : lines;
+
+    const receivedByLine = new Map<number, number>();
+    requested.forEach(({ lineIndex, qty }) => {
+      if (!Number.isFinite(qty) || qty <= 0) return;
+      receivedByLine.set(lineIndex, (receivedByLine.get(lineIndex) ?? 0) + qty);
+    });
+
+    const receiptLines: GoodsReceiptLine[] = [];
+    receivedByLine.forEach((qty, lineIndex) => {
+      const line = lineItems[lineIndex];
+      if (!line?.itemId) {
+        throw new Error(`Purchase line ${lineIndex + 1} has no item.`);
+      }
+      const outstanding = getLineOutstandingQty(line, data);
+      if (qty > outstanding) {
+        throw new Error(
+          `Only ${outstanding} of ${line.name || line.sku || "this item"} is still outstanding.`,
+        );
+      }
+      receiptLines.push({
+        lineIndex,
+        itemId: line.itemId,
+        sku: line.sku ?? null,
+        name: line.name ?? null,
+        qty,
+      });
+    });
+    if (!receiptLines.length) {
+      throw new Error("Enter a received quantity for at least one line.");
+    }
+
+    const receivedItemIds = Array.from(
+      new Set(receiptLines.map((line) => line.itemId)),
+    );
+    const itemSnaps = await Promise.all(
+      receivedItemIds.map((itemId) => tx.get(doc(db, "items", itemId))),
+    );
+    const itemDataById = new Map<string, any>(
+      itemSnaps
+        .filter((itemSnap) => itemSnap.exists())
+        .map((itemSnap) => [itemSnap.id, itemSnap.data()]),
+    );
+
+    const nextLineItems = lineItems.map((line, lineIndex) => ({
+      ...line,
+      receivedQty:
+        getLineReceivedQty(line, data) + (receivedByLine.get(lineIndex) ?? 0),
+    }));
+    const status = getPurchaseReceiptStatus(nextLineItems) ?? data.status;
+    const now = Timestamp.now();
+    const purchaseLabel = data.reference || data.vendorName || null;
+
+    tx.update(purchaseRef, {
+      lineItems: nextLineItems,
+      status,
+      // Kept so reversing every receipt restores the status it had before.
+      ...(isReceiptStatus(data.status)
+        ? {}
+        : { statusBeforeReceipt: data.status ?? null }),
+      stockAppliedAt: status === "stock_received" ? now : null,
+      lastReceivedAt: now,
+      updatedAt: now,
+    });
+    const receiptRef = writeGoodsReceipt(tx, {
+      purchaseId,
+      purchaseLabel,
+      lines: receiptLines,
+      itemDataById,
+      deliveryReference,
+      note,
+      locationId,
+      user,
+      at: now,
+    });
+
+    return {
+      receiptId: receiptRef.id,
+      status: status as PurchaseStatus,
+      lineItems: nextLineItems,
+      receivedAt: now,
+      lines: receiptLines,
+    };
+  });
+
+/**
+ * Create a purchase that arrived in full, together with its goods receipt,
+ * in one transaction so the purchase is never marked received without the
+ * stock and units that go with it. `purchase` is the purchase document
+ * without status or received quantities.
+ */
+export const createReceivedPurchase = async ({
+  purchase,
+  deliveryReference,
+  note,
+  locationId,
+  user,
+}: {
+  purchase: Record<string, any> & { lineItems: any[] };
+  deliveryReference?: string | null;
+  note?: string | null;
+  locationId?: string | null;
+  user?: StockMovementUser;
+}) =>
+  runTransaction(db, async (tx) => {
+    const purchaseRef = doc(collection(db, "purchases"));
+    const receiptLines: GoodsReceiptLine[] = [];
+    purchase.lineItems.forEach((line, lineIndex) => {
+      const qty = toNumber(line?.quantity);
+      if (!line?.itemId || qty <= 0) return;
+      receiptLines.push({
+        lineIndex,
+        itemId: line.itemId,
+        sku: line.sku ?? null,
+        name: line.name ?? null,
+        qty,
+      });
+    });
+    if (!receiptLines.length) {
+      throw new Error("Add at least one line with a quantity to receive.");
+    }
+
+    const receivedItemIds = Array.from(
+      new Set(receiptLines.map((line) => line.itemId)),
+    );
+    const itemSnaps = await Promise.all(
+      receivedItemIds.map((itemId) => tx.get(doc(db, "items", itemId))),
+    );
+    const itemDataById = new Map<string, any>(
+      itemSnaps
+        .filter((itemSnap) => itemSnap.exists())
+        .map((itemSnap) => [itemSnap.id, itemSnap.data()]),
+    );
+
+    const lineItems = purchase.lineItems.map((line) => ({
+      ...line,
+      receivedQty: Math.max(toNumber(line?.quantity), 0),
+    }));
+    const now = Timestamp.now();
+    const purchaseLabel = purchase.reference || purchase.vendorName || null;
+
+    tx.set(purchaseRef, {
+      ...purchase,
+      lineItems,
+      status: "stock_received",
+      statusBeforeReceipt: "paid",
+      stockAppliedAt: now,
+      lastReceivedAt: now,
+      updatedAt: now,
+    });
+    writeGoodsReceipt(tx, {
+      purchaseId: purchaseRef.id,
+      purchaseLabel,
+      lines: receiptLines,
+      itemDataById,
+      deliveryReference,
+      note,
+      locationId,
+      user,
+      at: now,
+    });
+    return purchaseRef.id;
+  });
+
+export const fetchPurchaseGoodsReceipts = async (
+  purchaseId: string,
+): Promise<GoodsReceipt[]> => {
+  const snap = await getDocs(
+    query(
+      collection(db, "goodsReceipts"),
+      where("purchaseId", "==", purchaseId),
+    ),
+  );
+  return snap.docs
+    .map((docSnap) => {
+      const data = docSnap.data() as any;
+      return {
+        id: docSnap.id,
+        purchaseId: data.purchaseId,
+        purchaseLabel: data.purchaseLabel ?? null,
+        lines: Array.isArray(data.lines) ? data.lines : [],
+        deliveryReference: data.deliveryReference ?? null,
+        note: data.note ?? null,
+        locationId: data.locationId ?? null,
+        receivedAt: data.receivedAt ?? null,
+        receivedByEmail: data.receivedByEmail ?? null,
+        unitCount: data.unitCount ?? 0,
+        reversedAt: data.reversedAt ?? null,
+        reversedByEmail: data.reversedByEmail ?? null,
+      };
+    })
+    .sort(
+      (a, b) =>
+        (b.receivedAt?.toMillis() ?? 0) - (a.receivedAt?.toMillis() ?? 0),
+    );
+};
+
+/**
+ * Undo a goods receipt: its quantities leave inventory again, the purchase
+ * lines' `receivedQty` drops back and the serialized units it created are
+ * deleted. When nothing is left received the purchase returns to the status
+ * it had before its first receipt. Unit counters are not rewound so codes
+ * are never reused.
+ */
+export const reverseGoodsReceipt = async ({
+  receiptId,
+  user,
+}: {
+  receiptId: string;
+  user?: StockMovementUser;
+}) => {
+  // Transactions cannot run queries, so the receipt's units are looked up
+  // first; they are only created with the receipt. Each unit is re-read
+  // inside the transaction so one allocated meanwhile blocks the reversal.
+  const unitSnap = await getDocs(
+    query(collection(db, "itemUnits"), where("receiptId", "==", receiptId)),
+  );
+  const unitRefs: DocumentReference[] = unitSnap.docs.map(
+    (docSnap) => docSnap.ref,
+  );
+
+  return runTransaction(db, async (tx) => {
+    const receiptRef = doc(db, "goodsReceipts", receiptId);
+    const receiptSnap = await tx.get(receiptRef);
+    if (!receiptSnap.exists()) {
+      throw new Error("Goods receipt not found.");
+    }
+    const receipt = receiptSnap.data() as any;
+    if (receipt.reversedAt) {
+      throw new Error("This goods receipt has already been reversed.");
+    }
+    const purchaseRef = doc(db, "purchases", receipt.purchaseId);
+    const purchaseSnap = await tx.get(purchaseRef);
+    if (!purchaseSnap.exists()) {
+      throw new Error("Purchase not found.");
+    }
+    const purchase = purchaseSnap.data() as any;
+    const unitSnaps = await Promise.all(
+      unitRefs.map((unitRef) => tx.get(unitRef)),
+    );
+    const usedUnit = unitSnaps
+      .filter((snap) => snap.exists())
+      .map((snap) => mapItemUnit(snap.id, snap.data()))
+      .find((unit) => unit.status !== "in_stock");
+    if (usedUnit) {
+      throw new Error(
+        `Unit ${usedUnit.unitCode} from this delivery is no longer in stock, so the delivery cannot be undone.`,
+      );
+    }
+    const lines: GoodsReceiptLine[] = Array.isArray(receipt.lines)
+      ? receipt.lines
+      : [];
+    const reversedByLine = new Map<number, number>();
+    lines.forEach((line) => {
+      reversedByLine.set(
+        line.lineIndex,
+        (reversedByLine.get(line.lineIndex) ?? 0) + line.qty,
+      );
+    });
+
+    const lineItems: any[] = Array.isArray(purchase.lineItems)
+      ? purchase.lineItems
+      : [];
+    const nextLineItems = lineItems.map((line, lineIndex) => ({
+      ...line,
+      receivedQty: Math.max(
+        getLineReceivedQty(line, purchase) -
+          (reversedByLine.get(lineIndex) ?? 0),
+        0,
+      ),
+    }));
+    const previousStatus: PurchaseStatus | null =
+      purchase.statusBeforeReceipt ??
+      (isReceiptStatus(purchase.status) ? null : purchase.status);
+    const status: PurchaseStatus =
+      getPurchaseReceiptStatus(nextLineItems) ?? previousStatus ?? "paid";
+    const now = Timestamp.now();
+    const purchaseLabel = purchase.reference || purchase.vendorName || null;
+
+    tx.update(purchaseRef, {
+      lineItems: nextLineItems,
+      status,
+      stockAppliedAt: status === "stock_received" ? purchase.stockAppliedAt : null,
+      updatedAt: now,
+    });
+    tx.update(receiptRef, {
+      reversedAt: now,
+      reversedByUserId: user?.uid ?? null,
+      reversedByEmail: user?.email ?? null,
+    });
+    unitSnaps
+      .filter((snap) => snap.exists())
+      .forEach((snap) => tx.delete(snap.ref));
+    recordStockMovements(
+      tx,
+      lines.map((line) => ({
+        itemId: line.itemId,
+        itemName: line.name,
+        fromBucket: "inventory" as const,
+        toBucket: null,
+        fromLocationId: receipt.locationId ?? null,
+        qty: line.qty,
+        note: "Goods receipt reversed",
+      })),
+      {
+        source: {
+          type: "purchase",
+          id: receipt.purchaseId,
+          label: purchaseLabel,
+        },
+        user,
+        at: now,
+      },
+    );
+
+    return {
+      status,
+      lineItems: nextLineItems,
+      removedUnits: unitSnaps.filter((snap) => snap.exists()).length,
+    };
+  });
+};
@@ -1,6 +1,16 @@
-const HUBSPOT_BASE_URL = "https://api.hubapi.com";
+import { getHubspotClient, type HubspotRequestInit } from "@/lib/hubspotClient";
+
+export {
+  HubspotApiError,
+  HubspotAuthError,
+  HubspotNotFoundError,
+  HubspotRateLimitError,
+  HubspotValidationError,
+} from "@/lib/hubspotClient";
+
 const HUBSPOT_PROJECT_FIELDS = [
   "hs_name",
+  "hs_pipeline",
   "hs_pipeline_stage",
   "hs_pipeline_stage_label",
   "hs_lastmodifieddate",
@@ -11,67 +21,243 @@ export type HubspotProjectResponse = {
   properties: Record<string, unknown>;
 };
 
-export const fetchHubspotProject = async (projectId: string) => {
-  const accessToken = process.env.HUBSPOT_PRIVATE_APP_TOKEN;
-  if (!accessToken) {
-    throw new Error(
-      "Missing HUBSPOT_PRIVATE_APP_TOKEN. Set it in your environment variables.",
-    );
-  }
-
-  const url = new URL(
-    `${HUBSPOT_BASE_URL}/crm/v3/objects/projects/${encodeURIComponent(projectId)}`,
-  );
-  url.searchParams.set("properties", HUBSPOT_PROJECT_FIELDS.join(","));
+export type HubspotProjectSummary = {
+  id: string;
+  name: string | null;
+  pipelineId: string | null;
+  stageId: string | null;
+  stageLabel: string | null;
+  stage: string | null;
+  lastModified: unknown;
+  raw: Record<string, unknown>;
+};
 
-  const response = await fetch(url.toString(), {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    next: { revalidate: 0 },
-  });
+export type HubspotLineItem = {
+  id: string;
+  name: string | null;
+  quantity: number;
+  productId: string | null;
+  sku: string | null;
+};
+
+export type HubspotProductInput = {
+  name: string;
+  sku: string;
+  price: number | null;
+  description: string | null;
+};
+
+export type HubspotPipeline = {
+  id: string;
+  label: string;
+  stages: { id: string; label: string }[];
+};
 
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(
-      `HubSpot API error (${response.status}): ${text || response.statusText}`,
-    );
-  }
+const hubspotRequest = <T>(path: string, init?: HubspotRequestInit) =>
+  getHubspotClient().request<T>(path, init);
+
+export const mapHubspotProject = (
+  payload: HubspotProjectResponse,
+): HubspotProjectSummary => {
+  const props = payload.properties ?? {};
+  const stageId =
+    typeof props.hs_pipeline_stage === "string"
+      ? props.hs_pipeline_stage
+      : null;
+  const stageLabel =
+    typeof props.hs_pipeline_stage_label === "string"
+      ? props.hs_pipeline_stage_label
+      : null;
+  const name = props.hs_name ?? props.projectname ?? props.name ?? null;
+  return {
+    id: payload.id,
+    name: typeof name === "string" ? name : null,
+    pipelineId: props.hs_pipeline ? String(props.hs_pipeline) : null,
+    stageId,
+    stageLabel,
+    stage: stageLabel || stageId,
+    lastModified: props.hs_lastmodifieddate ?? null,
+    raw: props,
+  };
+};
 
-  return (await response.json()) as HubspotProjectResponse;
+export const fetchHubspotProject = async (projectId: string) => {
+  const params = new URLSearchParams({
+    properties: HUBSPOT_PROJECT_FIELDS.join(","),
+  });
+  return hubspotRequest<HubspotProjectResponse>(
+    `/crm/v3/objects/projects/${encodeURIComponent(projectId)}?${params}`,
+  );
 };
 
 export const updateHubspotProjectStage = async (
   projectId: string,
   stageId: string,
 ) => {
-  const accessToken = process.env.HUBSPOT_PRIVATE_APP_TOKEN;
-  if (!accessToken) {
-    throw new Error(
-      "Missing HUBSPOT_PRIVATE_APP_TOKEN. Set it in your environment variables.",
-    );
-  }
-
-  const url = `${HUBSPOT_BASE_URL}/crm/v3/objects/projects/${encodeURIComponent(projectId)}`;
-  const response = await fetch(url, {
-    method: "PATCH",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
+  await hubspotRequest<HubspotProjectResponse>(
+    `/crm/v3/objects/projects/${encodeURIComponent(projectId)}`,
+    {
+      method: "PATCH",
+      body: { properties: { hs_pipeline_stage: stageId } },
     },
-    body: JSON.stringify({
-      properties: {
-        hs_pipeline_stage: stageId,
+  );
+};
+
+/**
+ * One page of projects in the given pipeline stages, most recently modified
+ * first. Pass the returned `nextAfter` to fetch the following page.
+ */
+export const searchHubspotProjects = async ({
+  stageIds,
+  search,
+  after,
+  limit = 50,
+}: {
+  stageIds: string[];
+  search?: string | null;
+  after?: string | null;
+  limit?: number;
+}) => {
+  const payload = await hubspotRequest<{
+    total?: number;
+    results?: HubspotProjectResponse[];
+    paging?: { next?: { after?: string } };
+  }>("/crm/v3/objects/projects/search", {
+    method: "POST",
+    retry: true,
+    body: {
+      filterGroups: stageIds.length
+        ? [
+            {
+              filters: [
+                {
+                  propertyName: "hs_pipeline_stage",
+                  operator: "IN",
+                  values: stageIds,
+                },
+              ],
+            },
+          ]
+        : [],
+      ...(search?.trim() ? { query: search.trim() } : {}),
+      sorts: [{ propertyName: "hs_lastmodifieddate", direction: "DESCENDING" }],
+      properties: HUBSPOT_PROJECT_FIELDS,
+      limit,
+      ...(after ? { after } : {}),
+    },
+  });
+
+  return {
+    total: payload.total ?? 0,
+    projects: (payload.results ?? []).map(mapHubspotProject),
+    nextAfter: payload.paging?.next?.after ?? null,
+  };
+};
+
+/** Line items associated with a project, with the product each refers to. */
+export const fetchHubspotProjectLineItems = async (projectId: string) => {
+  const associations = await hubspotRequest<{
+    results?: { toObjectId: string | number }[];
+  }>(
+    `/crm/v4/objects/projects/${encodeURIComponent(projectId)}/associations/line_items?limit=500`,
+  );
+  const ids = (associations.results ?? []).map((row) => String(row.toObjectId));
+  if (!ids.length) return [];
+
+  const payload = await hubspotRequest<{ results?: HubspotProjectResponse[] }>(
+    "/crm/v3/objects/line_items/batch/read",
+    {
+      method: "POST",
+      retry: true,
+      body: {
+        properties: ["name", "quantity", "hs_product_id", "hs_sku"],
+        inputs: ids.map((id) => ({ id })),
       },
-    }),
-    next: { revalidate: 0 },
+    },
+  );
+
+  return (payload.results ?? []).map((row): HubspotLineItem => {
+    const props = row.properties ?? {};
+    const quantity = Number(props.quantity);
+    return {
+      id: row.id,
+      name: typeof props.name === "string" ? props.name : null,
+      quantity: Number.isFinite(quantity) ? quantity : 0,
+      productId: props.hs_product_id ? String(props.hs_product_id) : null,
+      sku: typeof props.hs_sku === "string" ? props.hs_sku : null,
+    };
   });
+};
+
+const toHubspotProductProperties = (input: HubspotProductInput) => ({
+  name: input.name,
+  hs_sku: input.sku,
+  price: input.price == null ? "" : String(input.price),
+  description: input.description ?? "",
+});
+
+/** HubSpot products whose SKU is exactly `sku`. */
+export const findHubspotProductsBySku = async (sku: string) => {
+  const payload = await hubspotRequest<{ results?: HubspotProjectResponse[] }>(
+    "/crm/v3/objects/products/search",
+    {
+      method: "POST",
+      retry: true,
+      body: {
+        filterGroups: [
+          { filters: [{ propertyName: "hs_sku", operator: "EQ", value: sku }] },
+        ],
+        properties: ["name", "hs_sku"],
+        limit: 10,
+      },
+    },
+  );
+  return (payload.results ?? []).map((row) => ({
+    id: row.id,
+    name: typeof row.properties?.name === "string" ? row.properties.name : null,
+  }));
+};
 
-  if (!response.ok) {
-    const text = await response.text();
-    throw new Error(
-      `HubSpot API error (${response.status}): ${text || response.statusText}`,
-    );
-  }
+export const createHubspotProduct = async (input: HubspotProductInput) => {
+  const payload = await hubspotRequest<HubspotProjectResponse>(
+    "/crm/v3/objects/products",
+    {
+      method: "POST",
+      body: { properties: toHubspotProductProperties(input) },
+    },
+  );
+  return payload.id;
+};
+
+export const updateHubspotProduct = async (
+  productId: string,
+  input: HubspotProductInput,
+) => {
+  await hubspotRequest<HubspotProjectResponse>(
+    `/crm/v3/objects/products/${encodeURIComponent(productId)}`,
+    {
+      method: "PATCH",
+      body: { properties: toHubspotProductProperties(input) },
+    },
+  );
+};
+
+/** Pipelines for the projects object, with stages in display order. */
+export const fetchHubspotProjectPipelines = async () => {
+  const payload = await hubspotRequest<{
+    results?: {
+      id: string;
+      label?: string;
+      stages?: { id: string; label?: string; displayOrder?: number }[];
+    }[];
+  }>("/crm/v3/pipelines/projects");
+  return (payload.results ?? []).map(
+    (pipeline): HubspotPipeline => ({
+      id: pipeline.id,
+      label: pipeline.label ?? pipeline.id,
+      stages: [...(pipeline.stages ?? [])]
+        .sort((a, b) => (a.displayOrder ?? 0) - (b.displayOrder ?? 0))
+        .map((stage) => ({ id: stage.id, label: stage.label ?? stage.id })),
+    }),
+  );
 };
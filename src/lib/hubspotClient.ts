@@ -0,0 +1,274 @@
+export const HUBSPOT_BASE_URL = "https://api.hubapi.com";
+
+export type HubspotTransportRequest = {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+};
+
+/** The parts of a fetch `Response` the client reads. */
+export type HubspotTransportResponse = {
+  status: number;
+  headers: { get: (name: string) => string | null };
+  text: () => Promise<string>;
+};
+
+/**
+ * Sends one HTTP request. The default uses `fetch`; tests and local
+ * development can pass an in-memory fake instead.
+ */
+export type HubspotTransport = (
+  request: HubspotTransportRequest,
+) => Promise<HubspotTransportResponse>;
+
+export type HubspotClientOptions = {
+  /** Defaults to `HUBSPOT_PRIVATE_APP_TOKEN`, read on each request. */
+  accessToken?: string | null;
+  transport?: HubspotTransport;
+  baseUrl?: string;
+  /**
+   * Retries after the first attempt: 429 responses for every method, 5xx
+   * responses and network errors only for idempotent methods.
+   */
+  maxRetries?: number;
+  /** Backoff before the first retry; doubled on each further retry. */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+  now?: () => number;
+};
+
+export type HubspotRequestInit = {
+  method?: string;
+  body?: unknown;
+  /**
+   * Retry 5xx responses and network errors even though the method is not
+   * idempotent. Only for POSTs that change nothing, such as searches and
+   * batch reads; a retried create could add a duplicate record.
+   */
+  retry?: boolean;
+};
+
+export class HubspotApiError extends Error {
+  status: number;
+  body: string;
+
+  constructor(message: string, status: number, body = "") {
+    super(message);
+    this.name = "HubspotApiError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+/** Missing, invalid or under-scoped access token (401/403). */
+export class HubspotAuthError extends HubspotApiError {
+  constructor(message: string, status: number, body = "") {
+    super(message, status, body);
+    this.name = "HubspotAuthError";
+  }
+}
+
+export class HubspotNotFoundError extends HubspotApiError {
+  constructor(message: string, status: number, body = "") {
+    super(message, status, body);
+    this.name = "HubspotNotFoundError";
+  }
+}
+
+/** HubSpot rejected the payload (400/409/422). */
+export class HubspotValidationError extends HubspotApiError {
+  constructor(message: string, status: number, body = "") {
+    super(message, status, body);
+    this.name = "HubspotValidationError";
+  }
+}
+
+/** Still rate limited after every retry. */
+export class HubspotRateLimitError extends HubspotApiError {
+  retryAfterMs: number | null;
+
+  constructor(
+    message: string,
+    status: number,
+    body = "",
+    retryAfterMs: number | null = null,
+  ) {
+    super(message, status, body);
+    this.name = "HubspotRateLimitError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const toApiError = (status: number, body: string, statusText = "") => {
+  const message = `HubSpot API error (${status}): ${body || statusText}`;
+  if (status === 401 || status === 403) {
+    return new HubspotAuthError(message, status, body);
+  }
+  if (status === 404) return new HubspotNotFoundError(message, status, body);
+  if (status === 400 || status === 409 || status === 422) {
+    return new HubspotValidationError(message, status, body);
+  }
+  return new HubspotApiError(message, status, body);
+};
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "PUT", "PATCH", "DELETE"];
+
+const readNumberHeader = (
+  response: HubspotTransportResponse,
+  name: string,
+) => {
+  const raw = response.headers.get(name);
+  if (raw === null || raw.trim() === "") return null;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+};
+
+export const fetchTransport: HubspotTransport = async (request) =>
+  fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+    next: { revalidate: 0 },
+  });
+
+const defaultSleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * A HubSpot API client. Rate-limited (429) responses are retried with
+ * exponential backoff, waiting instead for `Retry-After` when HubSpot sends
+ * it. Server (5xx) responses and network failures are retried the same way
+ * for idempotent methods, and for POSTs only when the call opts in with
+ * `retry`, since the first attempt may have succeeded. When a response
+ * reports the rate-limit window is used up, later requests wait for the
+ * window to reset rather than spending a 429. Other failures throw a typed
+ * `HubspotApiError`.
+ */
+export const createHubspotClient = (options: HubspotClientOptions = {}) => {
+  const transport = options.transport ?? fetchTransport;
+  const baseUrl = options.baseUrl ?? HUBSPOT_BASE_URL;
+  const maxRetries = options.maxRetries ?? 4;
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  const maxDelayMs = options.maxDelayMs ?? 10_000;
+  const sleep = options.sleep ?? defaultSleep;
+  const now = options.now ?? Date.now;
+  let blockedUntil = 0;
+
+  const getAccessToken = () => {
+    const accessToken =
+      options.accessToken ?? process.env.HUBSPOT_PRIVATE_APP_TOKEN;
+    if (!accessToken) {
+      throw new HubspotAuthError(
+        "Missing HUBSPOT_PRIVATE_APP_TOKEN. Set it in your environment variables.",
+        401,
+      );
+    }
+    return accessToken;
+  };
+
+  const trackRateLimit = (response: HubspotTransportResponse) => {
+    const remaining = readNumberHeader(
+      response,
+      "X-HubSpot-RateLimit-Remaining",
+    );
+    const intervalMs = readNumberHeader(
+      response,
+      "X-HubSpot-RateLimit-Interval-Milliseconds",
+    );
+    if (remaining !== null && remaining <= 0 && intervalMs !== null) {
+      blockedUntil = Math.max(blockedUntil, now() + intervalMs);
+    }
+  };
+
+  const getRetryDelay = (
+    attempt: number,
+    response: HubspotTransportResponse | null,
+  ) => {
+    const retryAfterSeconds = response
+      ? readNumberHeader(response, "Retry-After")
+      : null;
+    if (retryAfterSeconds !== null) {
+      return Math.min(retryAfterSeconds * 1000, maxDelayMs);
+    }
+    const backoff = baseDelayMs * 2 ** attempt;
+    const jitter = Math.random() * baseDelayMs;
+    return Math.min(backoff + jitter, maxDelayMs);
+  };
+
+  const request = async <T>(
+    path: string,
+    init: HubspotRequestInit = {},
+  ): Promise<T> => {
+    const method = (init.method ?? "GET").toUpperCase();
+    const retriesFailures = init.retry ?? IDEMPOTENT_METHODS.includes(method);
+    const transportRequest: HubspotTransportRequest = {
+      method,
+      url: `${baseUrl}${path}`,
+      headers: {
+        Authorization: `Bearer ${getAccessToken()}`,
+        "Content-Type": "application/json",
+      },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    };
+
+    for (let attempt = 0; ; attempt += 1) {
+      const waitMs = blockedUntil - now();
+      if (waitMs > 0) await sleep(waitMs);
+
+      let response: HubspotTransportResponse;
+      try {
+        response = await transport(transportRequest);
+      } catch (err) {
+        if (!retriesFailures || attempt >= maxRetries) throw err;
+        await sleep(getRetryDelay(attempt, null));
+        continue;
+      }
+      trackRateLimit(response);
+
+      if (response.status >= 200 && response.status < 300) {
+        const text = await response.text();
+        return (text ? JSON.parse(text) : undefined) as T;
+      }
+
+      const body = await response.text();
+      const retryable =
+        response.status === 429 ||
+        (response.status >= 500 && retriesFailures);
+      if (!retryable || attempt >= maxRetries) {
+        if (response.status === 429) {
+          const retryAfter = readNumberHeader(response, "Retry-After");
+          throw new HubspotRateLimitError(
+            `HubSpot API error (429): ${body || "Rate limit exceeded"}`,
+            429,
+            body,
+            retryAfter === null ? null : retryAfter * 1000,
+          );
+        }
+        throw toApiError(response.status, body);
+      }
+      await sleep(getRetryDelay(attempt, response));
+    }
+  };
+
+  return { request };
+};
+
+export type HubspotClient = ReturnType<typeof createHubspotClient>;
+
+let defaultClient: HubspotClient | null = null;
+
+/** The client used by the helpers in `@/lib/hubspot`. */
+export const getHubspotClient = () => {
+  if (!defaultClient) defaultClient = createHubspotClient();
+  return defaultClient;
+};
+
+/**
+ * Replace the shared client, e.g. with one built on an in-memory transport.
+ * Pass nothing to go back to the default `fetch` client.
+ */
+export const configureHubspotClient = (options?: HubspotClientOptions) => {
+  defaultClient = options ? createHubspotClient(options) : null;
+};
@@ -0,0 +1,24 @@
+export type ProductSyncOutcome =
+  | "created"
+  | "updated"
+  | "linked"
+  | "conflict"
+  | "failed";
+
+export type ProductSyncResult = {
+  itemId: string;
+  itemName: string;
+  sku: string;
+  outcome: ProductSyncOutcome;
+  hubspotProductId: string | null;
+  message: string;
+};
+
+export const PRODUCT_SYNC_OUTCOME_LABELS: Record<ProductSyncOutcome, string> =
+  {
+    created: "Created",
+    updated: "Updated",
+    linked: "Linked",
+    conflict: "Conflict",
+    failed: "Failed",
+  };
@@ -0,0 +1,59 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/** HubSpot rejects requests older than this; so do we. */
+const MAX_SIGNATURE_AGE_MS = 5 * 60 * 1000;
+
+// HubSpot signs the URI with these characters decoded.
+const SIGNED_URI_DECODES: [RegExp, string][] = [
+  [/%3A/gi, ":"],
+  [/%2F/gi, "/"],
+  [/%3F/gi, "?"],
+  [/%40/gi, "@"],
+  [/%21/gi, "!"],
+  [/%24/gi, "$"],
+  [/%27/gi, "'"],
+  [/%28/gi, "("],
+  [/%29/gi, ")"],
+  [/%2A/gi, "*"],
+  [/%2C/gi, ","],
+  [/%3B/gi, ";"],
+];
+
+/**
+ * Check a v3 request signature: base64 HMAC-SHA256 of method, URI, raw body
+ * and timestamp, keyed with the app's client secret.
+ */
+export const verifyHubspotSignature = ({
+  method,
+  url,
+  body,
+  signature,
+  timestamp,
+  secret,
+  now = Date.now(),
+}: {
+  method: string;
+  url: string;
+  body: string;
+  signature: string | null;
+  timestamp: string | null;
+  secret: string;
+  now?: number;
+}) => {
+  if (!signature || !timestamp) return false;
+  const sentAt = Number(timestamp);
+  if (!Number.isFinite(sentAt) || Math.abs(now - sentAt) > MAX_SIGNATURE_AGE_MS) {
+    return false;
+  }
+  const uri = SIGNED_URI_DECODES.reduce(
+    (value, [pattern, replacement]) => value.replace(pattern, replacement),
+    url,
+  );
+  const expected = createHmac("sha256", secret)
+    .update(`${method}${uri}${body}${timestamp}`)
+    .digest();
+  const received = Buffer.from(signature, "base64");
+  return (
+    received.length === expected.length && timingSafeEqual(received, expected)
+  );
+};
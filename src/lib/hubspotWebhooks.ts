@@ -0,0 +1,87 @@
+import {
+  collection,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  type Timestamp,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+
+/** One entry of the array HubSpot posts to a webhook subscription. */
+export type HubspotWebhookEvent = {
+  eventId: number | string;
+  subscriptionId?: number;
+  portalId?: number;
+  occurredAt?: number;
+  subscriptionType?: string;
+  attemptNumber?: number;
+  objectId?: number | string;
+  objectTypeId?: string;
+  propertyName?: string;
+  propertyValue?: string;
+  changeSource?: string;
+};
+
+export type HubspotWebhookOutcome = "processed" | "ignored" | "failed";
+
+export type HubspotWebhookLogEntry = {
+  id: string;
+  eventId: string;
+  subscriptionType: string | null;
+  objectId: string | null;
+  propertyName: string | null;
+  propertyValue: string | null;
+  occurredAt: Timestamp | null;
+  receivedAt: Timestamp | null;
+  outcome: HubspotWebhookOutcome;
+  reason: string;
+  projectId: string | null;
+  projectName: string | null;
+  fromStatus: string | null;
+  toStatus: string | null;
+  movementCount: number;
+};
+
+export const HUBSPOT_WEBHOOK_OUTCOME_LABELS: Record<
+  HubspotWebhookOutcome,
+  string
+> = {
+  processed: "Processed",
+  ignored: "Ignored",
+  failed: "Failed",
+};
+
+export const mapHubspotWebhookLogEntry = (
+  id: string,
+  data: any,
+): HubspotWebhookLogEntry => ({
+  id,
+  eventId: data?.eventId ?? id,
+  subscriptionType: data?.subscriptionType ?? null,
+  objectId: data?.objectId ?? null,
+  propertyName: data?.propertyName ?? null,
+  propertyValue: data?.propertyValue ?? null,
+  occurredAt: data?.occurredAt ?? null,
+  receivedAt: data?.receivedAt ?? null,
+  outcome: data?.outcome ?? "ignored",
+  reason: data?.reason ?? "",
+  projectId: data?.projectId ?? null,
+  projectName: data?.projectName ?? null,
+  fromStatus: data?.fromStatus ?? null,
+  toStatus: data?.toStatus ?? null,
+  movementCount: Number(data?.movementCount) || 0,
+});
+
+export const fetchHubspotWebhookLog = async (maxEntries = 200) => {
+  const snap = await getDocs(
+    query(
+      collection(db, "hubspotWebhookEvents"),
+      orderBy("receivedAt", "desc"),
+      limit(maxEntries),
+    ),
+  );
+  return snap.docs.map((docSnap) =>
+    mapHubspotWebhookLogEntry(docSnap.id, docSnap.data()),
+  );
+};
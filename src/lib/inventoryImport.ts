@@ -0,0 +1,724 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  runTransaction,
+  Timestamp,
+  writeBatch,
+  type DocumentReference,
+  type Transaction,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { getItemLocationQuantities, getUnassignedQty } from "@/lib/locations";
+import {
+  recordStockMovements,
+  STOCK_BUCKET_FIELDS,
+  STOCK_BUCKETS,
+  type StockMovementInput,
+  type StockMovementUser,
+} from "@/lib/stockMovements";
+
+export type CsvRow = {
+  [key: string]: any;
+};
+
+export type ImportField =
+  | "name"
+  | "shortCode"
+  | "itemType"
+  | "category"
+  | "description"
+  | "unitOfMeasure"
+  | "status"
+  | "supplier1"
+  | "supplier1Id"
+  | "supplier2"
+  | "supplier2Id"
+  | "pricePerUnit"
+  | "standardCost"
+  | "totalCost"
+  | "inventoryQty"
+  | "reorderLevel"
+  | "reorderQuantity"
+  | "lowStockThreshold"
+  | "usefulLifeMonths"
+  | "trackSerialNumber"
+  | "hubspotProductId"
+  | "xeroItemCode";
+
+type ImportFieldKind = "text" | "number" | "count" | "boolean";
+
+type ImportFieldConfig = {
+  key: ImportField;
+  label: string;
+  kind: ImportFieldKind;
+  /** Header names recognised automatically, compared case-insensitively. */
+  headers: string[];
+};
+
+/** Item fields a CSV column can be mapped to. */
+export const IMPORT_FIELDS: ImportFieldConfig[] = [
+  { key: "name", label: "Name", kind: "text", headers: ["name"] },
+  {
+    key: "shortCode",
+    label: "Short code",
+    kind: "text",
+    headers: ["shortcode", "short code", "sku", "code"],
+  },
+  { key: "itemType", label: "Type", kind: "text", headers: ["type", "item type"] },
+  { key: "category", label: "Category", kind: "text", headers: ["category"] },
+  {
+    key: "description",
+    label: "Description",
+    kind: "text",
+    headers: ["description"],
+  },
+  {
+    key: "unitOfMeasure",
+    label: "Unit of measure",
+    kind: "text",
+    headers: ["uom", "unit of measure", "unit"],
+  },
+  { key: "status", label: "Status", kind: "text", headers: ["status"] },
+  { key: "supplier1", label: "Supplier 1", kind: "text", headers: ["supplier 1", "supplier"] },
+  {
+    key: "supplier1Id",
+    label: "Supplier 1 ID",
+    kind: "text",
+    headers: ["supplier 1 id", "supplier1id"],
+  },
+  { key: "supplier2", label: "Supplier 2", kind: "text", headers: ["supplier 2"] },
+  {
+    key: "supplier2Id",
+    label: "Supplier 2 ID",
+    kind: "text",
+    headers: ["supplier 2 id", "supplier2id"],
+  },
+  {
+    key: "pricePerUnit",
+    label: "Price per unit",
+    kind: "number",
+    headers: ["price per unit", "unit price", "price"],
+  },
+  {
+    key: "standardCost",
+    label: "Standard cost",
+    kind: "number",
+    headers: ["standard cost"],
+  },
+  { key: "totalCost", label: "Total cost", kind: "number", headers: ["total cost"] },
+  {
+    key: "inventoryQty",
+    label: "Inventory qty",
+    kind: "number",
+    headers: ["qty", "quantity", "inventory qty", "on hand"],
+  },
+  {
+    key: "reorderLevel",
+    label: "Reorder level",
+    kind: "count",
+    headers: ["reorder level", "reorder point"],
+  },
+  {
+    key: "reorderQuantity",
+    label: "Reorder quantity",
+    kind: "count",
+    headers: ["reorder quantity", "reorder qty"],
+  },
+  {
+    key: "lowStockThreshold",
+    label: "Low stock threshold",
+    kind: "count",
+    headers: ["low stock threshold", "low stock"],
+  },
+  {
+    key: "usefulLifeMonths",
+    label: "Useful life (months)",
+    kind: "count",
+    headers: ["useful life months", "useful life"],
+  },
+  {
+    key: "trackSerialNumber",
+    label: "Track serial numbers",
+    kind: "boolean",
+    headers: ["track serial number", "serialized", "serialised"],
+  },
+  {
+    key: "hubspotProductId",
+    label: "HubSpot product ID",
+    kind: "text",
+    headers: ["hubspot product id", "hubspot id"],
+  },
+  {
+    key: "xeroItemCode",
+    label: "Xero item code",
+    kind: "text",
+    headers: ["xero item code", "xero code"],
+  },
+];
+
+export const IMPORT_FIELD_LABELS = Object.fromEntries(
+  IMPORT_FIELDS.map((field) => [field.key, field.label]),
+) as Record<ImportField, string>;
+
+type ImportValue = string | number | boolean;
+
+/**
+ * One inventory row read from a CSV through a column mapping. Blank cells
+ * are left out so an import never clears a value already on the item.
+ */
+export type ImportRow = {
+  rowNumber: number;
+  name: string;
+  values: Partial<Record<ImportField, ImportValue>>;
+};
+
+export type ImportRowError = {
+  rowNumber: number;
+  column: string | null;
+  message: string;
+};
+
+/** File column → item field; unmapped columns are ignored. */
+export type ImportColumnMapping = Record<string, ImportField | "">;
+
+export type ImportFieldChange = {
+  field: ImportField;
+  before: ImportValue | null;
+  after: ImportValue;
+};
+
+export type ImportDiff = {
+  created: { key: string; row: ImportRow }[];
+  changed: {
+    key: string;
+    itemId: string;
+    itemName: string;
+    row: ImportRow;
+    changes: ImportFieldChange[];
+  }[];
+  unchanged: { key: string; itemId: string; itemName: string }[];
+  /** Existing items with no row in the file. */
+  missing: { key: string; itemId: string; itemName: string }[];
+  /** Keys that appear more than once; only the first row is used. */
+  duplicateKeys: string[];
+};
+
+export type ImportSelection = {
+  createKeys: string[];
+  fieldsByItemId: Record<string, ImportField[]>;
+  deleteItemIds: string[];
+};
+
+const normalizeHeader = (value: string) =>
+  value.trim().toLowerCase().replace(/[\s_-]+/g, " ");
+
+/** Map each file column to the field whose label or known header it matches. */
+export const guessColumnMapping = (headers: string[]): ImportColumnMapping => {
+  const used = new Set<ImportField>();
+  const mapping: ImportColumnMapping = {};
+  headers.forEach((header) => {
+    const normalized = normalizeHeader(header);
+    const match = IMPORT_FIELDS.find(
+      (field) =>
+        !used.has(field.key) &&
+        (normalizeHeader(field.label) === normalized ||
+          field.headers.includes(normalized)),
+    );
+    mapping[header] = match?.key ?? "";
+    if (match) used.add(match.key);
+  });
+  return mapping;
+};
+
+/** Problems with the mapping itself, independent of any row. */
+export const validateColumnMapping = (mapping: ImportColumnMapping) => {
+  const problems: string[] = [];
+  const mapped = Object.values(mapping).filter(Boolean) as ImportField[];
+  if (!mapped.includes("name")) {
+    problems.push("Map a column to Name.");
+  }
+  const duplicates = mapped.filter(
+    (field, index) => mapped.indexOf(field) !== index,
+  );
+  Array.from(new Set(duplicates)).forEach((field) => {
+    problems.push(`More than one column is mapped to ${IMPORT_FIELD_LABELS[field]}.`);
+  });
+  return problems;
+};
+
+const parseCell = (
+  kind: ImportFieldKind,
+  raw: string,
+): { value: ImportValue } | { error: string } => {
+  if (kind === "text") return { value: raw };
+  if (kind === "boolean") {
+    const normalized = raw.toLowerCase();
+    if (["yes", "y", "true", "1"].includes(normalized)) return { value: true };
+    if (["no", "n", "false", "0"].includes(normalized)) return { value: false };
+    return { error: `"${raw}" is not yes or no.` };
+  }
+  const n = Number(raw.replace(/,/g, "").replace(/^£/, ""));
+  if (!Number.isFinite(n)) return { error: `"${raw}" is not a number.` };
+  if (kind === "count" && (n < 0 || !Number.isInteger(n))) {
+    return { error: `"${raw}" must be a whole number of zero or more.` };
+  }
+  return { value: n };
+};
+
+/**
+ * Apply a column mapping to parsed CSV rows. Rows with any invalid cell are
+ * reported in `errors` and left out of `rows`. Supplier IDs must match a
+ * known supplier; a mapped ID with no supplier name fills the name in.
+ */
+export const mapCsvRows = (
+  csvRows: CsvRow[],
+  mapping: ImportColumnMapping,
+  suppliersById: Map<string, { name: string }> = new Map(),
+) => {
+  const rows: ImportRow[] = [];
+  const errors: ImportRowError[] = [];
+  const fieldsByKey = new Map(IMPORT_FIELDS.map((field) => [field.key, field]));
+
+  csvRows.forEach((csvRow, index) => {
+    // Header is line 1 of the file.
+    const rowNumber = index + 2;
+    const values: Partial<Record<ImportField, ImportValue>> = {};
+    const rowErrors: ImportRowError[] = [];
+
+    Object.entries(mapping).forEach(([column, fieldKey]) => {
+      if (!fieldKey) return;
+      const raw = String(csvRow[column] ?? "").trim();
+      if (!raw) return;
+      const parsed = parseCell(fieldsByKey.get(fieldKey)!.kind, raw);
+      if ("error" in parsed) {
+        rowErrors.push({ rowNumber, column, message: parsed.error });
+      } else {
+        values[fieldKey] = parsed.value;
+      }
+    });
+
+    if (!values.name) {
+      rowErrors.push({ rowNumber, column: null, message: "Name is missing." });
+    }
+    (["supplier1", "supplier2"] as const).forEach((supplierField) => {
+      const idField = `${supplierField}Id` as "supplier1Id" | "supplier2Id";
+      const supplierId = values[idField];
+      if (supplierId === undefined) return;
+      const supplier = suppliersById.get(String(supplierId));
+      if (!supplier) {
+        rowErrors.push({
+          rowNumber,
+          column: null,
+          message: `No supplier has the ID "${supplierId}".`,
+        });
+      } else if (values[supplierField] === undefined) {
+        values[supplierField] = supplier.name;
+      }
+    });
+
+    if (rowErrors.length) {
+      errors.push(...rowErrors);
+      return;
+    }
+    rows.push({ rowNumber, name: String(values.name), values });
+  });
+
+  return { rows, errors };
+};
+
+export type ImportMappingPreset = {
+  id: string;
+  name: string;
+  mapping: ImportColumnMapping;
+};
+
+export const fetchImportMappingPresets = async () => {
+  const snap = await getDocs(collection(db, "importMappingPresets"));
+  return snap.docs
+    .map(
+      (docSnap): ImportMappingPreset => ({
+        id: docSnap.id,
+        name: docSnap.data().name ?? "Untitled mapping",
+        mapping: docSnap.data().mapping ?? {},
+      }),
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/** Save a mapping under a name so the same supplier export can be reused. */
+export const saveImportMappingPreset = async (
+  name: string,
+  mapping: ImportColumnMapping,
+  user?: StockMovementUser,
+) => {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error("Give the mapping a name.");
+  }
+  const ref = await addDoc(collection(db, "importMappingPresets"), {
+    name: trimmedName,
+    mapping,
+    createdByUserId: user?.uid ?? null,
+    createdAt: Timestamp.now(),
+  });
+  return { id: ref.id, name: trimmedName, mapping };
+};
+
+export const deleteImportMappingPreset = async (presetId: string) =>
+  deleteDoc(doc(db, "importMappingPresets", presetId));
+
+/**
+ * Apply a saved preset to a file's headers. Columns the preset does not know
+ * about keep whatever was guessed for them.
+ */
+export const applyImportMappingPreset = (
+  headers: string[],
+  preset: ImportMappingPreset,
+): ImportColumnMapping => {
+  const guessed = guessColumnMapping(headers);
+  const presetFields = new Set(
+    headers.map((header) => preset.mapping[header]).filter(Boolean),
+  );
+  return Object.fromEntries(
+    headers.map((header) => {
+      if (header in preset.mapping) return [header, preset.mapping[header]];
+      const field = guessed[header];
+      return [header, field && !presetFields.has(field) ? field : ""];
+    }),
+  );
+};
+
+const normalizeKey = (value: unknown) =>
+  String(value ?? "").trim().toLowerCase();
+
+/** The code a row is matched on; rows without a short code use the name. */
+export const getImportRowKey = (row: ImportRow) =>
+  String(row.values.shortCode ?? row.name);
+
+const getStoredValue = (data: any, field: ImportField) => {
+  if (field === "itemType") {
+    return data?.itemType ?? data?.rawCsvItemType ?? null;
+  }
+  if (field === "inventoryQty") return Number(data?.inventoryQty) || 0;
+  if (field === "trackSerialNumber") return Boolean(data?.trackSerialNumber);
+  return data?.[field] ?? null;
+};
+
+/**
+ * Compare parsed rows with the current items without writing anything.
+ * Rows match an existing item on its `shortCode` or `sku`, case-insensitive.
+ */
+export const buildImportDiff = (
+  rows: ImportRow[],
+  items: { id: string; data: any }[],
+): ImportDiff => {
+  const itemsByKey = new Map<string, { id: string; data: any }>();
+  items.forEach((item) => {
+    [item.data?.shortCode, item.data?.sku].forEach((code) => {
+      const key = normalizeKey(code);
+      if (key && !itemsByKey.has(key)) itemsByKey.set(key, item);
+    });
+  });
+
+  const diff: ImportDiff = {
+    created: [],
+    changed: [],
+    unchanged: [],
+    missing: [],
+    duplicateKeys: [],
+  };
+  const seenKeys = new Set<string>();
+  const matchedItemIds = new Set<string>();
+
+  rows.forEach((row) => {
+    const key = getImportRowKey(row);
+    const normalized = normalizeKey(key);
+    if (seenKeys.has(normalized)) {
+      if (!diff.duplicateKeys.includes(key)) diff.duplicateKeys.push(key);
+      return;
+    }
+    seenKeys.add(normalized);
+
+    const item = itemsByKey.get(normalized);
+    if (!item) {
+      diff.created.push({ key, row });
+      return;
+    }
+    matchedItemIds.add(item.id);
+    const changes: ImportFieldChange[] = [];
+    Object.entries(row.values).forEach(([field, after]) => {
+      const before = getStoredValue(item.data, field as ImportField);
+      if (before !== after) {
+        changes.push({ field: field as ImportField, before, after: after! });
+      }
+    });
+    const itemName = item.data?.name ?? row.name;
+    if (changes.length) {
+      diff.changed.push({ key, itemId: item.id, itemName, row, changes });
+    } else {
+      diff.unchanged.push({ key, itemId: item.id, itemName });
+    }
+  });
+
+  items.forEach((item) => {
+    if (matchedItemIds.has(item.id)) return;
+    diff.missing.push({
+      key: item.data?.shortCode ?? item.data?.sku ?? "",
+      itemId: item.id,
+      itemName: item.data?.name ?? "",
+    });
+  });
+
+  return diff;
+};
+
+export const loadImportDiff = async (rows: ImportRow[]) => {
+  const snap = await getDocs(collection(db, "items"));
+  return buildImportDiff(
+    rows,
+    snap.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() })),
+  );
+};
+
+// A deleted item can post a ledger entry per bucket and location on top of
+// its own writes, so chunks stay well under the 500-write transaction limit.
+const ENTRIES_PER_BATCH = 50;
+
+type ImportEntryContext = {
+  tx: Transaction;
+  movements: StockMovementInput[];
+  /** Item documents read in this chunk's transaction; null when gone. */
+  current: Map<string, any | null>;
+  deletes: DocumentReference[];
+};
+
+type ImportEntry = {
+  /** Item whose current document the entry needs. */
+  readItemId?: string;
+  apply: (context: ImportEntryContext) => void;
+};
+
+/**
+ * Movements that take everything an item holds out of the IMS, so deleting
+ * it leaves the ledger balanced. Located inventory leaves its location.
+ */
+const buildRemovalMovements = (
+  itemId: string,
+  data: any,
+  note: string,
+): StockMovementInput[] => {
+  const itemName = data?.name ?? null;
+  const movements: StockMovementInput[] = [];
+  const locationQuantities = getItemLocationQuantities(data);
+  Object.entries(locationQuantities).forEach(([locationId, qty]) => {
+    movements.push({
+      itemId,
+      itemName,
+      fromBucket: qty > 0 ? "inventory" : null,
+      toBucket: qty > 0 ? null : "inventory",
+      fromLocationId: qty > 0 ? locationId : null,
+      toLocationId: qty > 0 ? null : locationId,
+      qty: Math.abs(qty),
+      note,
+    });
+  });
+  STOCK_BUCKETS.forEach((bucket) => {
+    const held =
+      bucket === "inventory"
+        ? getUnassignedQty(data)
+        : Number(data?.[STOCK_BUCKET_FIELDS[bucket]]) || 0;
+    if (!held) return;
+    movements.push({
+      itemId,
+      itemName,
+      fromBucket: held > 0 ? bucket : null,
+      toBucket: held > 0 ? null : bucket,
+      qty: Math.abs(held),
+      note,
+    });
+  });
+  return movements;
+};
+
+/**
+ * Write the selected parts of a diff. New items and field updates are
+ * written in chunked transactions. Inventory
+ * quantities go through the stock ledger as adjustments against the item's
+ * current quantity, read in the same transaction, rather than the preview's.
+ * Items are only deleted when their ids are passed in `deleteItemIds`, and
+ * whatever stock they held is posted out of the ledger first.
+ */
+export const applyImportDiff = async ({
+  diff,
+  selection,
+  fileName,
+  user,
+}: {
+  diff: ImportDiff;
+  selection: ImportSelection;
+  fileName?: string | null;
+  user?: StockMovementUser;
+}) => {
+  const now = Timestamp.now();
+  const runRef = doc(collection(db, "inventoryImports"));
+  const source = {
+    type: "import" as const,
+    id: runRef.id,
+    label: fileName ? `CSV import (${fileName})` : "CSV import",
+  };
+  const createKeys = new Set(selection.createKeys);
+  const deleteIds = new Set(selection.deleteItemIds);
+  const entries: ImportEntry[] = [];
+
+  diff.created
+    .filter((entry) => createKeys.has(entry.key))
+    .forEach(({ row }) => {
+      entries.push({
+        apply: ({ tx, movements }) => {
+          const itemRef = doc(collection(db, "items"));
+          const { inventoryQty, ...values } = row.values;
+          const code = getImportRowKey(row);
+          const pricePerUnit = Number(values.pricePerUnit) || 0;
+          const quantity = Number(inventoryQty) || 0;
+          const totalCost = Number(values.totalCost) || 0;
+          tx.set(itemRef, {
+            description: null,
+            supplier1: null,
+            supplier2: null,
+            unitOfMeasure: "ea",
+            status: "active",
+            standardCostCurrency: "GBP",
+            ...values,
+            sku: code,
+            shortCode: code,
+            shortName: row.name,
+            itemType: values.itemType || "component",
+            rawCsvItemType: values.itemType ?? "",
+            pricePerUnit,
+            standardCost: values.standardCost ?? pricePerUnit,
+            quantity,
+            inventoryQty: 0,
+            totalCost: totalCost > 0 ? totalCost : pricePerUnit * quantity,
+            createdByUserId: user?.uid ?? "system",
+            createdAt: now,
+            updatedAt: now,
+          });
+          if (quantity) {
+            movements.push({
+              itemId: itemRef.id,
+              itemName: row.name,
+              fromBucket: quantity > 0 ? null : "inventory",
+              toBucket: quantity > 0 ? "inventory" : null,
+              qty: Math.abs(quantity),
+              note: "Opening stock from import",
+            });
+          }
+        },
+      });
+    });
+
+  diff.changed.forEach(({ itemId, itemName, changes }) => {
+    const fields = new Set(selection.fieldsByItemId[itemId] ?? []);
+    const selected = changes.filter((change) => fields.has(change.field));
+    if (!selected.length) return;
+    entries.push({
+      readItemId: itemId,
+      apply: ({ tx, movements, current }) => {
+        const data = current.get(itemId);
+        // Deleted since the preview; there is nothing left to update.
+        if (!data) return;
+        const updates: Record<string, unknown> = { updatedAt: now };
+        selected.forEach((change) => {
+          if (change.field === "inventoryQty") {
+            const delta =
+              Number(change.after) - (Number(data.inventoryQty) || 0);
+            if (delta) {
+              movements.push({
+                itemId,
+                itemName,
+                fromBucket: delta > 0 ? null : "inventory",
+                toBucket: delta > 0 ? "inventory" : null,
+                qty: Math.abs(delta),
+                note: `Imported quantity ${change.after}`,
+              });
+            }
+            updates.quantity = change.after;
+            return;
+          }
+          updates[change.field] = change.after;
+          if (change.field === "itemType") {
+            updates.rawCsvItemType = change.after;
+          }
+        });
+        tx.update(doc(db, "items", itemId), updates);
+      },
+    });
+  });
+
+  diff.missing
+    .filter((entry) => deleteIds.has(entry.itemId))
+    .forEach(({ itemId }) => {
+      entries.push({
+        readItemId: itemId,
+        apply: ({ movements, current, deletes }) => {
+          const data = current.get(itemId);
+          if (!data) return;
+          movements.push(
+            ...buildRemovalMovements(itemId, data, "Item deleted by import"),
+          );
+          deletes.push(doc(db, "items", itemId));
+        },
+      });
+    });
+
+  for (let i = 0; i < entries.length; i += ENTRIES_PER_BATCH) {
+    const chunk = entries.slice(i, i + ENTRIES_PER_BATCH);
+    await runTransaction(db, async (tx) => {
+      const readIds = Array.from(
+        new Set(
+          chunk
+            .map((entry) => entry.readItemId)
+            .filter((itemId): itemId is string => Boolean(itemId)),
+        ),
+      );
+      const snaps = await Promise.all(
+        readIds.map((itemId) => tx.get(doc(db, "items", itemId))),
+      );
+      const context: ImportEntryContext = {
+        tx,
+        movements: [],
+        current: new Map(
+          snaps.map((snap) => [snap.id, snap.exists() ? snap.data() : null]),
+        ),
+        deletes: [],
+      };
+      chunk.forEach((entry) => entry.apply(context));
+      recordStockMovements(tx, context.movements, { source, user, at: now });
+      // After the movements, whose bucket updates must land before a delete.
+      context.deletes.forEach((ref) => tx.delete(ref));
+    });
+  }
+
+  const summary = {
+    created: diff.created.filter((entry) => createKeys.has(entry.key)).length,
+    updated: diff.changed.filter(
+      ({ itemId }) => (selection.fieldsByItemId[itemId] ?? []).length > 0,
+    ).length,
+    deleted: diff.missing.filter((entry) => deleteIds.has(entry.itemId))
+      .length,
+  };
+  const summaryBatch = writeBatch(db);
+  summaryBatch.set(runRef, {
+    fileName: fileName ?? null,
+    ...summary,
+    userId: user?.uid ?? null,
+    userEmail: user?.email ?? null,
+    createdAt: now,
+  });
+  await summaryBatch.commit();
+
+  return summary;
+};
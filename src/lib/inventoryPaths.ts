@@ -10,7 +10,7 @@ export const normalizeItemType = (value?: string | null) => {
   return value.toString().trim().toLowerCase().replace(/[\s_-]+/g, " ");
 };
 
-const deriveDetailType = (
+export const deriveDetailType = (
   itemType?: string | null,
   fallback?: string | null,
 ): InventoryDetailType => {
@@ -0,0 +1,316 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  Timestamp,
+  where,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type { ProjectStatus } from "@/lib/projectPipeline";
+import type {
+  StockMovementUser,
+  StockMovementWriter,
+} from "@/lib/stockMovements";
+
+export type ItemUnitStatus =
+  | "in_stock"
+  | "reserved"
+  | "wip"
+  | "shipped"
+  | "returned"
+  | "scrapped";
+
+export const ITEM_UNIT_STATUSES: ItemUnitStatus[] = [
+  "in_stock",
+  "reserved",
+  "wip",
+  "shipped",
+  "returned",
+  "scrapped",
+];
+
+export const ITEM_UNIT_STATUS_LABELS: Record<ItemUnitStatus, string> = {
+  in_stock: "In stock",
+  reserved: "Reserved to project",
+  wip: "In WIP",
+  shipped: "Shipped to customer",
+  returned: "Returned",
+  scrapped: "Scrapped",
+};
+
+/** Units that can be picked for a project line. */
+export const AVAILABLE_UNIT_STATUSES: ItemUnitStatus[] = [
+  "in_stock",
+  "returned",
+];
+
+export type ItemUnit = {
+  id: string;
+  itemId: string;
+  sku: string;
+  unitCode: string;
+  status: ItemUnitStatus;
+  projectId: string | null;
+  projectName: string | null;
+  purchaseId: string | null;
+  receiptId: string | null;
+  locationId: string | null;
+  createdAt: Timestamp | null;
+  updatedAt: Timestamp | null;
+};
+
+export type ItemUnitEvent = {
+  id: string;
+  unitId: string;
+  unitCode: string;
+  itemId: string;
+  fromStatus: ItemUnitStatus | null;
+  toStatus: ItemUnitStatus;
+  projectId: string | null;
+  projectName: string | null;
+  purchaseId: string | null;
+  note: string | null;
+  userEmail: string | null;
+  createdAt: Timestamp | null;
+};
+
+export const mapItemUnit = (id: string, data: any): ItemUnit => ({
+  id,
+  itemId: data?.itemId ?? "",
+  sku: data?.sku ?? "",
+  unitCode: data?.unitCode ?? id,
+  // Units written before statuses were tracked were all sitting in stock.
+  status: ITEM_UNIT_STATUSES.includes(data?.status) ? data.status : "in_stock",
+  projectId: data?.projectId ?? null,
+  projectName: data?.projectName ?? null,
+  purchaseId: data?.purchaseId ?? null,
+  receiptId: data?.receiptId ?? null,
+  locationId: data?.locationId ?? null,
+  createdAt: data?.createdAt ?? null,
+  updatedAt: data?.updatedAt ?? null,
+});
+
+const mapItemUnitEvent = (id: string, data: any): ItemUnitEvent => ({
+  id,
+  unitId: data?.unitId ?? "",
+  unitCode: data?.unitCode ?? "",
+  itemId: data?.itemId ?? "",
+  fromStatus: data?.fromStatus ?? null,
+  toStatus: data?.toStatus ?? "in_stock",
+  projectId: data?.projectId ?? null,
+  projectName: data?.projectName ?? null,
+  purchaseId: data?.purchaseId ?? null,
+  note: data?.note ?? null,
+  userEmail: data?.userEmail ?? null,
+  createdAt: data?.createdAt ?? null,
+});
+
+/** Unit state that follows a project moving into `status`. */
+export const getUnitStatusForProjectStatus = (
+  status: ProjectStatus,
+): ItemUnitStatus => {
+  if (status === "reserved") return "reserved";
+  if (status === "wip") return "wip";
+  if (status === "complete") return "shipped";
+  return "in_stock";
+};
+
+type ItemUnitEventDetails<T> = {
+  fromStatus: ItemUnitStatus | null;
+  toStatus: ItemUnitStatus;
+  projectId?: string | null;
+  projectName?: string | null;
+  purchaseId?: string | null;
+  note?: string | null;
+  user?: StockMovementUser;
+  at: T;
+};
+
+const buildItemUnitEvent = <T>(
+  unit: { id: string; unitCode: string; itemId: string },
+  details: ItemUnitEventDetails<T>,
+) => ({
+  unitId: unit.id,
+  unitCode: unit.unitCode,
+  itemId: unit.itemId,
+  fromStatus: details.fromStatus,
+  toStatus: details.toStatus,
+  projectId: details.projectId ?? null,
+  projectName: details.projectName ?? null,
+  purchaseId: details.purchaseId ?? null,
+  note: details.note ?? null,
+  userId: details.user?.uid ?? null,
+  userEmail: details.user?.email ?? null,
+  createdAt: details.at,
+});
+
+/**
+ * Append an entry to `itemUnitEvents`. The unit document itself is written
+ * by the caller so creation and status changes can share this.
+ */
+export const recordItemUnitEvent = (
+  writer: StockMovementWriter,
+  unit: { id: string; unitCode: string; itemId: string },
+  details: ItemUnitEventDetails<Timestamp>,
+) => {
+  writer.set(
+    doc(collection(db, "itemUnitEvents")),
+    buildItemUnitEvent(unit, details),
+  );
+};
+
+/**
+ * The unit updates and `itemUnitEvents` entries that move units to the state
+ * matching a project's new status. Units leave the project again when it is
+ * cancelled; on a cancellation `scrappedQtyByItem` units of each item are
+ * scrapped instead of returning to stock. No Firestore SDK is involved, so
+ * the caller writes the changes with whichever one it runs on.
+ */
+export const buildProjectUnitChanges = <R, T>(
+  units: { ref: R; unit: ItemUnit }[],
+  {
+    projectId,
+    projectName,
+    status,
+    scrappedQtyByItem,
+    user,
+    at,
+  }: {
+    projectId: string;
+    projectName: string;
+    status: ProjectStatus;
+    scrappedQtyByItem?: Map<string, number>;
+    user?: StockMovementUser;
+    at: T;
+  },
+) => {
+  const keepsProject = status !== "cancelled";
+  const scrapRemaining = new Map(keepsProject ? [] : scrappedQtyByItem ?? []);
+  const changes: {
+    ref: R;
+    update: Record<string, unknown>;
+    event: Record<string, unknown>;
+  }[] = [];
+  [...units]
+    .sort((a, b) => a.unit.unitCode.localeCompare(b.unit.unitCode))
+    .forEach(({ ref, unit }) => {
+      let toStatus = getUnitStatusForProjectStatus(status);
+      const scrapLeft = scrapRemaining.get(unit.itemId) ?? 0;
+      if (scrapLeft > 0) {
+        toStatus = "scrapped";
+        scrapRemaining.set(unit.itemId, scrapLeft - 1);
+      }
+      if (unit.status === toStatus && unit.projectId === projectId) return;
+      changes.push({
+        ref,
+        update: {
+          status: toStatus,
+          projectId: keepsProject ? projectId : null,
+          projectName: keepsProject ? projectName : null,
+          updatedAt: at,
+        },
+        event: buildItemUnitEvent(unit, {
+          fromStatus: unit.status,
+          toStatus,
+          projectId,
+          projectName,
+          note: keepsProject
+            ? null
+            : toStatus === "scrapped"
+              ? "Scrapped on project cancellation"
+              : "Project cancelled",
+          user,
+          at,
+        }),
+      });
+    });
+  return changes;
+};
+
+export const fetchItemUnits = async (itemId?: string | null) => {
+  const ref = collection(db, "itemUnits");
+  const snap = await getDocs(
+    itemId ? query(ref, where("itemId", "==", itemId)) : ref,
+  );
+  return snap.docs
+    .map((docSnap) => mapItemUnit(docSnap.id, docSnap.data()))
+    .sort((a, b) => a.unitCode.localeCompare(b.unitCode));
+};
+
+export const fetchProjectUnits = async (projectId: string) => {
+  const snap = await getDocs(
+    query(collection(db, "itemUnits"), where("projectId", "==", projectId)),
+  );
+  return snap.docs
+    .map((docSnap) => mapItemUnit(docSnap.id, docSnap.data()))
+    .sort((a, b) => a.unitCode.localeCompare(b.unitCode));
+};
+
+export const fetchItemUnit = async (unitId: string) => {
+  const snap = await getDoc(doc(db, "itemUnits", unitId));
+  return snap.exists() ? mapItemUnit(snap.id, snap.data()) : null;
+};
+
+export const fetchItemUnitEvents = async (unitId: string) => {
+  const snap = await getDocs(
+    query(collection(db, "itemUnitEvents"), where("unitId", "==", unitId)),
+  );
+  return snap.docs
+    .map((docSnap) => mapItemUnitEvent(docSnap.id, docSnap.data()))
+    .sort(
+      (a, b) =>
+        (a.createdAt?.toMillis() ?? 0) - (b.createdAt?.toMillis() ?? 0),
+    );
+};
+
+/**
+ * Record a status change made outside a project move, such as a customer
+ * return or a unit written off. Only the unit registry changes; stock
+ * quantities are adjusted separately.
+ */
+export const updateItemUnitStatus = async ({
+  unitId,
+  status,
+  note,
+  user,
+}: {
+  unitId: string;
+  status: ItemUnitStatus;
+  note?: string | null;
+  user?: StockMovementUser;
+}) =>
+  runTransaction(db, async (tx) => {
+    const ref = doc(db, "itemUnits", unitId);
+    const snap = await tx.get(ref);
+    if (!snap.exists()) {
+      throw new Error("Unit not found.");
+    }
+    const unit = mapItemUnit(snap.id, snap.data());
+    if (unit.status === status) return unit;
+    const now = Timestamp.now();
+    const leavesProject = AVAILABLE_UNIT_STATUSES.includes(status);
+    tx.update(ref, {
+      status,
+      ...(leavesProject ? { projectId: null, projectName: null } : {}),
+      updatedAt: now,
+    });
+    recordItemUnitEvent(tx, unit, {
+      fromStatus: unit.status,
+      toStatus: status,
+      projectId: unit.projectId,
+      projectName: unit.projectName,
+      note: note || null,
+      user,
+      at: now,
+    });
+    return {
+      ...unit,
+      status,
+      projectId: leavesProject ? null : unit.projectId,
+      projectName: leavesProject ? null : unit.projectName,
+      updatedAt: now,
+    };
+  });
@@ -0,0 +1,208 @@
+import {
+  addDoc,
+  collection,
+  doc,
+  getDocs,
+  runTransaction,
+  Timestamp,
+  updateDoc,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import {
+  recordStockMovements,
+  type StockMovementUser,
+} from "@/lib/stockMovements";
+
+export type LocationType = "site" | "store" | "bin" | "van";
+
+export const LOCATION_TYPES: LocationType[] = ["site", "store", "bin", "van"];
+
+export const LOCATION_TYPE_LABELS: Record<LocationType, string> = {
+  site: "Site",
+  store: "Store",
+  bin: "Bin",
+  van: "Van",
+};
+
+export type StockLocation = {
+  id: string;
+  name: string;
+  code: string;
+  type: LocationType;
+  parentId: string | null;
+  active: boolean;
+  notes: string;
+};
+
+export type StockLocationInput = Omit<StockLocation, "id">;
+
+export const mapStockLocation = (id: string, data: any): StockLocation => ({
+  id,
+  name: data?.name ?? "Unnamed location",
+  code: data?.code ?? "",
+  type: LOCATION_TYPES.includes(data?.type) ? data.type : "store",
+  parentId: data?.parentId ?? null,
+  active: data?.active !== false,
+  notes: data?.notes ?? "",
+});
+
+export const fetchLocations = async () => {
+  const snap = await getDocs(collection(db, "locations"));
+  return snap.docs
+    .map((docSnap) => mapStockLocation(docSnap.id, docSnap.data()))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/** "Site / Store / Bin" path for a location, walking up its parents. */
+export const getLocationPath = (
+  locationId: string | null | undefined,
+  locationsById: Map<string, StockLocation>,
+) => {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let current = locationId ? locationsById.get(locationId) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(current.name);
+    current = current.parentId
+      ? locationsById.get(current.parentId)
+      : undefined;
+  }
+  return names.join(" / ");
+};
+
+/**
+ * Create or update a location. A location cannot be moved under itself or
+ * any location inside it, so the parent chain never loops.
+ */
+export const saveLocation = async (
+  locationId: string | null,
+  input: StockLocationInput,
+) => {
+  const name = input.name.trim();
+  if (!name) {
+    throw new Error("Location name is required.");
+  }
+  if (locationId && input.parentId === locationId) {
+    throw new Error("A location cannot sit inside itself.");
+  }
+  if (locationId && input.parentId) {
+    const locationsById = new Map(
+      (await fetchLocations()).map((location) => [location.id, location]),
+    );
+    const seen = new Set<string>();
+    let current = locationsById.get(input.parentId);
+    while (current && !seen.has(current.id)) {
+      if (current.parentId === locationId) {
+        throw new Error(
+          "A location cannot sit inside one of its own sub-locations.",
+        );
+      }
+      seen.add(current.id);
+      current = current.parentId
+        ? locationsById.get(current.parentId)
+        : undefined;
+    }
+  }
+  const payload = {
+    ...input,
+    name,
+    code: input.code.trim(),
+    notes: input.notes.trim(),
+    updatedAt: Timestamp.now(),
+  };
+  if (locationId) {
+    await updateDoc(doc(db, "locations", locationId), payload);
+    return locationId;
+  }
+  const ref = await addDoc(collection(db, "locations"), {
+    ...payload,
+    createdAt: payload.updatedAt,
+  });
+  return ref.id;
+};
+
+/** Per-location inventory held on an item document. */
+export const getItemLocationQuantities = (data: any) => {
+  const quantities: Record<string, number> = {};
+  Object.entries(data?.locationQty ?? {}).forEach(([locationId, value]) => {
+    const qty = Number(value) || 0;
+    if (qty) quantities[locationId] = qty;
+  });
+  return quantities;
+};
+
+/**
+ * Inventory not yet put away at any location — stock received before
+ * locations existed, or moved by something that did not name one.
+ */
+export const getUnassignedQty = (data: any) => {
+  const located = Object.values(getItemLocationQuantities(data)).reduce(
+    (sum, qty) => sum + qty,
+    0,
+  );
+  return (Number(data?.inventoryQty) || 0) - located;
+};
+
+/**
+ * Move inventory between two locations. A `null` location is the item's
+ * unassigned stock, so existing inventory can be put away into bins.
+ */
+export const transferStock = async ({
+  itemId,
+  fromLocationId,
+  toLocationId,
+  qty,
+  note,
+  label,
+  user,
+}: {
+  itemId: string;
+  fromLocationId: string | null;
+  toLocationId: string | null;
+  qty: number;
+  note?: string | null;
+  label?: string | null;
+  user?: StockMovementUser;
+}) => {
+  if (!Number.isFinite(qty) || qty <= 0) {
+    throw new Error("Transfer quantity must be greater than zero.");
+  }
+  if (fromLocationId === toLocationId) {
+    throw new Error("Choose two different locations.");
+  }
+  return runTransaction(db, async (tx) => {
+    const itemRef = doc(db, "items", itemId);
+    const itemSnap = await tx.get(itemRef);
+    if (!itemSnap.exists()) {
+      throw new Error("Item not found.");
+    }
+    const data = itemSnap.data() as any;
+    const available = fromLocationId
+      ? (getItemLocationQuantities(data)[fromLocationId] ?? 0)
+      : getUnassignedQty(data);
+    if (qty > available) {
+      throw new Error(`Only ${Math.max(available, 0)} available to transfer.`);
+    }
+    recordStockMovements(
+      tx,
+      [
+        {
+          itemId,
+          itemName: data.name ?? null,
+          fromBucket: "inventory",
+          toBucket: "inventory",
+          fromLocationId,
+          toLocationId,
+          qty,
+          note: note || null,
+        },
+      ],
+      {
+        source: { type: "transfer", id: null, label: label ?? null },
+        user,
+        at: Timestamp.now(),
+      },
+    );
+  });
+};
@@ -3,17 +3,15 @@ import {
   collection,
   doc,
   getDoc,
-  limit,
-  query,
   Timestamp,
-  updateDoc,
-  where,
-  getDocs,
-  increment,
   writeBatch,
 } from "firebase/firestore";
 import { db } from "@/lib/firebase";
 import { normalizeItemType } from "@/lib/inventoryPaths";
+import {
+  recordStockMovements,
+  type StockMovementUser,
+} from "@/lib/stockMovements";
 
 const parseNumber = (value: any): number | null => {
   if (value == null) return null;
@@ -21,17 +19,21 @@ const parseNumber = (value: any): number | null => {
   return Number.isFinite(num) ? num : null;
 };
 
-export const createOrUpdateProductTracking = async (
+/**
+ * Build the tracking record for a completed project line, or `null` when the
+ * item has no useful life / replacement frequency configured. `replaceBy` is
+ * a `Date`, which either Firestore SDK stores as a timestamp.
+ */
+export const buildProductTrackingPayload = <T extends { toDate: () => Date }>(
   project: { id: string; name: string },
+  itemData: any,
   itemId: string,
   itemName: string,
   quantity: number,
-  completedAt: Timestamp,
+  completedAt: T,
   itemCategory?: string,
 ) => {
-  const itemSnap = await getDoc(doc(db, "items", itemId));
-  if (!itemSnap.exists()) return;
-  const data = itemSnap.data() as any;
+  const data = itemData ?? {};
   const normalizedType = normalizeItemType(
     itemCategory ?? data.itemType ?? data.rawCsvItemType ?? data.category ?? "",
   );
@@ -47,11 +49,11 @@ export const createOrUpdateProductTracking = async (
 
   if (!isSensorExtra) {
     if (!usefulLifeMonths || usefulLifeMonths <= 0) {
-      return;
+      return null;
     }
   } else {
     if (!replacementFrequencyPerYear || replacementFrequencyPerYear <= 0) {
-      return;
+      return null;
     }
   }
 
@@ -67,17 +69,7 @@ export const createOrUpdateProductTracking = async (
     replaceDate.setMonth(replaceDate.getMonth() + usefulLifeMonths);
   }
 
-  const trackingRef = collection(db, "productTracking");
-  const existing = await getDocs(
-    query(
-      trackingRef,
-      where("projectId", "==", project.id),
-      where("itemId", "==", itemId),
-      limit(1),
-    ),
-  );
-
-  const payload = {
+  return {
     projectId: project.id,
     projectName: project.name,
     itemId,
@@ -90,26 +82,17 @@ export const createOrUpdateProductTracking = async (
       : null,
     trackingType: isSensorExtra ? "sensorExtra" : "usefulLife",
     completedAt,
-    replaceBy: Timestamp.fromDate(replaceDate),
+    replaceBy: replaceDate,
     updatedAt: completedAt,
     replenished: false,
     lastReplenishedAt: null,
   };
-
-  if (existing.empty) {
-    await addDoc(trackingRef, {
-      ...payload,
-      createdAt: completedAt,
-      notes: [],
-    });
-  } else {
-    await updateDoc(existing.docs[0].ref, payload);
-  }
 };
 
 export const replenishTrackedProduct = async (
   recordId: string,
   nextReplaceDate: Timestamp,
+  user?: StockMovementUser,
 ) => {
   const recordRef = doc(db, "productTracking", recordId);
   const recordSnap = await getDoc(recordRef);
@@ -140,11 +123,27 @@ export const replenishTrackedProduct = async (
     lastReplenishedAt: now,
   });
 
-  const itemRef = doc(db, "items", record.itemId);
-  batch.update(itemRef, {
-    inventoryQty: increment(record.quantity || 0),
-    updatedAt: now,
-  });
+  recordStockMovements(
+    batch,
+    [
+      {
+        itemId: record.itemId,
+        itemName: record.itemName ?? null,
+        fromBucket: null,
+        toBucket: "inventory",
+        qty: record.quantity || 0,
+      },
+    ],
+    {
+      source: {
+        type: "replenishment",
+        id: recordId,
+        label: record.projectName ?? null,
+      },
+      user,
+      at: now,
+    },
+  );
 
   await batch.commit();
 
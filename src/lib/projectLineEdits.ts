@@ -0,0 +1,218 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  runTransaction,
+  Timestamp,
+  where,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { mapItemUnit, recordItemUnitEvent } from "@/lib/itemUnits";
+import type { ProjectStatus } from "@/lib/projectPipeline";
+import {
+  getBucketForProjectStatus,
+  recordStockMovements,
+  type StockMovementInput,
+  type StockMovementUser,
+} from "@/lib/stockMovements";
+import {
+  flattenProjectItems,
+  parseProjectItems,
+  PROJECT_ITEM_CATEGORIES,
+  serializeProjectLine,
+  type ProjectItemLine,
+  type ProjectItemsByType,
+} from "@/app/projects/_projectItemUtils";
+
+export type ProjectLineDelta = {
+  itemId: string;
+  itemName: string;
+  previousQty: number;
+  nextQty: number;
+  delta: number;
+};
+
+const totalsByItem = (lines: ProjectItemLine[]) => {
+  const totals = new Map<string, { itemName: string; qty: number }>();
+  const add = (
+    itemId: string,
+    itemName: string | null | undefined,
+    qty: number,
+  ) => {
+    if (!itemId || !Number.isFinite(qty) || qty <= 0) return;
+    const existing = totals.get(itemId);
+    totals.set(itemId, {
+      itemName: existing?.itemName || itemName || "",
+      qty: (existing?.qty ?? 0) + qty,
+    });
+  };
+  lines.forEach((line) => {
+    add(line.itemId, line.itemName, line.qty);
+    if (line.mustHaveItemId && line.mustHaveQty) {
+      add(line.mustHaveItemId, line.mustHaveItemName, line.mustHaveQty);
+    }
+  });
+  return totals;
+};
+
+/**
+ * Per-item quantity change between two versions of a project's lines,
+ * must-have items included. Items whose total is unchanged are omitted.
+ */
+export const computeProjectLineDeltas = (
+  previousLines: ProjectItemLine[],
+  nextLines: ProjectItemLine[],
+): ProjectLineDelta[] => {
+  const previous = totalsByItem(previousLines);
+  const next = totalsByItem(nextLines);
+  const itemIds = new Set([...previous.keys(), ...next.keys()]);
+  return Array.from(itemIds)
+    .map((itemId) => {
+      const previousQty = previous.get(itemId)?.qty ?? 0;
+      const nextQty = next.get(itemId)?.qty ?? 0;
+      return {
+        itemId,
+        itemName:
+          next.get(itemId)?.itemName || previous.get(itemId)?.itemName || "",
+        previousQty,
+        nextQty,
+        delta: nextQty - previousQty,
+      };
+    })
+    .filter((row) => row.delta !== 0)
+    .sort((a, b) => a.itemName.localeCompare(b.itemName));
+};
+
+export const serializeProjectItems = (itemsByType: ProjectItemsByType) => ({
+  items: flattenProjectItems(itemsByType).map((line) =>
+    serializeProjectLine(line),
+  ),
+  itemsByType: PROJECT_ITEM_CATEGORIES.reduce(
+    (acc, category) => {
+      acc[category] = itemsByType[category].map((line) =>
+        serializeProjectLine(line),
+      );
+      return acc;
+    },
+    {} as Record<string, ReturnType<typeof serializeProjectLine>[]>,
+  ),
+});
+
+/**
+ * Replace a project's lines and rebalance stock in one transaction. Extra
+ * quantity moves from inventory into the bucket the project currently sits
+ * in; removed quantity goes back to inventory, at the project's location
+ * when it has one. Serialized units assigned beyond an item's new quantity
+ * are released back to stock in the same write, so the project's later moves
+ * do not trip over them. The project must not have changed since
+ * `expectedUpdatedAt` so two editors cannot both apply deltas against the
+ * same starting lines.
+ */
+export const saveProjectLineEdits = async ({
+  projectId,
+  itemsByType,
+  expectedUpdatedAt,
+  user,
+}: {
+  projectId: string;
+  itemsByType: ProjectItemsByType;
+  expectedUpdatedAt?: Timestamp | null;
+  user?: StockMovementUser;
+}) => {
+  // Transactions cannot run queries, so the assigned units are looked up
+  // beforehand and re-read inside the transaction.
+  const unitSnap = await getDocs(
+    query(collection(db, "itemUnits"), where("projectId", "==", projectId)),
+  );
+
+  return runTransaction(db, async (tx) => {
+    const projectRef = doc(db, "projects", projectId);
+    const snap = await tx.get(projectRef);
+    if (!snap.exists()) {
+      throw new Error("Project not found.");
+    }
+    const data = snap.data() as any;
+    const unitSnaps = await Promise.all(
+      unitSnap.docs.map((docSnap) => tx.get(docSnap.ref)),
+    );
+    const storedUpdatedAt: Timestamp | null = data.updatedAt ?? null;
+    if (
+      expectedUpdatedAt &&
+      storedUpdatedAt &&
+      !storedUpdatedAt.isEqual(expectedUpdatedAt)
+    ) {
+      throw new Error(
+        "This project was changed by someone else. Reload it and try again.",
+      );
+    }
+
+    const status = (data.status as ProjectStatus) ?? "reserved";
+    const bucket = getBucketForProjectStatus(status);
+    if (!bucket) {
+      throw new Error("Cancelled projects cannot be edited.");
+    }
+    const deltas = computeProjectLineDeltas(
+      flattenProjectItems(parseProjectItems(data)),
+      flattenProjectItems(itemsByType),
+    );
+    const movements: StockMovementInput[] = deltas.map((row) => ({
+      itemId: row.itemId,
+      itemName: row.itemName,
+      fromBucket: row.delta > 0 ? "inventory" : bucket,
+      toBucket: row.delta > 0 ? bucket : "inventory",
+      fromLocationId: data.locationId ?? null,
+      toLocationId: data.locationId ?? null,
+      qty: Math.abs(row.delta),
+      note: `Project lines edited (${row.previousQty} → ${row.nextQty})`,
+    }));
+
+    const nextTotals = totalsByItem(flattenProjectItems(itemsByType));
+    const keptPerItem = new Map<string, number>();
+    const releasedUnits = unitSnaps
+      .filter((unitDoc) => unitDoc.exists())
+      .map((unitDoc) => ({
+        ref: unitDoc.ref,
+        unit: mapItemUnit(unitDoc.id, unitDoc.data()),
+      }))
+      .filter(({ unit }) => unit.projectId === projectId)
+      .sort((a, b) => a.unit.unitCode.localeCompare(b.unit.unitCode))
+      .filter(({ unit }) => {
+        const kept = keptPerItem.get(unit.itemId) ?? 0;
+        if (kept < (nextTotals.get(unit.itemId)?.qty ?? 0)) {
+          keptPerItem.set(unit.itemId, kept + 1);
+          return false;
+        }
+        return true;
+      });
+
+    const now = Timestamp.now();
+    tx.update(projectRef, {
+      ...serializeProjectItems(itemsByType),
+      updatedAt: now,
+    });
+    recordStockMovements(tx, movements, {
+      source: { type: "project", id: projectId, label: data.name ?? null },
+      user,
+      at: now,
+    });
+    releasedUnits.forEach(({ ref, unit }) => {
+      tx.update(ref, {
+        status: "in_stock",
+        projectId: null,
+        projectName: null,
+        updatedAt: now,
+      });
+      recordItemUnitEvent(tx, unit, {
+        fromStatus: unit.status,
+        toStatus: "in_stock",
+        projectId,
+        projectName: data.name ?? null,
+        note: "Released when the project lines were edited",
+        user,
+        at: now,
+      });
+    });
+    return deltas;
+  });
+};
@@ -1,10 +1,148 @@
-export type ProjectStatus = "reserved" | "wip" | "complete";
+import { doc, getDoc, setDoc, Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type { StockMovementUser } from "@/lib/stockMovements";
 
-export const HUBSPOT_STAGE_NEW_ID =
-  "acc364b5-d367-49f4-a957-cc4fbf7e8e4b";
-export const HUBSPOT_STAGE_COMPLETE_ID = "3476494580";
-const HUBSPOT_STAGE_WIP_ID =
+export type ProjectStatus = "reserved" | "wip" | "complete" | "cancelled";
+
+export const PROJECT_STATUSES: ProjectStatus[] = [
+  "reserved",
+  "wip",
+  "complete",
+  "cancelled",
+];
+
+/** Statuses a project can be cancelled from. */
+export const CANCELLABLE_STATUSES: ProjectStatus[] = ["reserved", "wip"];
+
+/** One HubSpot pipeline stage and the IMS status it stands for. */
+export type PipelineStageMapping = {
+  stageId: string;
+  label: string;
+  /** Null when moves into this stage should be ignored. */
+  status: ProjectStatus | null;
+};
+
+export type ProjectPipelineConfig = {
+  pipelineId: string | null;
+  stages: PipelineStageMapping[];
+  /**
+   * Status for stages that are not listed; null ignores them. Webhook moves
+   * ignore unlisted stages whatever this is set to.
+   */
+  unmappedStatus: ProjectStatus | null;
+  /** Stage pushed to HubSpot when a project moves into each status. */
+  pushStageIds: Record<ProjectStatus, string | null>;
+};
+
+export const PIPELINE_CONFIG_REF = ["settings", "projectPipeline"] as const;
+
+// Stage IDs used before the mapping was stored. They seed the configuration
+// until an admin saves one, so existing deployments keep their behaviour.
+const LEGACY_STAGE_NEW_ID = "acc364b5-d367-49f4-a957-cc4fbf7e8e4b";
+const LEGACY_STAGE_COMPLETE_ID = "3476494580";
+const LEGACY_STAGE_WIP_ID =
   process.env.NEXT_PUBLIC_HUBSPOT_STAGE_WIP_ID ?? null;
+const LEGACY_STAGE_CANCELLED_ID =
+  process.env.NEXT_PUBLIC_HUBSPOT_STAGE_CANCELLED_ID ?? null;
+
+export const DEFAULT_PIPELINE_CONFIG: ProjectPipelineConfig = {
+  pipelineId: null,
+  stages: [
+    { stageId: LEGACY_STAGE_NEW_ID, label: "New", status: "reserved" },
+    ...(LEGACY_STAGE_WIP_ID
+      ? [{ stageId: LEGACY_STAGE_WIP_ID, label: "WIP", status: "wip" as const }]
+      : []),
+    { stageId: LEGACY_STAGE_COMPLETE_ID, label: "Complete", status: "complete" },
+    ...(LEGACY_STAGE_CANCELLED_ID
+      ? [
+          {
+            stageId: LEGACY_STAGE_CANCELLED_ID,
+            label: "Cancelled",
+            status: "cancelled" as const,
+          },
+        ]
+      : []),
+  ],
+  unmappedStatus: "wip",
+  pushStageIds: {
+    reserved: LEGACY_STAGE_NEW_ID,
+    wip: LEGACY_STAGE_WIP_ID,
+    complete: LEGACY_STAGE_COMPLETE_ID,
+    cancelled: LEGACY_STAGE_CANCELLED_ID,
+  },
+};
+
+const toProjectStatus = (value: unknown): ProjectStatus | null =>
+  PROJECT_STATUSES.includes(value as ProjectStatus)
+    ? (value as ProjectStatus)
+    : null;
+
+export const mapPipelineConfig = (data: any): ProjectPipelineConfig => ({
+  pipelineId: data?.pipelineId ?? null,
+  stages: Array.isArray(data?.stages)
+    ? data.stages
+        .filter((stage: any) => stage?.stageId)
+        .map((stage: any) => ({
+          stageId: String(stage.stageId),
+          label: stage.label ?? String(stage.stageId),
+          status: toProjectStatus(stage.status),
+        }))
+    : [],
+  unmappedStatus: toProjectStatus(data?.unmappedStatus),
+  pushStageIds: PROJECT_STATUSES.reduce(
+    (acc, status) => {
+      acc[status] = data?.pushStageIds?.[status] ?? null;
+      return acc;
+    },
+    {} as Record<ProjectStatus, string | null>,
+  ),
+});
+
+export const fetchPipelineConfig = async () => {
+  const snap = await getDoc(doc(db, ...PIPELINE_CONFIG_REF));
+  return snap.exists()
+    ? mapPipelineConfig(snap.data())
+    : DEFAULT_PIPELINE_CONFIG;
+};
+
+/**
+ * Store the mapping. Stage IDs must be unique and each push stage must be
+ * one of the stages mapped to that status.
+ */
+export const savePipelineConfig = async (
+  config: ProjectPipelineConfig,
+  user?: StockMovementUser,
+) => {
+  const seen = new Set<string>();
+  config.stages.forEach((stage) => {
+    if (!stage.stageId.trim()) {
+      throw new Error("Every stage needs a HubSpot stage ID.");
+    }
+    if (seen.has(stage.stageId)) {
+      throw new Error(`Stage ${stage.stageId} is listed twice.`);
+    }
+    seen.add(stage.stageId);
+  });
+  PROJECT_STATUSES.forEach((status) => {
+    const stageId = config.pushStageIds[status];
+    if (
+      stageId &&
+      !config.stages.some(
+        (stage) => stage.stageId === stageId && stage.status === status,
+      )
+    ) {
+      throw new Error(
+        `The HubSpot stage for ${describeProjectStatus(status)} must be mapped to that status.`,
+      );
+    }
+  });
+
+  await setDoc(doc(db, ...PIPELINE_CONFIG_REF), {
+    ...config,
+    updatedAt: Timestamp.now(),
+    updatedByEmail: user?.email ?? null,
+  });
+};
 
 export const describeProjectStatus = (status: ProjectStatus) => {
   switch (status) {
@@ -12,30 +150,60 @@ export const describeProjectStatus = (status: ProjectStatus) => {
       return "Reserved";
     case "complete":
       return "Complete";
+    case "cancelled":
+      return "Cancelled";
     default:
       return "WIP";
   }
 };
 
-export const describeHubspotStage = (stageId?: string | null) => {
+export const describeHubspotStage = (
+  stageId: string | null | undefined,
+  config: ProjectPipelineConfig,
+) => {
   if (!stageId) return "Not synced";
-  if (stageId === HUBSPOT_STAGE_NEW_ID) return "New";
-  if (stageId === HUBSPOT_STAGE_COMPLETE_ID) return "Complete";
-  return "WIP";
+  const stage = config.stages.find((entry) => entry.stageId === stageId);
+  if (stage) return stage.label;
+  return config.unmappedStatus
+    ? describeProjectStatus(config.unmappedStatus)
+    : "Unmapped stage";
 };
 
+/** The configured mapping for a stage, if the stage is listed. */
+export const findPipelineStage = (
+  stageId: string | null | undefined,
+  config: ProjectPipelineConfig,
+) =>
+  stageId
+    ? config.stages.find((entry) => entry.stageId === stageId)
+    : undefined;
+
+/** IMS status for a HubSpot stage, or null when the stage is ignored. */
 export const getProjectStatusFromStage = (
-  stageId?: string | null,
-): ProjectStatus => {
-  if (stageId === HUBSPOT_STAGE_NEW_ID) return "reserved";
-  if (stageId === HUBSPOT_STAGE_COMPLETE_ID) return "complete";
-  return "wip";
+  stageId: string | null | undefined,
+  config: ProjectPipelineConfig,
+): ProjectStatus | null => {
+  const stage = findPipelineStage(stageId, config);
+  return stage ? stage.status : config.unmappedStatus;
 };
 
+/** HubSpot stages that map to any of `statuses`, in pipeline order. */
+export const getStageIdsForStatuses = (
+  statuses: ProjectStatus[],
+  config: ProjectPipelineConfig,
+) =>
+  config.stages
+    .filter((stage) => stage.status && statuses.includes(stage.status))
+    .map((stage) => stage.stageId);
+
+/**
+ * HubSpot stage to push for a status: the configured push stage, else the
+ * first stage mapped to the status, else none.
+ */
 export const getHubspotStageIdForStatus = (
   status: ProjectStatus,
-): string | null => {
-  if (status === "reserved") return HUBSPOT_STAGE_NEW_ID;
-  if (status === "complete") return HUBSPOT_STAGE_COMPLETE_ID;
-  return HUBSPOT_STAGE_WIP_ID || null;
-};
+  config: ProjectPipelineConfig,
+): string | null =>
+  config.pushStageIds[status] ??
+  config.stages.find((stage) => stage.status === status)?.stageId ??
+  null;
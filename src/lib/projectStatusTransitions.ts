@@ -0,0 +1,514 @@
+import { Timestamp, type DocumentReference } from "firebase-admin/firestore";
+import { recordAdminStockMovements } from "@/lib/adminStockMovements";
+import { getAdminDb } from "@/lib/firebaseAdmin";
+import { updateHubspotProjectStage } from "@/lib/hubspot";
+import {
+  CANCELLABLE_STATUSES,
+  DEFAULT_PIPELINE_CONFIG,
+  getHubspotStageIdForStatus,
+  mapPipelineConfig,
+  PIPELINE_CONFIG_REF,
+  PROJECT_STATUSES,
+  type ProjectStatus,
+} from "@/lib/projectPipeline";
+import { buildProductTrackingPayload } from "@/lib/productTracking";
+import {
+  AVAILABLE_UNIT_STATUSES,
+  buildProjectUnitChanges,
+  mapItemUnit,
+} from "@/lib/itemUnits";
+import {
+  getBucketForProjectStatus,
+  type StockMovementInput,
+  type StockMovementUser,
+} from "@/lib/stockMovements";
+import { computeProjectLineDeltas } from "@/lib/projectLineEdits";
+import {
+  flattenProjectItems,
+  parseProjectItems,
+} from "@/app/projects/_projectItemUtils";
+
+export { PROJECT_STATUSES };
+
+export type ProjectCancellation = {
+  reason: string;
+  /** Quantity per item id written off instead of returned; WIP only. */
+  scrap?: Record<string, number>;
+};
+
+export type HubspotSyncStatus = "synced" | "skipped" | "failed";
+
+export type ProjectStatusTransitionResult = {
+  projectId: string;
+  fromStatus: ProjectStatus;
+  toStatus: ProjectStatus;
+  /** False when the project was already in the target status. */
+  applied: boolean;
+  /** True when this idempotency key had already been processed. */
+  duplicate: boolean;
+  movementCount: number;
+  hubspotStageId: string | null;
+  hubspotSyncStatus: HubspotSyncStatus;
+  hubspotError: string | null;
+};
+
+export class ProjectTransitionError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ProjectTransitionError";
+    this.status = status;
+  }
+}
+
+const toKeyDocId = (key: string) => key.trim().replace(/\//g, "_");
+
+/** `fetchPipelineConfig` for API routes, read through the admin SDK. */
+export const fetchAdminPipelineConfig = async () => {
+  const snap = await getAdminDb().doc(PIPELINE_CONFIG_REF.join("/")).get();
+  return snap.exists
+    ? mapPipelineConfig(snap.data())
+    : DEFAULT_PIPELINE_CONFIG;
+};
+
+const buildLineMovements = (
+  data: any,
+  fromStatus: ProjectStatus,
+  toStatus: ProjectStatus,
+) => {
+  const fromBucket = getBucketForProjectStatus(fromStatus)!;
+  const toBucket = getBucketForProjectStatus(toStatus)!;
+  const movements: StockMovementInput[] = [];
+
+  flattenProjectItems(parseProjectItems(data)).forEach((line) => {
+    const qty = line.qty || 0;
+    if (!line.itemId || !qty) return;
+
+    movements.push({
+      itemId: line.itemId,
+      itemName: line.itemName,
+      fromBucket,
+      toBucket,
+      qty,
+    });
+
+    if (line.mustHaveItemId && line.mustHaveQty && line.mustHaveQty > 0) {
+      movements.push({
+        itemId: line.mustHaveItemId,
+        itemName: line.mustHaveItemName ?? null,
+        fromBucket,
+        toBucket,
+        qty: line.mustHaveQty,
+      });
+    }
+  });
+
+  return movements;
+};
+
+/**
+ * Movements that empty a cancelled project's bucket: everything goes back to
+ * inventory at the project's location apart from any scrapped WIP, which
+ * leaves stock entirely.
+ */
+const buildCancellationMovements = (
+  data: any,
+  fromStatus: ProjectStatus,
+  scrap: Record<string, number> = {},
+) => {
+  const fromBucket = getBucketForProjectStatus(fromStatus)!;
+  const movements: StockMovementInput[] = [];
+  const lineTotals = computeProjectLineDeltas(
+    flattenProjectItems(parseProjectItems(data)),
+    [],
+  );
+
+  lineTotals.forEach((row) => {
+    const requested = fromBucket === "wip" ? Number(scrap[row.itemId]) : 0;
+    const scrapQty =
+      Number.isFinite(requested) && requested > 0
+        ? Math.min(requested, row.previousQty)
+        : 0;
+    const returnQty = row.previousQty - scrapQty;
+    if (returnQty > 0) {
+      movements.push({
+        itemId: row.itemId,
+        itemName: row.itemName,
+        fromBucket,
+        toBucket: "inventory",
+        toLocationId: data.locationId ?? null,
+        qty: returnQty,
+        note: "Project cancelled",
+      });
+    }
+    if (scrapQty > 0) {
+      movements.push({
+        itemId: row.itemId,
+        itemName: row.itemName,
+        fromBucket,
+        toBucket: null,
+        qty: scrapQty,
+        note: "Scrapped on project cancellation",
+      });
+    }
+  });
+
+  return movements;
+};
+
+/**
+ * Move a project to a new status in a single Firestore transaction: the
+ * project document, every bucket movement (must-have lines included), the
+ * product tracking records on completion and the idempotency record are
+ * written together. Cancelling returns the project's stock to inventory
+ * (less any scrapped WIP) and deletes its open tracking records. Serialized
+ * units already on the project, plus any `unitIds` picked for this move,
+ * follow the project into the matching unit state. The HubSpot
+ * stage is pushed once the transaction has committed and its outcome is
+ * stored on the idempotency record, so a replay of a key whose push failed
+ * retries only the push. Moves that originate in HubSpot pass
+ * `pushToHubspot: false` so the deal's stage is left as HubSpot set it.
+ */
+export const transitionProjectStatus = async ({
+  projectId,
+  targetStatus,
+  expectedStatus,
+  idempotencyKey,
+  cancellation,
+  unitIds,
+  user,
+  pushToHubspot = true,
+}: {
+  projectId: string;
+  targetStatus: ProjectStatus;
+  expectedStatus?: ProjectStatus | null;
+  idempotencyKey: string;
+  cancellation?: ProjectCancellation | null;
+  /** Serialized units to assign to the project's lines with this move. */
+  unitIds?: string[] | null;
+  user?: StockMovementUser;
+  pushToHubspot?: boolean;
+}): Promise<ProjectStatusTransitionResult> => {
+  if (!PROJECT_STATUSES.includes(targetStatus)) {
+    throw new ProjectTransitionError(`Unknown status "${targetStatus}".`, 400);
+  }
+  const cancellationReason = cancellation?.reason?.trim() ?? "";
+  if (targetStatus === "cancelled" && !cancellationReason) {
+    throw new ProjectTransitionError("A cancellation reason is required.", 400);
+  }
+  const keyId = toKeyDocId(idempotencyKey);
+  if (!keyId) {
+    throw new ProjectTransitionError("Missing idempotency key.", 400);
+  }
+
+  const db = getAdminDb();
+  const projectRef = db.collection("projects").doc(projectId);
+  const keyRef = db.collection("projectStatusTransitions").doc(keyId);
+
+  // Transactions cannot run queries, so existing tracking records are looked
+  // up beforehand. The status check inside the transaction stops a second
+  // completion from reaching the write step.
+  const trackingRefs = new Map<string, DocumentReference>();
+  const openTrackingRefs: DocumentReference[] = [];
+  if (targetStatus === "complete" || targetStatus === "cancelled") {
+    const trackingSnap = await db
+      .collection("productTracking")
+      .where("projectId", "==", projectId)
+      .get();
+    trackingSnap.docs.forEach((docSnap) => {
+      const tracking = docSnap.data() as any;
+      if (tracking.itemId && !trackingRefs.has(tracking.itemId)) {
+        trackingRefs.set(tracking.itemId, docSnap.ref);
+      }
+      if (!tracking.replenished) {
+        openTrackingRefs.push(docSnap.ref);
+      }
+    });
+  }
+
+  const pipelineConfig = await fetchAdminPipelineConfig();
+
+  const unitRefs = new Map<string, DocumentReference>();
+  const projectUnitSnap = await db
+    .collection("itemUnits")
+    .where("projectId", "==", projectId)
+    .get();
+  projectUnitSnap.docs.forEach((docSnap) =>
+    unitRefs.set(docSnap.id, docSnap.ref),
+  );
+  const selectedUnitIds =
+    targetStatus === "cancelled" ? [] : (unitIds ?? []).filter(Boolean);
+  selectedUnitIds.forEach((unitId) => {
+    if (!unitRefs.has(unitId)) {
+      unitRefs.set(unitId, db.collection("itemUnits").doc(unitId));
+    }
+  });
+
+  const { result, hubspotDealId } = await db.runTransaction(async (tx) => {
+    const keySnap = await tx.get(keyRef);
+    if (keySnap.exists) {
+      const stored = keySnap.data() as any;
+      if (stored.projectId !== projectId) {
+        throw new ProjectTransitionError(
+          "Idempotency key was already used for another project.",
+          409,
+        );
+      }
+      return {
+        hubspotDealId: (stored.hubspotDealId as string | null) ?? null,
+        result: {
+          projectId,
+          fromStatus: stored.fromStatus,
+          toStatus: stored.toStatus,
+          applied: false,
+          duplicate: true,
+          movementCount: stored.movementCount ?? 0,
+          hubspotStageId: stored.hubspotStageId ?? null,
+          hubspotSyncStatus: stored.hubspotSyncStatus ?? "skipped",
+          hubspotError: stored.hubspotError ?? null,
+        } as ProjectStatusTransitionResult,
+      };
+    }
+
+    const projectSnap = await tx.get(projectRef);
+    if (!projectSnap.exists) {
+      throw new ProjectTransitionError("Project not found.", 404);
+    }
+    const data = projectSnap.data() as any;
+    const fromStatus = (data.status as ProjectStatus) ?? "reserved";
+    if (
+      expectedStatus &&
+      fromStatus !== expectedStatus &&
+      fromStatus !== targetStatus
+    ) {
+      throw new ProjectTransitionError(
+        `Project is now ${fromStatus}; refresh and try again.`,
+        409,
+      );
+    }
+    if (fromStatus !== targetStatus) {
+      if (fromStatus === "cancelled") {
+        throw new ProjectTransitionError(
+          "Cancelled projects cannot be moved to another status.",
+          409,
+        );
+      }
+      if (
+        targetStatus === "cancelled" &&
+        !CANCELLABLE_STATUSES.includes(fromStatus)
+      ) {
+        throw new ProjectTransitionError(
+          "Only reserved or WIP projects can be cancelled.",
+          409,
+        );
+      }
+    }
+
+    const now = Timestamp.now();
+    const projectName = data.name ?? "";
+    const dealId = data.hubspotDealId ? String(data.hubspotDealId) : null;
+    const applied = fromStatus !== targetStatus;
+    const hubspotStageId = applied
+      ? getHubspotStageIdForStatus(targetStatus, pipelineConfig)
+      : null;
+    const movements = !applied
+      ? []
+      : targetStatus === "cancelled"
+        ? buildCancellationMovements(data, fromStatus, cancellation?.scrap)
+        : buildLineMovements(data, fromStatus, targetStatus);
+    const shouldTrackCompletion =
+      applied && targetStatus === "complete" && fromStatus !== "complete";
+
+    const trackingLines = shouldTrackCompletion
+      ? flattenProjectItems(parseProjectItems(data)).filter(
+          (line) => line.itemId,
+        )
+      : [];
+    const trackedItemIds = Array.from(
+      new Set(trackingLines.map((line) => line.itemId)),
+    );
+    const itemSnaps = await Promise.all(
+      trackedItemIds.map((itemId) =>
+        tx.get(db.collection("items").doc(itemId)),
+      ),
+    );
+    const itemDataById = new Map(
+      itemSnaps
+        .filter((snap) => snap.exists)
+        .map((snap) => [snap.id, snap.data()]),
+    );
+
+    const unitSnaps = applied
+      ? await Promise.all(
+          Array.from(unitRefs.values()).map((unitRef) => tx.get(unitRef)),
+        )
+      : [];
+    const projectUnits = unitSnaps
+      .filter((snap) => snap.exists)
+      .map((snap) => ({ ref: snap.ref, unit: mapItemUnit(snap.id, snap.data()) }))
+      .filter(
+        ({ unit }) =>
+          unit.projectId === projectId ||
+          selectedUnitIds.includes(unit.id),
+      );
+    if (projectUnits.length) {
+      const lineTotals = new Map(
+        computeProjectLineDeltas(
+          flattenProjectItems(parseProjectItems(data)),
+          [],
+        ).map((row) => [row.itemId, row]),
+      );
+      const unitsPerItem = new Map<string, number>();
+      projectUnits.forEach(({ unit }) => {
+        if (
+          unit.projectId !== projectId &&
+          !AVAILABLE_UNIT_STATUSES.includes(unit.status)
+        ) {
+          throw new ProjectTransitionError(
+            `Unit ${unit.unitCode} is not available.`,
+            409,
+          );
+        }
+        const line = lineTotals.get(unit.itemId);
+        if (!line) {
+          throw new ProjectTransitionError(
+            `Unit ${unit.unitCode} is not for an item on this project.`,
+            400,
+          );
+        }
+        const count = (unitsPerItem.get(unit.itemId) ?? 0) + 1;
+        if (count > line.previousQty) {
+          throw new ProjectTransitionError(
+            `More units of ${line.itemName || unit.itemId} are selected than the project needs.`,
+            400,
+          );
+        }
+        unitsPerItem.set(unit.itemId, count);
+      });
+    }
+
+    if (applied) {
+      const projectUpdates: Record<string, unknown> = {
+        status: targetStatus,
+        updatedAt: now,
+      };
+      if (targetStatus === "complete") {
+        projectUpdates.completedAt = now;
+      } else if (fromStatus === "complete") {
+        projectUpdates.completedAt = null;
+      }
+      if (targetStatus === "cancelled") {
+        projectUpdates.cancellationReason = cancellationReason;
+        projectUpdates.cancelledAt = now;
+        projectUpdates.cancelledByEmail = user?.email ?? null;
+        openTrackingRefs.forEach((trackingRef) => tx.delete(trackingRef));
+      }
+      tx.update(projectRef, projectUpdates);
+
+      recordAdminStockMovements(tx, movements, {
+        source: { type: "project", id: projectId, label: projectName },
+        user,
+        at: now,
+      });
+
+      // Scrapped quantities are the movements that leave stock entirely.
+      const scrappedQtyByItem = new Map<string, number>();
+      movements.forEach((movement) => {
+        if (movement.toBucket !== null) return;
+        scrappedQtyByItem.set(
+          movement.itemId,
+          (scrappedQtyByItem.get(movement.itemId) ?? 0) + movement.qty,
+        );
+      });
+      buildProjectUnitChanges(projectUnits, {
+        projectId,
+        projectName,
+        status: targetStatus,
+        scrappedQtyByItem,
+        user,
+        at: now,
+      }).forEach(({ ref, update, event }) => {
+        tx.update(ref, update);
+        tx.set(db.collection("itemUnitEvents").doc(), event);
+      });
+
+      trackingLines.forEach((line) => {
+        if (!itemDataById.has(line.itemId)) return;
+        const payload = buildProductTrackingPayload(
+          { id: projectId, name: projectName },
+          itemDataById.get(line.itemId),
+          line.itemId,
+          line.itemName,
+          line.qty || 0,
+          now,
+          line.itemType,
+        );
+        if (!payload) return;
+        const existingRef = trackingRefs.get(line.itemId);
+        if (existingRef) {
+          tx.update(existingRef, payload);
+        } else {
+          const trackingRef = db.collection("productTracking").doc();
+          trackingRefs.set(line.itemId, trackingRef);
+          tx.set(trackingRef, { ...payload, createdAt: now, notes: [] });
+        }
+      });
+    }
+
+    const hubspotSyncStatus: HubspotSyncStatus = "skipped";
+    tx.set(keyRef, {
+      projectId,
+      fromStatus,
+      toStatus: targetStatus,
+      applied,
+      movementCount: movements.length,
+      cancellationReason: targetStatus === "cancelled" ? cancellationReason : null,
+      hubspotDealId: dealId,
+      hubspotStageId,
+      hubspotSyncStatus,
+      hubspotError: null,
+      userId: user?.uid ?? null,
+      userEmail: user?.email ?? null,
+      createdAt: now,
+    });
+
+    return {
+      hubspotDealId: dealId,
+      result: {
+        projectId,
+        fromStatus,
+        toStatus: targetStatus,
+        applied,
+        duplicate: false,
+        movementCount: movements.length,
+        hubspotStageId,
+        hubspotSyncStatus,
+        hubspotError: null,
+      } as ProjectStatusTransitionResult,
+    };
+  });
+
+  const needsHubspotPush =
+    pushToHubspot &&
+    Boolean(hubspotDealId && result.hubspotStageId) &&
+    (result.applied ||
+      (result.duplicate && result.hubspotSyncStatus === "failed"));
+  if (!needsHubspotPush) return result;
+
+  try {
+    await updateHubspotProjectStage(hubspotDealId!, result.hubspotStageId!);
+    result.hubspotSyncStatus = "synced";
+    result.hubspotError = null;
+  } catch (err: any) {
+    console.error("HubSpot stage push error", err);
+    result.hubspotSyncStatus = "failed";
+    result.hubspotError = err?.message ?? "Unable to update HubSpot project.";
+  }
+  await keyRef.update({
+    hubspotSyncStatus: result.hubspotSyncStatus,
+    hubspotError: result.hubspotError,
+    hubspotSyncedAt: Timestamp.now(),
+  });
+  return result;
+};
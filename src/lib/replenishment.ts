@@ -0,0 +1,203 @@
+import {
+  collection,
+  getDocs,
+  Timestamp,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { explodeBomLines, getBomLines, getItemStandardCost } from "@/lib/bom";
+import { createDraftPurchases, groupBySupplier } from "@/lib/draftPurchases";
+import { getLineOutstandingQty } from "@/lib/goodsReceipts";
+import type { StockMovementUser } from "@/lib/stockMovements";
+
+export type ReorderSuggestion = {
+  itemId: string;
+  sku: string;
+  itemName: string;
+  supplierName: string | null;
+  supplierId: string | null;
+  /** `inventoryQty`; already net of stock reserved to projects. */
+  onHandQty: number;
+  /** Components needed to build assemblies that projects are waiting on. */
+  demandQty: number;
+  /** Outstanding quantity on purchases that have not been fully received. */
+  incomingQty: number;
+  /** On hand − demand + incoming. */
+  projectedQty: number;
+  reorderLevel: number;
+  reorderQuantity: number | null;
+  suggestedQty: number;
+  unitCost: number | null;
+};
+
+export type ReorderSupplierGroup = {
+  supplierName: string | null;
+  supplierId: string | null;
+  suggestions: ReorderSuggestion[];
+};
+
+const toNumber = (value: unknown): number | null => {
+  if (value == null || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * Components still to be consumed for projects. Reserving a project takes
+ * the finished item out of stock straight away, so an assembly with negative
+ * on-hand stock is owed to a project and has yet to be built from its BOM.
+ */
+export const getUpcomingBuildDemand = (items: { id: string; data: any }[]) => {
+  const byId = new Map(items.map((item) => [item.id, item.data]));
+  const backorders = items
+    .filter(
+      (item) =>
+        (toNumber(item.data?.inventoryQty) ?? 0) < 0 &&
+        getBomLines(item.data).length > 0,
+    )
+    .map((item) => ({
+      itemId: item.id,
+      qty: -(toNumber(item.data?.inventoryQty) ?? 0),
+    }));
+  const demand = new Map<string, number>();
+  explodeBomLines(backorders, (itemId) => byId.get(itemId) ?? null).forEach(
+    (leaf) => demand.set(leaf.itemId, leaf.quantity),
+  );
+  return demand;
+};
+
+/** Outstanding quantity per item across purchases not yet fully received. */
+export const getIncomingPurchaseQty = (
+  purchases: { id: string; data: any }[],
+) => {
+  const incoming = new Map<string, number>();
+  purchases.forEach(({ data }) => {
+    if (data?.status === "stock_received") return;
+    const lineItems = Array.isArray(data?.lineItems) ? data.lineItems : [];
+    lineItems.forEach((line: any) => {
+      if (!line?.itemId) return;
+      const qty = getLineOutstandingQty(line, data);
+      if (qty > 0) {
+        incoming.set(line.itemId, (incoming.get(line.itemId) ?? 0) + qty);
+      }
+    });
+  });
+  return incoming;
+};
+
+/**
+ * Propose orders for bought-in items (those without BOM lines) whose
+ * projected stock is at or below their reorder level, falling back to the
+ * low-stock threshold. The proposal is the item's reorder quantity, raised
+ * when that would not bring projected stock back above the level.
+ */
+export const buildReorderSuggestions = (
+  items: { id: string; data: any }[],
+  purchases: { id: string; data: any }[],
+): ReorderSuggestion[] => {
+  const demand = getUpcomingBuildDemand(items);
+  const incoming = getIncomingPurchaseQty(purchases);
+  const suggestions: ReorderSuggestion[] = [];
+
+  items.forEach(({ id, data }) => {
+    if (data?.status === "inactive" || getBomLines(data).length > 0) return;
+    const reorderLevel =
+      toNumber(data?.reorderLevel) ?? toNumber(data?.lowStockThreshold);
+    const onHandQty = toNumber(data?.inventoryQty) ?? 0;
+    const demandQty = demand.get(id) ?? 0;
+    const incomingQty = incoming.get(id) ?? 0;
+    const projectedQty = onHandQty - demandQty + incomingQty;
+    // Items without a level are only suggested when they are short outright.
+    const level = reorderLevel ?? (projectedQty < 0 ? 0 : null);
+    if (level === null || projectedQty > level) return;
+
+    const reorderQuantity = toNumber(data?.reorderQuantity);
+    const needed = level - projectedQty + (reorderLevel != null ? 1 : 0);
+    const suggestedQty = Math.ceil(
+      Math.max(reorderQuantity ?? 0, needed, 1),
+    );
+    const useSecondSupplier = !data?.supplier1 && Boolean(data?.supplier2);
+    suggestions.push({
+      itemId: id,
+      sku: data?.sku ?? data?.shortCode ?? "",
+      itemName: data?.name ?? "Unknown item",
+      supplierName:
+        (useSecondSupplier ? data?.supplier2 : data?.supplier1)?.trim() ||
+        null,
+      supplierId:
+        (useSecondSupplier ? data?.supplier2Id : data?.supplier1Id) ?? null,
+      onHandQty,
+      demandQty,
+      incomingQty,
+      projectedQty,
+      reorderLevel: level,
+      reorderQuantity,
+      suggestedQty,
+      unitCost: getItemStandardCost(data),
+    });
+  });
+
+  return suggestions.sort((a, b) => a.itemName.localeCompare(b.itemName));
+};
+
+export const loadReorderSuggestions = async () => {
+  const [itemSnap, purchaseSnap] = await Promise.all([
+    getDocs(collection(db, "items")),
+    getDocs(collection(db, "purchases")),
+  ]);
+  const toRows = (snap: typeof itemSnap) =>
+    snap.docs.map((docSnap) => ({ id: docSnap.id, data: docSnap.data() }));
+  return buildReorderSuggestions(toRows(itemSnap), toRows(purchaseSnap));
+};
+
+export const groupSuggestionsBySupplier = (
+  suggestions: ReorderSuggestion[],
+): ReorderSupplierGroup[] =>
+  groupBySupplier(suggestions)
+    .map(({ rows, ...group }) => ({ ...group, suggestions: rows }))
+    // Unassigned items last.
+    .sort((a, b) =>
+      a.supplierName && b.supplierName
+        ? a.supplierName.localeCompare(b.supplierName)
+        : a.supplierName
+          ? -1
+          : 1,
+    );
+
+/**
+ * Raise one draft purchase per supplier for the accepted suggestions, using
+ * the quantities given in `quantities` (keyed by item id). Returns the ids of
+ * the purchases created.
+ */
+export const createReorderPurchases = async ({
+  suggestions,
+  quantities,
+  user,
+}: {
+  suggestions: ReorderSuggestion[];
+  quantities: Record<string, number>;
+  user?: StockMovementUser;
+}) => {
+  const accepted = suggestions.filter(
+    (suggestion) => (quantities[suggestion.itemId] ?? 0) > 0,
+  );
+  if (!accepted.length) {
+    throw new Error("Select at least one suggestion with a quantity.");
+  }
+  const batch = writeBatch(db);
+  const purchaseIds = createDraftPurchases(
+    batch,
+    accepted.map((suggestion) => ({
+      ...suggestion,
+      quantity: quantities[suggestion.itemId],
+    })),
+    {
+      reference: "Reorder",
+      notes: "Draft raised from reorder suggestions.",
+      user,
+      at: Timestamp.now(),
+    },
+  );
+  await batch.commit();
+  return purchaseIds;
+};
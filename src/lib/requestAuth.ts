@@ -0,0 +1,43 @@
+import {
+  normalizeAccountStatus,
+  type AccountStatus,
+} from "@/lib/accountStatus";
+import { getAdminAuth, getAdminDb } from "@/lib/firebaseAdmin";
+
+export type RequestUser = {
+  uid: string;
+  email: string | null;
+  accountStatus: AccountStatus;
+};
+
+/**
+ * The signed-in user behind an API request, from the Firebase ID token in
+ * its `Authorization: Bearer` header, with the account status from their
+ * `users` record (view-only when it cannot be read). Null when the token is
+ * missing or does not verify.
+ */
+export const verifyRequestUser = async (
+  request: Request,
+): Promise<RequestUser | null> => {
+  const header = request.headers.get("Authorization") ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header.trim());
+  if (!match) return null;
+  let decoded;
+  try {
+    decoded = await getAdminAuth().verifyIdToken(match[1]);
+  } catch (err) {
+    console.error("ID token verification failed", err);
+    return null;
+  }
+  let accountStatus: AccountStatus = "viewOnly";
+  try {
+    const profile = await getAdminDb()
+      .collection("users")
+      .doc(decoded.uid)
+      .get();
+    accountStatus = normalizeAccountStatus(profile.data()?.accountStatus);
+  } catch (err) {
+    console.error("Error loading user profile", err);
+  }
+  return { uid: decoded.uid, email: decoded.email ?? null, accountStatus };
+};
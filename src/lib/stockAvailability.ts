@@ -0,0 +1,125 @@
+import {
+  doc,
+  getDoc,
+  type Timestamp,
+  type WriteBatch,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import {
+  createDraftPurchases,
+  groupBySupplier,
+  type SupplierGroup,
+} from "@/lib/draftPurchases";
+import type { ProjectItemLine } from "@/app/projects/_projectItemUtils";
+import { getItemLocationQuantities } from "@/lib/locations";
+import type { StockMovementUser } from "@/lib/stockMovements";
+
+export type StockAvailabilityRow = {
+  itemId: string;
+  itemName: string;
+  sku: string;
+  requiredQty: number;
+  availableQty: number;
+  shortQty: number;
+  supplierName: string | null;
+  supplierId: string | null;
+  unitCost: number | null;
+};
+
+export type ShortagePurchaseGroup = SupplierGroup<StockAvailabilityRow>;
+
+const toNumber = (value: unknown): number | null => {
+  if (value == null || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+/**
+ * Total quantity each item needs across the supplied project lines, counting
+ * must-have companions against their own item.
+ */
+export const collectRequiredQuantities = (lines: ProjectItemLine[]) => {
+  const required = new Map<string, { itemName: string; qty: number }>();
+  const add = (itemId: string, itemName: string, qty: number) => {
+    if (!itemId || !Number.isFinite(qty) || qty <= 0) return;
+    const existing = required.get(itemId);
+    required.set(itemId, {
+      itemName: existing?.itemName || itemName,
+      qty: (existing?.qty ?? 0) + qty,
+    });
+  };
+  lines.forEach((line) => {
+    add(line.itemId, line.itemName, line.qty);
+    if (line.mustHaveItemId && line.mustHaveQty) {
+      add(line.mustHaveItemId, line.mustHaveItemName ?? "", line.mustHaveQty);
+    }
+  });
+  return required;
+};
+
+/**
+ * Read current on-hand inventory for every item the lines need and report how
+ * much of each is short. With a `locationId` only stock at that location
+ * counts, since that is where the reservation is taken from. Rows come back
+ * for all items, short ones first.
+ */
+export const checkStockAvailability = async (
+  lines: ProjectItemLine[],
+  locationId?: string | null,
+): Promise<StockAvailabilityRow[]> => {
+  const required = collectRequiredQuantities(lines);
+  const rows = await Promise.all(
+    Array.from(required.entries()).map(async ([itemId, entry]) => {
+      const snap = await getDoc(doc(db, "items", itemId));
+      const data = snap.exists() ? (snap.data() as any) : {};
+      const availableQty = locationId
+        ? (getItemLocationQuantities(data)[locationId] ?? 0)
+        : (toNumber(data.inventoryQty) ?? 0);
+      return {
+        itemId,
+        itemName: data.name ?? entry.itemName ?? "Unknown item",
+        sku: data.sku ?? "",
+        requiredQty: entry.qty,
+        availableQty,
+        shortQty: Math.max(0, entry.qty - Math.max(availableQty, 0)),
+        supplierName: data.supplier1 ?? data.primarySupplier ?? null,
+        supplierId: data.supplier1Id ?? null,
+        unitCost: toNumber(data.standardCost) ?? toNumber(data.pricePerUnit),
+      };
+    }),
+  );
+  return rows.sort(
+    (a, b) => b.shortQty - a.shortQty || a.itemName.localeCompare(b.itemName),
+  );
+};
+
+export const groupShortagesBySupplier = (
+  rows: StockAvailabilityRow[],
+): ShortagePurchaseGroup[] =>
+  groupBySupplier(rows.filter((row) => row.shortQty > 0));
+
+/**
+ * Queue one draft purchase per supplier covering the shortfall on a project.
+ * Items without a Supplier 1 are grouped into a single unassigned draft.
+ */
+export const queueShortagePurchases = (
+  batch: WriteBatch,
+  rows: StockAvailabilityRow[],
+  context: {
+    projectId: string;
+    projectName: string;
+    user?: StockMovementUser;
+    at: Timestamp;
+  },
+) =>
+  createDraftPurchases(
+    batch,
+    rows.map((row) => ({ ...row, quantity: row.shortQty })),
+    {
+      reference: `Shortfall – ${context.projectName}`,
+      notes: `Draft raised for stock shortfall when reserving project ${context.projectName}.`,
+      sourceProjectId: context.projectId,
+      user: context.user,
+      at: context.at,
+    },
+  ).length;
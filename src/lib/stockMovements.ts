@@ -0,0 +1,306 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  increment,
+  query,
+  Timestamp,
+  where,
+  type DocumentData,
+  type DocumentReference,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import type { ProjectStatus } from "@/lib/projectPipeline";
+
+export type StockBucket = "inventory" | "reserved" | "wip" | "completed";
+
+export const STOCK_BUCKETS: StockBucket[] = [
+  "inventory",
+  "reserved",
+  "wip",
+  "completed",
+];
+
+export const STOCK_BUCKET_FIELDS: Record<
+  StockBucket,
+  "inventoryQty" | "reservedQty" | "wipQty" | "completedQty"
+> = {
+  inventory: "inventoryQty",
+  reserved: "reservedQty",
+  wip: "wipQty",
+  completed: "completedQty",
+};
+
+export const STOCK_BUCKET_LABELS: Record<StockBucket, string> = {
+  inventory: "Inventory",
+  reserved: "Reserved",
+  wip: "WIP",
+  completed: "Completed",
+};
+
+export type StockMovementSourceType =
+  | "project"
+  | "purchase"
+  | "manufacture"
+  | "replenishment"
+  | "adjustment"
+  | "transfer"
+  | "stocktake"
+  | "import";
+
+export type StockMovementSource = {
+  type: StockMovementSourceType;
+  id: string | null;
+  label?: string | null;
+};
+
+export type StockMovementUser = {
+  uid?: string | null;
+  email?: string | null;
+} | null;
+
+/**
+ * A single quantity moving between buckets on one item. A `null` bucket is
+ * outside the IMS — a supplier delivery arrives from `null`, scrapped stock
+ * leaves to `null`. Location ids only apply to the inventory side of a
+ * movement; an inventory → inventory movement between two locations is a
+ * transfer.
+ */
+export type StockMovementInput = {
+  itemId: string;
+  itemName?: string | null;
+  fromBucket: StockBucket | null;
+  toBucket: StockBucket | null;
+  fromLocationId?: string | null;
+  toLocationId?: string | null;
+  qty: number;
+  note?: string | null;
+};
+
+export type StockMovementRecord = StockMovementInput & {
+  id: string;
+  source: StockMovementSource;
+  userId: string | null;
+  userEmail: string | null;
+  createdAt: Timestamp | null;
+};
+
+export type StockBucketTotals = Record<StockBucket, number>;
+
+export const createEmptyBucketTotals = (): StockBucketTotals => ({
+  inventory: 0,
+  reserved: 0,
+  wip: 0,
+  completed: 0,
+});
+
+/** Bucket holding a project's lines; cancelled projects hold no stock. */
+export const getBucketForProjectStatus = (
+  status: ProjectStatus,
+): StockBucket | null => {
+  if (status === "reserved") return "reserved";
+  if (status === "complete") return "completed";
+  if (status === "cancelled") return null;
+  return "wip";
+};
+
+export const describeStockRoute = (
+  fromBucket: StockBucket | null,
+  toBucket: StockBucket | null,
+) => {
+  const from = fromBucket ? STOCK_BUCKET_LABELS[fromBucket] : "External";
+  const to = toBucket ? STOCK_BUCKET_LABELS[toBucket] : "External";
+  return `${from} → ${to}`;
+};
+
+const isBucket = (value: unknown): value is StockBucket =>
+  typeof value === "string" &&
+  (STOCK_BUCKETS as string[]).includes(value);
+
+/** The write surface shared by `WriteBatch` and `Transaction`. */
+export type StockMovementWriter = {
+  set: (ref: DocumentReference, data: DocumentData) => unknown;
+  update: (ref: DocumentReference, data: DocumentData) => unknown;
+};
+
+/**
+ * The ledger entries and per-item counter deltas for `movements`, kept free
+ * of any Firestore SDK so browser batches and admin transactions write the
+ * same documents. Item deltas are merged per item so a project with repeated
+ * lines still produces one write per item document. Inventory entering or
+ * leaving a location also moves `locationQty.<locationId>`.
+ */
+export const buildStockMovementWrites = <T>(
+  movements: StockMovementInput[],
+  context: {
+    source: StockMovementSource;
+    user?: StockMovementUser;
+    at: T;
+  },
+) => {
+  const deltasByItem = new Map<string, StockBucketTotals>();
+  const locationDeltasByItem = new Map<string, Map<string, number>>();
+  const ledgerEntries: Record<string, unknown>[] = [];
+
+  movements.forEach((movement) => {
+    const qty = Number(movement.qty);
+    if (!movement.itemId || !Number.isFinite(qty) || qty === 0) return;
+    const fromLocationId =
+      movement.fromBucket === "inventory"
+        ? (movement.fromLocationId ?? null)
+        : null;
+    const toLocationId =
+      movement.toBucket === "inventory" ? (movement.toLocationId ?? null) : null;
+    if (
+      movement.fromBucket === movement.toBucket &&
+      fromLocationId === toLocationId
+    ) {
+      return;
+    }
+
+    const deltas =
+      deltasByItem.get(movement.itemId) ?? createEmptyBucketTotals();
+    if (movement.fromBucket) deltas[movement.fromBucket] -= qty;
+    if (movement.toBucket) deltas[movement.toBucket] += qty;
+    deltasByItem.set(movement.itemId, deltas);
+
+    const locationDeltas =
+      locationDeltasByItem.get(movement.itemId) ?? new Map<string, number>();
+    if (fromLocationId) {
+      locationDeltas.set(
+        fromLocationId,
+        (locationDeltas.get(fromLocationId) ?? 0) - qty,
+      );
+    }
+    if (toLocationId) {
+      locationDeltas.set(
+        toLocationId,
+        (locationDeltas.get(toLocationId) ?? 0) + qty,
+      );
+    }
+    locationDeltasByItem.set(movement.itemId, locationDeltas);
+
+    ledgerEntries.push({
+      itemId: movement.itemId,
+      itemName: movement.itemName ?? null,
+      fromBucket: movement.fromBucket,
+      toBucket: movement.toBucket,
+      fromLocationId,
+      toLocationId,
+      qty,
+      note: movement.note ?? null,
+      sourceType: context.source.type,
+      sourceId: context.source.id,
+      sourceLabel: context.source.label ?? null,
+      userId: context.user?.uid ?? null,
+      userEmail: context.user?.email ?? null,
+      createdAt: context.at,
+    });
+  });
+
+  const itemIncrements = new Map<string, Record<string, number>>();
+  deltasByItem.forEach((deltas, itemId) => {
+    const fields: Record<string, number> = {};
+    STOCK_BUCKETS.forEach((bucket) => {
+      if (deltas[bucket]) fields[STOCK_BUCKET_FIELDS[bucket]] = deltas[bucket];
+    });
+    locationDeltasByItem.get(itemId)?.forEach((delta, locationId) => {
+      if (delta) fields[`locationQty.${locationId}`] = delta;
+    });
+    itemIncrements.set(itemId, fields);
+  });
+
+  return { ledgerEntries, itemIncrements };
+};
+
+/**
+ * Queue ledger entries plus the matching bucket increments on the supplied
+ * batch or transaction.
+ */
+export const recordStockMovements = (
+  batch: StockMovementWriter,
+  movements: StockMovementInput[],
+  context: {
+    source: StockMovementSource;
+    user?: StockMovementUser;
+    at: Timestamp;
+  },
+) => {
+  const { ledgerEntries, itemIncrements } = buildStockMovementWrites(
+    movements,
+    context,
+  );
+  const ledgerRef = collection(db, "stockMovements");
+  ledgerEntries.forEach((entry) => batch.set(doc(ledgerRef), entry));
+  itemIncrements.forEach((fields, itemId) => {
+    const updates: Record<string, unknown> = { updatedAt: context.at };
+    Object.entries(fields).forEach(([field, delta]) => {
+      updates[field] = increment(delta);
+    });
+    batch.update(doc(db, "items", itemId), updates);
+  });
+};
+
+export const mapStockMovement = (
+  id: string,
+  data: any,
+): StockMovementRecord => ({
+  id,
+  itemId: data?.itemId ?? "",
+  itemName: data?.itemName ?? null,
+  fromBucket: isBucket(data?.fromBucket) ? data.fromBucket : null,
+  toBucket: isBucket(data?.toBucket) ? data.toBucket : null,
+  fromLocationId: data?.fromLocationId ?? null,
+  toLocationId: data?.toLocationId ?? null,
+  qty: Number(data?.qty) || 0,
+  note: data?.note ?? null,
+  source: {
+    type: (data?.sourceType as StockMovementSourceType) ?? "adjustment",
+    id: data?.sourceId ?? null,
+    label: data?.sourceLabel ?? null,
+  },
+  userId: data?.userId ?? null,
+  userEmail: data?.userEmail ?? null,
+  createdAt: data?.createdAt ?? null,
+});
+
+export const fetchItemStockMovements = async (itemId: string) => {
+  const snap = await getDocs(
+    query(collection(db, "stockMovements"), where("itemId", "==", itemId)),
+  );
+  return snap.docs
+    .map((docSnap) => mapStockMovement(docSnap.id, docSnap.data()))
+    .sort(
+      (a, b) =>
+        (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0),
+    );
+};
+
+export const sumStockMovements = (
+  movements: Pick<StockMovementInput, "fromBucket" | "toBucket" | "qty">[],
+): StockBucketTotals => {
+  const totals = createEmptyBucketTotals();
+  movements.forEach((movement) => {
+    if (movement.fromBucket) totals[movement.fromBucket] -= movement.qty;
+    if (movement.toBucket) totals[movement.toBucket] += movement.qty;
+  });
+  return totals;
+};
+
+/**
+ * Compare the stored bucket counters on an item against the ledger totals.
+ * Returns only the buckets that disagree.
+ */
+export const compareBucketsToLedger = (
+  item: Partial<Record<(typeof STOCK_BUCKET_FIELDS)[StockBucket], unknown>>,
+  ledgerTotals: StockBucketTotals,
+) =>
+  STOCK_BUCKETS.map((bucket) => {
+    const stored = Number(item[STOCK_BUCKET_FIELDS[bucket]]) || 0;
+    return {
+      bucket,
+      stored,
+      ledger: ledgerTotals[bucket],
+      difference: stored - ledgerTotals[bucket],
+    };
+  }).filter((row) => row.difference !== 0);
@@ -0,0 +1,169 @@
+import { getLineReceivedQty } from "@/lib/goodsReceipts";
+import type { ProjectStatus } from "@/lib/projectPipeline";
+import {
+  flattenProjectItems,
+  parseProjectItems,
+} from "@/app/projects/_projectItemUtils";
+import {
+  createEmptyBucketTotals,
+  getBucketForProjectStatus,
+  mapStockMovement,
+  STOCK_BUCKET_FIELDS,
+  type StockBucket,
+  type StockBucketTotals,
+} from "@/lib/stockMovements";
+
+/** Buckets whose expected value can be rebuilt from project documents. */
+export const RECONCILED_BUCKETS: StockBucket[] = [
+  "reserved",
+  "wip",
+  "completed",
+];
+
+export type BucketDifference = {
+  bucket: StockBucket;
+  stored: number;
+  expected: number;
+  difference: number;
+};
+
+export type ReconciliationRow = {
+  itemId: string;
+  itemName: string;
+  itemType: string | null;
+  sku: string;
+  stored: StockBucketTotals;
+  expected: StockBucketTotals;
+  receivedQty: number;
+  manufacturedConsumption: number;
+  differences: BucketDifference[];
+};
+
+const PROJECT_STATUSES: ProjectStatus[] = ["reserved", "wip", "complete"];
+
+const toNumber = (value: unknown) => {
+  const num = Number(value);
+  return Number.isFinite(num) ? num : 0;
+};
+
+/**
+ * Rebuild the expected reserved / WIP / completed buckets for every item.
+ *
+ * Reserved, WIP and completed come from the lines on every project in that
+ * status (including must-have items). Components consumed by sub-assembly
+ * manufacture also land in completed, so those movements are added from the
+ * ledger and from the legacy `inventoryHistory` arrays. Received purchase
+ * quantities are returned for context only — on-hand inventory also depends
+ * on imports and manual edits, so it is not reconciled here.
+ */
+export const computeStockReconciliation = ({
+  items,
+  projects,
+  purchases,
+  movements,
+}: {
+  items: { id: string; data: any }[];
+  projects: { id: string; data: any }[];
+  purchases: { id: string; data: any }[];
+  movements: { id: string; data: any }[];
+}): ReconciliationRow[] => {
+  const expectedByItem = new Map<string, StockBucketTotals>();
+  const receivedByItem = new Map<string, number>();
+  const manufacturedByItem = new Map<string, number>();
+
+  const addExpected = (itemId: string, bucket: StockBucket, qty: number) => {
+    if (!itemId || !qty) return;
+    const totals = expectedByItem.get(itemId) ?? createEmptyBucketTotals();
+    totals[bucket] += qty;
+    expectedByItem.set(itemId, totals);
+  };
+
+  projects.forEach(({ data }) => {
+    const status = data?.status as ProjectStatus;
+    if (!PROJECT_STATUSES.includes(status)) return;
+    const bucket = getBucketForProjectStatus(status);
+    if (!bucket) return;
+    flattenProjectItems(parseProjectItems(data)).forEach((line) => {
+      addExpected(line.itemId, bucket, line.qty || 0);
+      if (line.mustHaveItemId && line.mustHaveQty && line.mustHaveQty > 0) {
+        addExpected(line.mustHaveItemId, bucket, line.mustHaveQty);
+      }
+    });
+  });
+
+  movements.forEach(({ id, data }) => {
+    const movement = mapStockMovement(id, data);
+    if (movement.source.type !== "manufacture") return;
+    const signed =
+      (movement.toBucket === "completed" ? movement.qty : 0) -
+      (movement.fromBucket === "completed" ? movement.qty : 0);
+    if (!signed) return;
+    manufacturedByItem.set(
+      movement.itemId,
+      (manufacturedByItem.get(movement.itemId) ?? 0) + signed,
+    );
+  });
+
+  items.forEach(({ id, data }) => {
+    if (!Array.isArray(data?.inventoryHistory)) return;
+    data.inventoryHistory.forEach((entry: any) => {
+      if (entry?.changeType !== "subAssembly") return;
+      if (entry?.toBucket !== "Completed") return;
+      const delta = toNumber(entry.delta);
+      if (!delta) return;
+      manufacturedByItem.set(id, (manufacturedByItem.get(id) ?? 0) + delta);
+    });
+  });
+
+  purchases.forEach(({ data }) => {
+    const lines = Array.isArray(data?.lineItems) ? data.lineItems : [];
+    lines.forEach((line: any) => {
+      const qty = getLineReceivedQty(line, data);
+      if (!line?.itemId || qty <= 0) return;
+      receivedByItem.set(
+        line.itemId,
+        (receivedByItem.get(line.itemId) ?? 0) + qty,
+      );
+    });
+  });
+
+  return items
+    .map(({ id, data }) => {
+      const stored = createEmptyBucketTotals();
+      (Object.keys(STOCK_BUCKET_FIELDS) as StockBucket[]).forEach((bucket) => {
+        stored[bucket] = toNumber(data?.[STOCK_BUCKET_FIELDS[bucket]]);
+      });
+      const expected = {
+        ...stored,
+        ...RECONCILED_BUCKETS.reduce(
+          (acc, bucket) => {
+            acc[bucket] = expectedByItem.get(id)?.[bucket] ?? 0;
+            return acc;
+          },
+          {} as Partial<StockBucketTotals>,
+        ),
+      };
+      const manufacturedConsumption = manufacturedByItem.get(id) ?? 0;
+      expected.completed += manufacturedConsumption;
+
+      const differences = RECONCILED_BUCKETS.map((bucket) => ({
+        bucket,
+        stored: stored[bucket],
+        expected: expected[bucket],
+        difference: expected[bucket] - stored[bucket],
+      })).filter((row) => row.difference !== 0);
+
+      return {
+        itemId: id,
+        itemName: data?.name ?? "Unnamed item",
+        itemType: data?.itemType ?? null,
+        sku: data?.sku ?? data?.shortCode ?? "",
+        stored,
+        expected,
+        receivedQty: receivedByItem.get(id) ?? 0,
+        manufacturedConsumption,
+        differences,
+      };
+    })
+    .sort((a, b) => a.itemName.localeCompare(b.itemName));
+};
@@ -0,0 +1,319 @@
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  runTransaction,
+  Timestamp,
+  updateDoc,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+import { getItemStandardCost } from "@/lib/bom";
+import {
+  deriveDetailType,
+  type InventoryDetailType,
+} from "@/lib/inventoryPaths";
+import { getItemLocationQuantities } from "@/lib/locations";
+import {
+  recordStockMovements,
+  type StockMovementInput,
+  type StockMovementUser,
+} from "@/lib/stockMovements";
+
+export type StocktakeStatus = "counting" | "posted" | "cancelled";
+
+export const STOCKTAKE_STATUS_LABELS: Record<StocktakeStatus, string> = {
+  counting: "Counting",
+  posted: "Posted",
+  cancelled: "Cancelled",
+};
+
+export type StocktakeFilters = {
+  itemType: InventoryDetailType | null;
+  category: string | null;
+  locationId: string | null;
+};
+
+export type StocktakeLine = {
+  itemId: string;
+  sku: string;
+  name: string;
+  /** System quantity when the session was created, for the count sheet. */
+  expectedQty: number;
+  countedQty: number | null;
+  standardCost: number | null;
+  /** Quantity posted as an adjustment; set once the session is posted. */
+  adjustedQty: number | null;
+};
+
+export type Stocktake = {
+  id: string;
+  name: string;
+  status: StocktakeStatus;
+  filters: StocktakeFilters;
+  locationName: string | null;
+  lines: StocktakeLine[];
+  createdAt: Timestamp | null;
+  createdByEmail: string | null;
+  postedAt: Timestamp | null;
+  postedByEmail: string | null;
+};
+
+const toNumberOrNull = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+const mapStocktakeLine = (data: any): StocktakeLine => ({
+  itemId: data?.itemId ?? "",
+  sku: data?.sku ?? "",
+  name: data?.name ?? "",
+  expectedQty: Number(data?.expectedQty) || 0,
+  countedQty: toNumberOrNull(data?.countedQty),
+  standardCost: toNumberOrNull(data?.standardCost),
+  adjustedQty: toNumberOrNull(data?.adjustedQty),
+});
+
+export const mapStocktake = (id: string, data: any): Stocktake => ({
+  id,
+  name: data?.name ?? "Stocktake",
+  status: data?.status ?? "counting",
+  filters: {
+    itemType: data?.filters?.itemType ?? null,
+    category: data?.filters?.category ?? null,
+    locationId: data?.filters?.locationId ?? null,
+  },
+  locationName: data?.locationName ?? null,
+  lines: Array.isArray(data?.lines) ? data.lines.map(mapStocktakeLine) : [],
+  createdAt: data?.createdAt ?? null,
+  createdByEmail: data?.createdByEmail ?? null,
+  postedAt: data?.postedAt ?? null,
+  postedByEmail: data?.postedByEmail ?? null,
+});
+
+/**
+ * Quantity the system holds for an item within a session's scope: the
+ * location's share of inventory when counting a location, otherwise the
+ * whole inventory bucket.
+ */
+export const getStocktakeSystemQty = (
+  itemData: any,
+  locationId: string | null,
+) =>
+  locationId
+    ? (getItemLocationQuantities(itemData)[locationId] ?? 0)
+    : Number(itemData?.inventoryQty) || 0;
+
+/**
+ * Whether an item belongs on a count sheet. A location filter does not drop
+ * items with no stock recorded there, so stock found on the shelf can still
+ * be counted in; those lines expect 0.
+ */
+export const matchesStocktakeFilters = (
+  itemData: any,
+  filters: StocktakeFilters,
+) => {
+  if (itemData?.status === "inactive") return false;
+  if (
+    filters.itemType &&
+    deriveDetailType(itemData?.itemType, itemData?.category) !==
+      filters.itemType
+  ) {
+    return false;
+  }
+  if (
+    filters.category &&
+    String(itemData?.category ?? "").trim().toLowerCase() !==
+      filters.category.trim().toLowerCase()
+  ) {
+    return false;
+  }
+  return true;
+};
+
+/** Counted minus system quantity, or null while the line is uncounted. */
+export const getStocktakeVariance = (
+  line: Pick<StocktakeLine, "countedQty">,
+  systemQty: number,
+) => (line.countedQty === null ? null : line.countedQty - systemQty);
+
+export const fetchStocktakes = async () => {
+  const snap = await getDocs(collection(db, "stocktakes"));
+  return snap.docs
+    .map((docSnap) => mapStocktake(docSnap.id, docSnap.data()))
+    .sort(
+      (a, b) =>
+        (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0),
+    );
+};
+
+export const fetchStocktake = async (stocktakeId: string) => {
+  const snap = await getDoc(doc(db, "stocktakes", stocktakeId));
+  return snap.exists() ? mapStocktake(snap.id, snap.data()) : null;
+};
+
+/**
+ * Open a count session for every item matching `filters`. Expected
+ * quantities are captured now so the count sheet can be printed; variances
+ * are reviewed against live stock when the session is posted.
+ */
+export const createStocktake = async ({
+  name,
+  filters,
+  locationName,
+  user,
+}: {
+  name: string;
+  filters: StocktakeFilters;
+  locationName?: string | null;
+  user?: StockMovementUser;
+}) => {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    throw new Error("Give the stocktake a name.");
+  }
+  const itemSnap = await getDocs(collection(db, "items"));
+  const lines: StocktakeLine[] = itemSnap.docs
+    .filter((docSnap) => matchesStocktakeFilters(docSnap.data(), filters))
+    .map((docSnap) => {
+      const data = docSnap.data() as any;
+      return {
+        itemId: docSnap.id,
+        sku: data.sku ?? "",
+        name: data.name ?? "",
+        expectedQty: getStocktakeSystemQty(data, filters.locationId),
+        countedQty: null,
+        standardCost: getItemStandardCost(data),
+        adjustedQty: null,
+      };
+    })
+    .sort((a, b) => (a.sku || a.name).localeCompare(b.sku || b.name));
+  if (!lines.length) {
+    throw new Error("No items match these filters.");
+  }
+
+  const now = Timestamp.now();
+  const ref = await addDoc(collection(db, "stocktakes"), {
+    name: trimmedName,
+    status: "counting",
+    filters,
+    locationName: locationName ?? null,
+    lines,
+    createdAt: now,
+    createdByUserId: user?.uid ?? null,
+    createdByEmail: user?.email ?? null,
+    updatedAt: now,
+  });
+  return ref.id;
+};
+
+/** Save counted quantities while the session is still open. */
+export const saveStocktakeCounts = async (
+  stocktakeId: string,
+  counts: Record<string, number | null>,
+) =>
+  runTransaction(db, async (tx) => {
+    const ref = doc(db, "stocktakes", stocktakeId);
+    const snap = await tx.get(ref);
+    if (!snap.exists()) {
+      throw new Error("Stocktake not found.");
+    }
+    const stocktake = mapStocktake(snap.id, snap.data());
+    if (stocktake.status !== "counting") {
+      throw new Error("This stocktake is no longer open for counting.");
+    }
+    const lines = stocktake.lines.map((line) =>
+      line.itemId in counts
+        ? { ...line, countedQty: counts[line.itemId] }
+        : line,
+    );
+    tx.update(ref, { lines, updatedAt: Timestamp.now() });
+    return lines;
+  });
+
+export const cancelStocktake = async (stocktakeId: string) =>
+  updateDoc(doc(db, "stocktakes", stocktakeId), {
+    status: "cancelled",
+    updatedAt: Timestamp.now(),
+  });
+
+/**
+ * Post the approved lines of a session in one transaction. Each adjustment
+ * is the counted quantity minus the item's stock at the moment of posting,
+ * written to the ledger with the session as its source. Lines that are not
+ * approved, or have no count, are left unchanged.
+ */
+export const postStocktake = async ({
+  stocktakeId,
+  approvedItemIds,
+  user,
+}: {
+  stocktakeId: string;
+  approvedItemIds: string[];
+  user?: StockMovementUser;
+}) =>
+  runTransaction(db, async (tx) => {
+    const ref = doc(db, "stocktakes", stocktakeId);
+    const snap = await tx.get(ref);
+    if (!snap.exists()) {
+      throw new Error("Stocktake not found.");
+    }
+    const stocktake = mapStocktake(snap.id, snap.data());
+    if (stocktake.status !== "counting") {
+      throw new Error("This stocktake has already been closed.");
+    }
+    const approved = new Set(approvedItemIds);
+    const postedLines = stocktake.lines.filter(
+      (line) => approved.has(line.itemId) && line.countedQty !== null,
+    );
+    const itemSnaps = await Promise.all(
+      postedLines.map((line) => tx.get(doc(db, "items", line.itemId))),
+    );
+
+    const locationId = stocktake.filters.locationId;
+    const adjustments = new Map<string, number>();
+    const movements: StockMovementInput[] = [];
+    postedLines.forEach((line, index) => {
+      const itemSnap = itemSnaps[index];
+      if (!itemSnap.exists()) return;
+      const variance = getStocktakeVariance(
+        line,
+        getStocktakeSystemQty(itemSnap.data(), locationId),
+      );
+      adjustments.set(line.itemId, variance ?? 0);
+      if (!variance) return;
+      movements.push({
+        itemId: line.itemId,
+        itemName: line.name,
+        fromBucket: variance < 0 ? "inventory" : null,
+        toBucket: variance < 0 ? null : "inventory",
+        fromLocationId: locationId,
+        toLocationId: locationId,
+        qty: Math.abs(variance),
+        note: `Stocktake count ${line.countedQty}`,
+      });
+    });
+
+    const now = Timestamp.now();
+    const lines = stocktake.lines.map((line) =>
+      adjustments.has(line.itemId)
+        ? { ...line, adjustedQty: adjustments.get(line.itemId) ?? 0 }
+        : line,
+    );
+    tx.update(ref, {
+      status: "posted",
+      lines,
+      postedAt: now,
+      postedByUserId: user?.uid ?? null,
+      postedByEmail: user?.email ?? null,
+      updatedAt: now,
+    });
+    recordStockMovements(tx, movements, {
+      source: { type: "stocktake", id: stocktakeId, label: stocktake.name },
+      user,
+      at: now,
+    });
+    return { adjustedCount: movements.length, lines };
+  });
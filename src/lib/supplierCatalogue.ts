@@ -0,0 +1,170 @@
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  Timestamp,
+  where,
+  writeBatch,
+} from "firebase/firestore";
+import { db } from "@/lib/firebase";
+
+/** What one supplier charges for one item, and how it is sold. */
+export type SupplierItem = {
+  id: string;
+  supplierId: string;
+  supplierName: string;
+  itemId: string;
+  itemName: string;
+  itemSku: string;
+  supplierSku: string | null;
+  unitPrice: number | null;
+  currency: string;
+  /** Minimum order quantity. */
+  moq: number | null;
+  packSize: number | null;
+  leadTimeDays: number | null;
+  /** At most one entry per item is preferred. */
+  preferred: boolean;
+};
+
+export type SupplierItemInput = Omit<SupplierItem, "id">;
+
+export const SUPPLIER_ITEM_CURRENCIES = ["GBP", "EUR", "USD"];
+
+const toNumberOrNull = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return null;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : null;
+};
+
+export const mapSupplierItem = (id: string, data: any): SupplierItem => ({
+  id,
+  supplierId: data?.supplierId ?? "",
+  supplierName: data?.supplierName ?? "",
+  itemId: data?.itemId ?? "",
+  itemName: data?.itemName ?? "",
+  itemSku: data?.itemSku ?? "",
+  supplierSku: data?.supplierSku ?? null,
+  unitPrice: toNumberOrNull(data?.unitPrice),
+  currency: data?.currency ?? "GBP",
+  moq: toNumberOrNull(data?.moq),
+  packSize: toNumberOrNull(data?.packSize),
+  leadTimeDays: toNumberOrNull(data?.leadTimeDays),
+  preferred: Boolean(data?.preferred),
+});
+
+export const fetchSupplierItems = async (
+  filter: { supplierId: string } | { itemId: string } | null = null,
+) => {
+  const ref = collection(db, "supplierItems");
+  const snap = await getDocs(
+    !filter
+      ? ref
+      : "supplierId" in filter
+        ? query(ref, where("supplierId", "==", filter.supplierId))
+        : query(ref, where("itemId", "==", filter.itemId)),
+  );
+  return snap.docs
+    .map((docSnap) => mapSupplierItem(docSnap.id, docSnap.data()))
+    .sort(
+      (a, b) =>
+        Number(b.preferred) - Number(a.preferred) ||
+        a.itemName.localeCompare(b.itemName) ||
+        a.supplierName.localeCompare(b.supplierName),
+    );
+};
+
+const validateSupplierItem = (input: SupplierItemInput) => {
+  if (!input.supplierId || !input.itemId) {
+    throw new Error("Choose both a supplier and an item.");
+  }
+  const checks: [string, number | null][] = [
+    ["Unit price", input.unitPrice],
+    ["MOQ", input.moq],
+    ["Pack size", input.packSize],
+    ["Lead time", input.leadTimeDays],
+  ];
+  checks.forEach(([label, value]) => {
+    if (value !== null && (!Number.isFinite(value) || value < 0)) {
+      throw new Error(`${label} must be zero or more.`);
+    }
+  });
+};
+
+/**
+ * Create or update a catalogue entry. Marking an entry preferred clears the
+ * flag on the item's other entries in the same batch. Only one entry may
+ * exist per supplier and item.
+ */
+export const saveSupplierItem = async (
+  entryId: string | null,
+  input: SupplierItemInput,
+) => {
+  validateSupplierItem(input);
+  const existing = await fetchSupplierItems({ itemId: input.itemId });
+  if (
+    existing.some(
+      (entry) => entry.supplierId === input.supplierId && entry.id !== entryId,
+    )
+  ) {
+    throw new Error(
+      `${input.supplierName} already has a catalogue entry for ${input.itemName}.`,
+    );
+  }
+
+  const now = Timestamp.now();
+  const batch = writeBatch(db);
+  const ref = entryId
+    ? doc(db, "supplierItems", entryId)
+    : doc(collection(db, "supplierItems"));
+  batch.set(
+    ref,
+    {
+      ...input,
+      supplierSku: input.supplierSku?.trim() || null,
+      updatedAt: now,
+      ...(entryId ? {} : { createdAt: now }),
+    },
+    { merge: true },
+  );
+  if (input.preferred) {
+    existing
+      .filter((entry) => entry.preferred && entry.id !== ref.id)
+      .forEach((entry) =>
+        batch.update(doc(db, "supplierItems", entry.id), {
+          preferred: false,
+          updatedAt: now,
+        }),
+      );
+  }
+  await batch.commit();
+  return ref.id;
+};
+
+export const deleteSupplierItem = async (entryId: string) =>
+  deleteDoc(doc(db, "supplierItems", entryId));
+
+/** Round a quantity up to the entry's MOQ and then to whole packs. */
+export const applyOrderMultiples = (
+  qty: number,
+  entry: Pick<SupplierItem, "moq" | "packSize"> | null | undefined,
+) => {
+  let result = Math.max(qty, entry?.moq ?? 0);
+  if (entry?.packSize && entry.packSize > 0) {
+    result = Math.ceil(result / entry.packSize) * entry.packSize;
+  }
+  return result;
+};
+
+/** `from` plus the entry's lead time, or null when none is recorded. */
+export const getExpectedDeliveryDate = (
+  from: Date,
+  leadTimeDays: number | null | undefined,
+) => {
+  if (leadTimeDays == null) return null;
+  const date = new Date(from);
+  date.setDate(date.getDate() + leadTimeDays);
+  return date;
+};
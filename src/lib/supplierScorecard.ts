@@ -0,0 +1,224 @@
+import { collection, getDocs, type Timestamp } from "firebase/firestore";
+import { db } from "@/lib/firebase";
+
+export type SupplierPriceTrend = {
+  itemId: string;
+  itemName: string;
+  sku: string;
+  purchaseCount: number;
+  firstPrice: number;
+  latestPrice: number;
+  /** Latest price relative to the first, e.g. 0.05 for +5%. */
+  change: number | null;
+};
+
+export type SupplierScorecard = {
+  purchaseCount: number;
+  /** Delivered purchases with a proposed date, and how many arrived by it. */
+  deliveredWithDueDate: number;
+  onTimeCount: number;
+  onTimeRate: number | null;
+  /** Average days from purchase date to stock received. */
+  averageLeadTimeDays: number | null;
+  /**
+   * Quantity on goods receipts ÷ ordered, capped per line, on purchases that
+   * are due. Purchases received before receipts were recorded are skipped.
+   */
+  quantityAccuracy: number | null;
+  spendByMonth: { month: string; total: number }[];
+  totalSpend: number;
+  priceTrends: SupplierPriceTrend[];
+};
+
+type PricePoints = {
+  itemName: string;
+  sku: string;
+  points: { at: number; price: number }[];
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toMillis = (value: unknown) => {
+  const ts = value as Timestamp | null | undefined;
+  if (!ts || typeof ts.toMillis !== "function") return null;
+  return ts.toMillis();
+};
+
+const toNumber = (value: unknown) => {
+  const num = Number(value);
+  return Number.isFinite(num) ? num : 0;
+};
+
+const monthKey = (millis: number) => {
+  const date = new Date(millis);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+};
+
+/**
+ * A purchase belongs to a supplier when it carries the supplier's id, or has
+ * no id and the same vendor name (purchases logged before suppliers were
+ * linked).
+ */
+export const isSupplierPurchase = (
+  supplier: { id: string; name: string },
+  data: any,
+) =>
+  data?.supplierId
+    ? data.supplierId === supplier.id
+    : String(data?.vendorName ?? "").trim().toLowerCase() ===
+      supplier.name.trim().toLowerCase();
+
+/** Quantity on goods receipts that are not reversed, per purchase line. */
+const sumReceiptsByLine = (receipts: any[]) => {
+  const byPurchase = new Map<string, Map<number, number>>();
+  receipts.forEach((receipt) => {
+    if (!receipt?.purchaseId || receipt.reversedAt) return;
+    const byLine =
+      byPurchase.get(receipt.purchaseId) ?? new Map<number, number>();
+    (Array.isArray(receipt.lines) ? receipt.lines : []).forEach((line: any) => {
+      const qty = toNumber(line?.qty);
+      if (typeof line?.lineIndex !== "number" || qty <= 0) return;
+      byLine.set(line.lineIndex, (byLine.get(line.lineIndex) ?? 0) + qty);
+    });
+    byPurchase.set(receipt.purchaseId, byLine);
+  });
+  return byPurchase;
+};
+
+/**
+ * Score a supplier from its purchases (with their document `id`) and the
+ * goods receipts recorded against them. Drafts are ignored. A purchase counts
+ * as delivered once stock has been received in full, and as on time when that
+ * happened by the end of its proposed delivery date.
+ */
+export const buildSupplierScorecard = (
+  purchases: any[],
+  receipts: any[],
+): SupplierScorecard => {
+  const placed = purchases.filter((data) => data?.status !== "draft");
+  const receivedByPurchase = sumReceiptsByLine(receipts);
+  const now = Date.now();
+
+  let deliveredWithDueDate = 0;
+  let onTimeCount = 0;
+  const leadTimes: number[] = [];
+  let orderedDue = 0;
+  let receivedDue = 0;
+  const spend = new Map<string, number>();
+  const prices = new Map<string, PricePoints>();
+
+  placed.forEach((data) => {
+    const purchasedAt = toMillis(data?.purchaseDate) ?? toMillis(data?.createdAt);
+    const dueAt = toMillis(data?.proposedDeliveryDate);
+    const receivedAt = toMillis(data?.stockAppliedAt);
+    const lineItems: any[] = Array.isArray(data?.lineItems)
+      ? data.lineItems
+      : [];
+
+    if (receivedAt !== null) {
+      if (dueAt !== null) {
+        deliveredWithDueDate += 1;
+        // Proposed dates are whole days; allow the full day.
+        if (receivedAt < dueAt + DAY_MS) onTimeCount += 1;
+      }
+      if (purchasedAt !== null && receivedAt >= purchasedAt) {
+        leadTimes.push((receivedAt - purchasedAt) / DAY_MS);
+      }
+    }
+
+    const receivedByLine = receivedByPurchase.get(data?.id);
+    const isDue =
+      receivedAt !== null || (dueAt !== null && dueAt + DAY_MS < now);
+    if (isDue && (receivedByLine || receivedAt === null)) {
+      lineItems.forEach((line, lineIndex) => {
+        const ordered = toNumber(line?.quantity);
+        if (!line?.itemId || ordered <= 0) return;
+        orderedDue += ordered;
+        receivedDue += Math.min(receivedByLine?.get(lineIndex) ?? 0, ordered);
+      });
+    }
+
+    if (purchasedAt !== null) {
+      const total =
+        typeof data?.totalAmount === "number"
+          ? data.totalAmount
+          : lineItems.reduce((sum, line) => sum + toNumber(line?.lineTotal), 0);
+      const key = monthKey(purchasedAt);
+      spend.set(key, (spend.get(key) ?? 0) + total);
+
+      lineItems.forEach((line) => {
+        const price = Number(line?.unitPrice);
+        if (!line?.itemId || !Number.isFinite(price) || price <= 0) return;
+        const entry: PricePoints = prices.get(line.itemId) ?? {
+          itemName: line.name ?? "Unknown item",
+          sku: line.sku ?? "",
+          points: [],
+        };
+        entry.points.push({ at: purchasedAt, price });
+        prices.set(line.itemId, entry);
+      });
+    }
+  });
+
+  const priceTrends: SupplierPriceTrend[] = Array.from(prices.entries())
+    .map(([itemId, entry]) => {
+      const points = [...entry.points].sort((a, b) => a.at - b.at);
+      const firstPrice = points[0].price;
+      const latestPrice = points[points.length - 1].price;
+      return {
+        itemId,
+        itemName: entry.itemName,
+        sku: entry.sku,
+        purchaseCount: points.length,
+        firstPrice,
+        latestPrice,
+        change:
+          points.length > 1 ? (latestPrice - firstPrice) / firstPrice : null,
+      };
+    })
+    .sort(
+      (a, b) =>
+        Math.abs(b.change ?? 0) - Math.abs(a.change ?? 0) ||
+        a.itemName.localeCompare(b.itemName),
+    );
+
+  const spendByMonth = Array.from(spend.entries())
+    .map(([month, total]) => ({ month, total }))
+    .sort((a, b) => a.month.localeCompare(b.month));
+
+  return {
+    purchaseCount: placed.length,
+    deliveredWithDueDate,
+    onTimeCount,
+    onTimeRate: deliveredWithDueDate
+      ? onTimeCount / deliveredWithDueDate
+      : null,
+    averageLeadTimeDays: leadTimes.length
+      ? leadTimes.reduce((sum, days) => sum + days, 0) / leadTimes.length
+      : null,
+    quantityAccuracy: orderedDue ? receivedDue / orderedDue : null,
+    spendByMonth,
+    totalSpend: spendByMonth.reduce((sum, entry) => sum + entry.total, 0),
+    priceTrends,
+  };
+};
+
+export const loadSupplierScorecard = async (supplier: {
+  id: string;
+  name: string;
+}) => {
+  const [purchaseSnap, receiptSnap] = await Promise.all([
+    getDocs(collection(db, "purchases")),
+    getDocs(collection(db, "goodsReceipts")),
+  ]);
+  const purchases = purchaseSnap.docs
+    .map((docSnap) => ({ id: docSnap.id, ...docSnap.data() }))
+    .filter((data) => isSupplierPurchase(supplier, data));
+  const purchaseIds = new Set(purchases.map((data) => data.id));
+  return buildSupplierScorecard(
+    purchases,
+    receiptSnap.docs
+      .map((docSnap) => docSnap.data())
+      .filter((receipt) => purchaseIds.has(receipt.purchaseId)),
+  );
+};